@@ -11,10 +11,19 @@ import { swaggerSpec } from "./docs/swagger";
 import adminProvidersRoutes from "./routes/admin.providers.routes";
 import blacklistRoutes from "./routes/blacklist.routes";
 import adminBlacklistRoutes from "./routes/admin.blacklist.routes";
+import adminUsersRoutes from "./routes/admin.users.routes";
+import adminStaffRoutes from "./routes/admin.staff.routes";
 import feedsRoutes from "./routes/feeds.routes";
 import chatsRoutes from "./routes/chats.routes";
 import providersRoutes from "./routes/providers.routes";
 import favouritesRoutes from "./routes/favourites.routes";
+import subscriptionsRoutes from "./routes/subscriptions.routes";
+import adminSubscriptionsRoutes from "./routes/admin.subscriptions.routes";
+import adminPromotionsRoutes from "./routes/admin.promotions.routes";
+import webhooksRoutes from "./routes/webhooks.routes";
+import notificationsRoutes from "./routes/notifications.routes";
+import mediaRoutes from "./routes/media.routes";
+import { LOCAL_UPLOAD_DIR } from "./utils/storage";
 
 export const app = express();
 
@@ -26,6 +35,10 @@ app.use(
     credentials: true,
   }),
 );
+// Webhooks parse their own raw body for signature checks, so they are
+// mounted before express.json consumes it
+app.use("/api/v1/webhooks", webhooksRoutes);
+
 app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
@@ -46,14 +59,35 @@ app.get("/api/v1", (_req, res) => {
 
 app.get("/", (_req, res) => res.json({ ok: true, message: "Verbose API" }));
 
+// Uploaded files, when stored on local disk. Names are content hashes, so
+// they can be cached forever; the frontend runs on another origin.
+if ((process.env.STORAGE_DRIVER || "local") === "local") {
+  app.use(
+    "/media",
+    express.static(LOCAL_UPLOAD_DIR, {
+      index: false,
+      immutable: true,
+      maxAge: "365d",
+      setHeaders: (res) => res.setHeader("Cross-Origin-Resource-Policy", "cross-origin"),
+    }),
+  );
+}
+
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/admin", adminProvidersRoutes);
 app.use("/api/v1/blacklist", blacklistRoutes);
 app.use("/api/v1/admin", adminBlacklistRoutes);
+app.use("/api/v1/admin", adminUsersRoutes);
+app.use("/api/v1/admin", adminStaffRoutes);
+app.use("/api/v1/admin", adminSubscriptionsRoutes);
+app.use("/api/v1/admin", adminPromotionsRoutes);
 app.use("/api/v1/feeds", feedsRoutes);
 app.use("/api/v1/chats", chatsRoutes);
 app.use("/api/v1/providers", providersRoutes);
 app.use("/api/v1/favorites", favouritesRoutes);
+app.use("/api/v1/subscriptions", subscriptionsRoutes);
+app.use("/api/v1/notifications", notificationsRoutes);
+app.use("/api/v1/media", mediaRoutes);
 
 // Root endpoint
 app.get("/", (_req, res) => {
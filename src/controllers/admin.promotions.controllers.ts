@@ -0,0 +1,195 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { pool } from "../config/db";
+import { logAdminAction } from "./admin.users.controllers";
+import { createPromotion, PROMOTION_TYPES, toPromotionDto } from "../utils/promotions";
+
+type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+const grantPromotionSchema = z.object({
+  type: z.enum(PROMOTION_TYPES),
+  // FEATURED only; defaults to the provider's city
+  city: z.string().trim().min(2).max(60).optional(),
+  days: z.number().int().min(1).max(366),
+  // Defaults to now, or after any placement of the same kind still running
+  startsAt: z.coerce.date().optional(),
+  note: z.string().max(300).optional(),
+});
+
+const listPromotionsQuerySchema = z.object({
+  status: z.enum(["active", "scheduled", "ended", "all"]).default("active"),
+  type: z.enum(PROMOTION_TYPES).optional(),
+  city: z.string().trim().min(1).max(60).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const STATUS_CONDITIONS = {
+  active: "pr.cancelled_at IS NULL AND pr.starts_at <= now() AND pr.ends_at > now()",
+  scheduled: "pr.cancelled_at IS NULL AND pr.starts_at > now()",
+  ended: "(pr.cancelled_at IS NOT NULL OR pr.ends_at <= now())",
+  all: "true",
+} as const;
+
+/**
+ * GET /api/v1/admin/promotions?status=active&type=FEATURED&city=Lagos
+ */
+export async function listPromotions(req: AuthedRequest, res: Response) {
+  const parsed = listPromotionsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+  }
+
+  const { status, type, city, page, limit } = parsed.data;
+  const where: string[] = [STATUS_CONDITIONS[status]];
+  const values: unknown[] = [];
+
+  if (type) {
+    values.push(type);
+    where.push(`pr.type = $${values.length}`);
+  }
+  if (city) {
+    values.push(city);
+    where.push(`lower(pr.city) = lower($${values.length})`);
+  }
+
+  values.push(limit, (page - 1) * limit);
+
+  const r = await pool.query(
+    `
+    SELECT pr.*, p.display_name, p.city AS provider_city
+    FROM provider_promotions pr
+    JOIN provider_profiles p ON p.id = pr.provider_id
+    WHERE ${where.join(" AND ")}
+    ORDER BY pr.starts_at DESC
+    LIMIT $${values.length - 1} OFFSET $${values.length}
+    `,
+    values
+  );
+
+  return res.json({
+    page,
+    limit,
+    count: r.rows.length,
+    promotions: r.rows.map((row) => ({
+      ...toPromotionDto(row),
+      provider: { id: row.provider_id, displayName: row.display_name, city: row.provider_city },
+    })),
+  });
+}
+
+/**
+ * POST /api/v1/admin/providers/:providerId/promotions
+ * Free placement granted by staff (compensation, launch partners, ...).
+ */
+export async function grantPromotion(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.providerId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid providerId" });
+
+  const parsed = grantPromotionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const providerId = idParsed.data;
+  const d = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const pRes = await client.query(
+      `SELECT id, user_id, city, verification_status FROM provider_profiles WHERE id = $1`,
+      [providerId]
+    );
+    const provider = pRes.rows[0];
+    if (!provider) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Provider not found" });
+    }
+    if (provider.verification_status !== "APPROVED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ message: "Only approved providers can be promoted" });
+    }
+
+    const promotion = await createPromotion(client, {
+      providerId,
+      type: d.type,
+      city: d.city ?? provider.city,
+      days: d.days,
+      startsAt: d.startsAt,
+      grantedBy: adminUserId,
+      note: d.note,
+    });
+
+    await logAdminAction(client, adminUserId, "PROMOTION_GRANTED", provider.user_id, {
+      promotionId: promotion.id,
+      providerId,
+      ...d,
+    });
+
+    await client.query("COMMIT");
+    return res.status(201).json({ promotion: toPromotionDto(promotion) });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/admin/promotions/:promotionId/cancel
+ * Ends a placement early. Paid placements are not refunded here; refund
+ * through the gateway and the webhook cancels it.
+ */
+export async function cancelPromotion(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.promotionId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid promotionId" });
+
+  const promotionId = idParsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE provider_promotions pr
+      SET cancelled_at = now()
+      FROM provider_profiles p
+      WHERE pr.id = $1
+        AND p.id = pr.provider_id
+        AND pr.cancelled_at IS NULL
+        AND pr.ends_at > now()
+      RETURNING pr.*, p.user_id
+      `,
+      [promotionId]
+    );
+
+    if (!r.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Promotion not found or already ended" });
+    }
+
+    await logAdminAction(client, adminUserId, "PROMOTION_CANCELLED", r.rows[0].user_id, {
+      promotionId,
+      providerId: r.rows[0].provider_id,
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, promotion: toPromotionDto(r.rows[0]) });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
@@ -1,6 +1,11 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import {
+  sendProviderApprovedEmail,
+  sendProviderRejectedEmail,
+} from "../utils/mailer";
+import { schedulePrivateMediaPurge, signPrivateMedia } from "../utils/storage";
 
 type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
 type AuthedRequest = Request & { auth?: AuthUser };
@@ -18,6 +23,19 @@ function toInt(v: unknown, fallback: number) {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
 }
 
+// The review decision is already committed; a mail problem must not turn it into a 500.
+async function notifyProviderReviewed(
+  userId: string,
+  send: (to: string) => Promise<void>
+) {
+  try {
+    const uRes = await pool.query(`SELECT email FROM users WHERE id = $1 LIMIT 1`, [userId]);
+    if (uRes.rows[0]) await send(uRes.rows[0].email);
+  } catch (e) {
+    console.error("Failed to send provider review email", e);
+  }
+}
+
 //GET /api/v1/admin/providers?status=PENDING|APPROVED|REJECTED
  
 export async function listProviders(req: AuthedRequest, res: Response) {
@@ -73,7 +91,9 @@ export async function listProviders(req: AuthedRequest, res: Response) {
 /**
  * GET /api/v1/admin/providers/:providerId
  * Returns full verification packet:
- * - provider profile including stats JSON (contains hidden realName)
+ * - provider profile including stats JSON
+ * - private identity (real name, DOB, referral code, selfie); the selfie
+ *   URL is signed and expires after SIGNED_URL_TTL_SECONDS
  * - media list
  */
 export async function getProvider(req: AuthedRequest, res: Response) {
@@ -96,6 +116,45 @@ export async function getProvider(req: AuthedRequest, res: Response) {
   const provider = pRes.rows[0];
   if (!provider) return res.status(404).json({ message: "Provider not found" });
 
+  const iRes = await pool.query(
+    `
+    SELECT
+      i.real_name,
+      to_char(i.dob, 'YYYY-MM-DD') AS dob,
+      i.referral_code,
+      i.verification_selfie_media_id,
+      m.url AS legacy_selfie_url,
+      pm.storage_key AS selfie_storage_key,
+      pm.purge_after AS selfie_purge_after,
+      pm.purged_at AS selfie_purged_at,
+      i.verified_at
+    FROM provider_identity i
+    LEFT JOIN provider_media m ON m.id = i.verification_selfie_media_id
+    LEFT JOIN private_media pm ON pm.id = i.verification_selfie_private_id
+    WHERE i.provider_id = $1
+    LIMIT 1
+    `,
+    [providerId]
+  );
+
+  const i = iRes.rows[0];
+  // Selfies not yet moved to private storage still have a plain URL
+  const signed = i?.selfie_storage_key
+    ? signPrivateMedia({ storage_key: i.selfie_storage_key, purged_at: i.selfie_purged_at })
+    : null;
+  const identity = i
+    ? {
+        real_name: i.real_name,
+        dob: i.dob,
+        referral_code: i.referral_code,
+        verification_selfie_url: signed?.url ?? i.legacy_selfie_url ?? null,
+        verification_selfie_url_expires_at: signed?.expiresAt ?? null,
+        verification_selfie_purge_after: i.selfie_purge_after ?? null,
+        verification_selfie_purged_at: i.selfie_purged_at ?? null,
+        verified_at: i.verified_at ?? null,
+      }
+    : null;
+
   const mRes = await pool.query(
     `
     SELECT id, url, type, is_cover, is_avatar, created_at
@@ -108,6 +167,7 @@ export async function getProvider(req: AuthedRequest, res: Response) {
 
   return res.json({
     provider,
+    identity,
     media: mRes.rows,
   });
 }
@@ -138,7 +198,7 @@ export async function approveProvider(req: AuthedRequest, res: Response) {
         verification_rejection_reason = NULL,
         updated_at = now()
       WHERE id = $1
-      RETURNING id, user_id, verification_status
+      RETURNING id, user_id, display_name, verification_status
       `,
       [providerId]
     );
@@ -157,8 +217,21 @@ export async function approveProvider(req: AuthedRequest, res: Response) {
       [adminUserId, "PROVIDER_APPROVED", providerId, JSON.stringify({ note })]
     );
 
+    // No-op for providers who never submitted identity details
+    await client.query(
+      `UPDATE provider_identity SET verified_at = now(), updated_at = now() WHERE provider_id = $1`,
+      [providerId]
+    );
+
+    // Identity documents are only needed until the decision
+    await schedulePrivateMediaPurge(client, updated.id);
+
     await client.query("COMMIT");
 
+    await notifyProviderReviewed(updated.user_id, (to) =>
+      sendProviderApprovedEmail({ to, displayName: updated.display_name, note })
+    );
+
     return res.json({
       ok: true,
       providerId,
@@ -200,7 +273,7 @@ export async function rejectProvider(req: AuthedRequest, res: Response) {
         verification_rejection_reason = $2,
         updated_at = now()
       WHERE id = $1
-      RETURNING id, user_id, verification_status
+      RETURNING id, user_id, display_name, verification_status
       `,
       [providerId, reason]
     );
@@ -219,8 +292,18 @@ export async function rejectProvider(req: AuthedRequest, res: Response) {
       [adminUserId, "PROVIDER_REJECTED", providerId, JSON.stringify({ reason })]
     );
 
+    await client.query(
+      `UPDATE provider_identity SET verified_at = NULL, updated_at = now()
+       WHERE provider_id = $1 AND verified_at IS NOT NULL`,
+      [providerId]
+    );
+
     await client.query("COMMIT");
 
+    await notifyProviderReviewed(updated.user_id, (to) =>
+      sendProviderRejectedEmail({ to, displayName: updated.display_name, reason })
+    );
+
     return res.json({
       ok: true,
       providerId,
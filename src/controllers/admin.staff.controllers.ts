@@ -0,0 +1,292 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+import { PERMISSIONS } from "../utils/permissions";
+import { logAdminAction } from "./admin.users.controllers";
+
+type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+const permissionList = z.array(z.enum(PERMISSIONS)).max(PERMISSIONS.length);
+
+const createRoleSchema = z.object({
+  name: z.string().min(2).max(60),
+  description: z.string().max(300).optional(),
+  permissions: permissionList,
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(2).max(60).optional(),
+  description: z.string().max(300).optional(),
+  permissions: permissionList.optional(),
+});
+
+const assignRolesSchema = z.object({
+  roleIds: z.array(z.string().uuid()).max(20),
+});
+
+async function setRolePermissions(client: PoolClient, roleId: string, permissions: string[]) {
+  await client.query(`DELETE FROM staff_role_permissions WHERE role_id = $1`, [roleId]);
+  await client.query(
+    `
+    INSERT INTO staff_role_permissions (role_id, permission_key)
+    SELECT $1, unnest($2::text[])
+    `,
+    [roleId, permissions]
+  );
+}
+
+/**
+ * GET /api/v1/admin/permissions
+ */
+export async function listPermissions(_req: AuthedRequest, res: Response) {
+  const r = await pool.query(`SELECT key, description FROM permissions ORDER BY key`);
+  return res.json({ permissions: r.rows });
+}
+
+/**
+ * GET /api/v1/admin/staff-roles
+ */
+export async function listStaffRoles(_req: AuthedRequest, res: Response) {
+  const r = await pool.query(
+    `
+    SELECT
+      r.id,
+      r.name,
+      r.description,
+      r.created_at,
+      COALESCE(
+        (SELECT array_agg(rp.permission_key ORDER BY rp.permission_key)
+         FROM staff_role_permissions rp WHERE rp.role_id = r.id),
+        ARRAY[]::text[]
+      ) AS permissions,
+      (SELECT COUNT(*)::int FROM user_staff_roles ur WHERE ur.role_id = r.id) AS member_count
+    FROM staff_roles r
+    ORDER BY r.name
+    `
+  );
+
+  return res.json({ roles: r.rows });
+}
+
+/**
+ * POST /api/v1/admin/staff-roles
+ */
+export async function createStaffRole(req: AuthedRequest, res: Response) {
+  const parsed = createRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const { name, description, permissions } = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const roleRes = await client.query(
+      `
+      INSERT INTO staff_roles (name, description)
+      VALUES ($1, $2)
+      RETURNING id, name, description, created_at
+      `,
+      [name, description ?? null]
+    );
+    const role = roleRes.rows[0];
+
+    await setRolePermissions(client, role.id, permissions);
+
+    await logAdminAction(client, adminUserId, "STAFF_ROLE_CREATED", null, {
+      roleId: role.id,
+      name,
+      permissions,
+    });
+
+    await client.query("COMMIT");
+
+    return res.status(201).json({ role: { ...role, permissions } });
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    if (e?.code === "23505") return res.status(409).json({ message: "Role name already in use" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * PATCH /api/v1/admin/staff-roles/:roleId
+ * permissions, when given, replaces the role's permission set.
+ */
+export async function updateStaffRole(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.roleId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid roleId" });
+
+  const parsed = updateRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const roleId = idParsed.data;
+  const { name, description, permissions } = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const roleRes = await client.query(
+      `
+      UPDATE staff_roles
+      SET
+        name = COALESCE($2, name),
+        description = COALESCE($3, description),
+        updated_at = now()
+      WHERE id = $1
+      RETURNING id, name, description
+      `,
+      [roleId, name ?? null, description ?? null]
+    );
+
+    const role = roleRes.rows[0];
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Role not found" });
+    }
+
+    if (permissions) await setRolePermissions(client, roleId, permissions);
+
+    await logAdminAction(client, adminUserId, "STAFF_ROLE_UPDATED", null, {
+      roleId,
+      name,
+      description,
+      permissions,
+    });
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, role });
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    if (e?.code === "23505") return res.status(409).json({ message: "Role name already in use" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/staff-roles/:roleId
+ */
+export async function deleteStaffRole(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.roleId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid roleId" });
+
+  const roleId = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const delRes = await client.query(
+      `DELETE FROM staff_roles WHERE id = $1 RETURNING name`,
+      [roleId]
+    );
+
+    if (!delRes.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Role not found" });
+    }
+
+    await logAdminAction(client, adminUserId, "STAFF_ROLE_DELETED", null, {
+      roleId,
+      name: delRes.rows[0].name,
+    });
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * PUT /api/v1/admin/users/:userId/staff-roles
+ * body: { roleIds: uuid[] } — replaces the user's staff roles.
+ * Only ADMIN accounts can hold staff roles.
+ */
+export async function setUserStaffRoles(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const parsed = assignRolesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const userId = idParsed.data;
+  const roleIds = [...new Set(parsed.data.roleIds)];
+  const adminUserId = req.auth!.id;
+
+  // Prevents an admin from locking themselves out of staff management
+  if (userId === adminUserId)
+    return res.status(400).json({ message: "You can't change your own staff roles" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const uRes = await client.query(`SELECT role FROM users WHERE id = $1 LIMIT 1`, [userId]);
+    const user = uRes.rows[0];
+    if (!user) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (user.role !== "ADMIN") {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ message: "Staff roles can only be given to admins" });
+    }
+
+    const rolesRes = await client.query(
+      `SELECT id FROM staff_roles WHERE id = ANY($1::uuid[])`,
+      [roleIds]
+    );
+    if (rolesRes.rows.length !== roleIds.length) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ message: "Unknown roleId" });
+    }
+
+    await client.query(`DELETE FROM user_staff_roles WHERE user_id = $1`, [userId]);
+    await client.query(
+      `
+      INSERT INTO user_staff_roles (user_id, role_id)
+      SELECT $1, unnest($2::uuid[])
+      `,
+      [userId, roleIds]
+    );
+
+    await logAdminAction(client, adminUserId, "USER_STAFF_ROLES_SET", userId, { roleIds });
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, userId, roleIds });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,533 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { pool } from "../config/db";
+import { logAdminAction } from "./admin.users.controllers";
+
+type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+const createPlanSchema = z.object({
+  code: z.string().regex(/^[a-z0-9_-]{2,40}$/, "Lowercase letters, digits, _ and - only"),
+  name: z.string().min(2).max(60),
+  description: z.string().max(300).optional(),
+  durationDays: z.number().int().min(1).max(366),
+  // Minor units (kobo for NGN)
+  price: z.number().int().positive(),
+  currency: z.string().length(3).default("NGN"),
+  perks: z.array(z.string().min(1).max(120)).max(20).default([]),
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().default(0),
+  // FEATURED and BOOST plans sell listing placements instead of subscription time
+  kind: z.enum(["SUBSCRIPTION", "FEATURED", "BOOST"]).default("SUBSCRIPTION"),
+  // Media items (cover and avatar included) allowed on this plan; null = no limit
+  // (no default, so PATCHes that leave it out don't clear it)
+  maxMedia: z.number().int().min(1).max(500).nullable().optional(),
+});
+
+// Code, currency and kind are fixed once created: payments already reference them
+const updatePlanSchema = createPlanSchema
+  .omit({ code: true, currency: true, kind: true })
+  .partial();
+
+/**
+ * GET /api/v1/admin/subscription-plans
+ * Includes inactive plans.
+ */
+export async function listPlansAdmin(_req: AuthedRequest, res: Response) {
+  const r = await pool.query(
+    `
+    SELECT
+      pl.*,
+      (SELECT COUNT(*)::int FROM payments p
+        WHERE p.plan_id = pl.id AND p.status = 'SUCCEEDED') AS paid_count
+    FROM subscription_plans pl
+    ORDER BY pl.is_active DESC, pl.kind, pl.sort_order, pl.price
+    `
+  );
+  return res.json({ plans: r.rows });
+}
+
+/**
+ * POST /api/v1/admin/subscription-plans
+ */
+export async function createPlan(req: AuthedRequest, res: Response) {
+  const parsed = createPlanSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const d = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      INSERT INTO subscription_plans
+        (code, name, description, duration_days, price, currency, perks, is_active, sort_order, kind, max_media)
+      VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10, $11)
+      RETURNING *
+      `,
+      [
+        d.code,
+        d.name,
+        d.description ?? null,
+        d.durationDays,
+        d.price,
+        d.currency.toUpperCase(),
+        JSON.stringify(d.perks),
+        d.isActive,
+        d.sortOrder,
+        d.kind,
+        d.maxMedia ?? null,
+      ]
+    );
+
+    await logAdminAction(client, adminUserId, "SUBSCRIPTION_PLAN_CREATED", null, {
+      planId: r.rows[0].id,
+      ...d,
+    });
+
+    await client.query("COMMIT");
+    return res.status(201).json({ plan: r.rows[0] });
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    if (e?.code === "23505") return res.status(409).json({ message: "Plan code already in use" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * PATCH /api/v1/admin/subscription-plans/:planId
+ * Price changes only apply to new checkouts.
+ */
+export async function updatePlan(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.planId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid planId" });
+
+  const parsed = updatePlanSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const planId = idParsed.data;
+  const d = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const columns: Record<string, unknown> = {
+    name: d.name,
+    description: d.description,
+    duration_days: d.durationDays,
+    price: d.price,
+    perks: d.perks === undefined ? undefined : JSON.stringify(d.perks),
+    is_active: d.isActive,
+    sort_order: d.sortOrder,
+    max_media: d.maxMedia,
+  };
+
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  for (const [col, value] of Object.entries(columns)) {
+    if (value === undefined) continue;
+    values.push(value);
+    sets.push(`${col} = $${values.length}${col === "perks" ? "::jsonb" : ""}`);
+  }
+
+  if (!sets.length) return res.status(400).json({ message: "Nothing to update" });
+
+  values.push(planId);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE subscription_plans
+      SET ${sets.join(", ")}, updated_at = now()
+      WHERE id = $${values.length}
+      RETURNING *
+      `,
+      values
+    );
+
+    if (!r.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Plan not found" });
+    }
+
+    await logAdminAction(client, adminUserId, "SUBSCRIPTION_PLAN_UPDATED", null, {
+      planId,
+      ...d,
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, plan: r.rows[0] });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+const grantSchema = z.object({
+  days: z.number().int().min(1).max(366),
+  reason: z.string().min(3).max(500),
+});
+
+/**
+ * POST /api/v1/admin/providers/:providerId/subscription-grants
+ * body: { days, reason }
+ * Gives a provider subscription time without a payment (support cases,
+ * goodwill, accounts from before subscriptions). Added on top of any
+ * remaining time, like a renewal.
+ */
+export async function grantSubscription(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.providerId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid providerId" });
+
+  const parsed = grantSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const providerId = idParsed.data;
+  const { days, reason } = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE provider_profiles
+      SET subscription_expires_at = GREATEST(now(), COALESCE(subscription_expires_at, now()))
+                                    + make_interval(days => $2),
+          updated_at = now()
+      WHERE id = $1
+      RETURNING user_id, subscription_expires_at
+      `,
+      [providerId, days]
+    );
+
+    const provider = r.rows[0];
+    if (!provider) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Provider not found" });
+    }
+    const expiresAt: Date = provider.subscription_expires_at;
+
+    await client.query(
+      `
+      INSERT INTO subscription_events (provider_id, event_type, reference, expires_at)
+      VALUES ($1, 'ADMIN_GRANT', $2, $3)
+      `,
+      [providerId, `admin:${adminUserId}`, expiresAt]
+    );
+
+    await logAdminAction(client, adminUserId, "SUBSCRIPTION_GRANTED", provider.user_id, {
+      providerId,
+      days,
+      reason,
+      expiresAt,
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, providerId, subscriptionExpiresAt: expiresAt });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+const revenueQuerySchema = z.object({
+  period: z.enum(["day", "week", "month"]).default("month"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/v1/admin/revenue?period=month&from=2026-01-01&to=2026-07-01
+ * Gross (subscriptions and placements), refunds and net per period and
+ * currency, from subscription_events
+ * (refunds count in the period they happened). Defaults to the last 12 months.
+ */
+export async function getRevenue(req: AuthedRequest, res: Response) {
+  const parsed = revenueQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+  }
+
+  const { period } = parsed.data;
+  const to = parsed.data.to ?? new Date();
+  const from = parsed.data.from ?? new Date(to.getTime() - 365 * 24 * 60 * 60 * 1000);
+  if (from >= to) return res.status(400).json({ message: "from must be before to" });
+
+  const r = await pool.query(
+    `
+    SELECT
+      date_trunc($1, e.created_at) AS period_start,
+      COALESCE(pay.currency, 'NGN') AS currency,
+      COALESCE(SUM(e.amount) FILTER (WHERE e.event_type IN ('ACTIVATED', 'RENEWED', 'PROMOTION_PURCHASED')), 0)::bigint AS gross,
+      COALESCE(SUM(e.amount) FILTER (WHERE e.event_type = 'REFUNDED'), 0)::bigint AS refunds,
+      COUNT(*) FILTER (WHERE e.event_type = 'ACTIVATED')::int AS activations,
+      COUNT(*) FILTER (WHERE e.event_type = 'RENEWED')::int AS renewals,
+      COUNT(*) FILTER (WHERE e.event_type = 'PROMOTION_PURCHASED')::int AS promotions,
+      COUNT(*) FILTER (WHERE e.event_type = 'REFUNDED')::int AS refund_count
+    FROM subscription_events e
+    LEFT JOIN payments pay ON pay.id = e.payment_id
+    WHERE e.created_at >= $2
+      AND e.created_at < $3
+      AND e.event_type IN ('ACTIVATED', 'RENEWED', 'PROMOTION_PURCHASED', 'REFUNDED')
+      AND e.amount IS NOT NULL
+    GROUP BY 1, 2
+    ORDER BY 1 DESC, 2
+    `,
+    [period, from, to]
+  );
+
+  const rows = r.rows.map((x) => ({
+    periodStart: x.period_start,
+    currency: x.currency,
+    gross: Number(x.gross),
+    refunds: Number(x.refunds),
+    net: Number(x.gross) - Number(x.refunds),
+    activations: x.activations,
+    renewals: x.renewals,
+    promotions: x.promotions,
+    refundCount: x.refund_count,
+  }));
+
+  const totals: Record<string, { gross: number; refunds: number; net: number }> = {};
+  for (const row of rows) {
+    const t = (totals[row.currency] ??= { gross: 0, refunds: 0, net: 0 });
+    t.gross += row.gross;
+    t.refunds += row.refunds;
+    t.net += row.net;
+  }
+
+  return res.json({ period, from, to, periods: rows, totals });
+}
+
+const promoCodeBaseSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,40}$/, "Letters, digits, _ and - only"),
+  description: z.string().max(300).optional(),
+  discountType: z.enum(["PERCENT", "FIXED"]),
+  // PERCENT: 1-99. FIXED: minor units of currency
+  discountValue: z.number().int().positive(),
+  currency: z.string().length(3).optional(),
+  // Restrict to these plan codes; omit for all plans
+  planCodes: z.array(z.string().min(1).max(40)).min(1).optional(),
+  maxRedemptions: z.number().int().positive().optional(),
+  maxRedemptionsPerProvider: z.number().int().positive().default(1),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+  isActive: z.boolean().default(true),
+});
+
+const createPromoCodeSchema = promoCodeBaseSchema
+  .refine((d) => d.discountType !== "PERCENT" || d.discountValue < 100, {
+    message: "Percentage discounts must be below 100",
+    path: ["discountValue"],
+  })
+  .refine((d) => d.discountType !== "FIXED" || !!d.currency, {
+    message: "currency is required for fixed discounts",
+    path: ["currency"],
+  })
+  .refine((d) => !d.startsAt || !d.expiresAt || d.startsAt < d.expiresAt, {
+    message: "startsAt must be before expiresAt",
+    path: ["expiresAt"],
+  });
+
+// The discount itself is fixed once created: payments already reference it
+const updatePromoCodeSchema = promoCodeBaseSchema
+  .pick({
+    description: true,
+    planCodes: true,
+    maxRedemptions: true,
+    maxRedemptionsPerProvider: true,
+    startsAt: true,
+    expiresAt: true,
+    isActive: true,
+  })
+  .partial()
+  .extend({
+    // null clears the limit / restriction
+    planCodes: z.array(z.string().min(1).max(40)).min(1).nullable().optional(),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+  });
+
+const PROMO_CODE_COLUMNS = `
+  pc.*,
+  (SELECT COUNT(*)::int FROM payments p
+    WHERE p.promo_code_id = pc.id AND p.status = 'SUCCEEDED') AS redemptions,
+  (SELECT COALESCE(SUM(p.discount_amount), 0)::bigint FROM payments p
+    WHERE p.promo_code_id = pc.id AND p.status = 'SUCCEEDED') AS total_discount
+`;
+
+/**
+ * GET /api/v1/admin/promo-codes
+ */
+export async function listPromoCodes(_req: AuthedRequest, res: Response) {
+  const r = await pool.query(
+    `
+    SELECT ${PROMO_CODE_COLUMNS}
+    FROM promo_codes pc
+    ORDER BY pc.is_active DESC, pc.created_at DESC
+    `
+  );
+  return res.json({ promoCodes: r.rows });
+}
+
+/**
+ * POST /api/v1/admin/promo-codes
+ */
+export async function createPromoCode(req: AuthedRequest, res: Response) {
+  const parsed = createPromoCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const d = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      INSERT INTO promo_codes
+        (code, description, discount_type, discount_value, currency, plan_codes,
+         max_redemptions, max_redemptions_per_provider, starts_at, expires_at,
+         is_active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *
+      `,
+      [
+        d.code.toUpperCase(),
+        d.description ?? null,
+        d.discountType,
+        d.discountValue,
+        d.currency?.toUpperCase() ?? null,
+        d.planCodes ?? null,
+        d.maxRedemptions ?? null,
+        d.maxRedemptionsPerProvider,
+        d.startsAt ?? null,
+        d.expiresAt ?? null,
+        d.isActive,
+        adminUserId,
+      ]
+    );
+
+    await logAdminAction(client, adminUserId, "PROMO_CODE_CREATED", null, {
+      promoCodeId: r.rows[0].id,
+      ...d,
+    });
+
+    await client.query("COMMIT");
+    return res.status(201).json({ promoCode: r.rows[0] });
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    if (e?.code === "23505") return res.status(409).json({ message: "Promo code already exists" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * PATCH /api/v1/admin/promo-codes/:promoCodeId
+ * Set isActive=false to withdraw a code.
+ */
+export async function updatePromoCode(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.promoCodeId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid promoCodeId" });
+
+  const parsed = updatePromoCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const promoCodeId = idParsed.data;
+  const d = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const columns: Record<string, unknown> = {
+    description: d.description,
+    plan_codes: d.planCodes,
+    max_redemptions: d.maxRedemptions,
+    max_redemptions_per_provider: d.maxRedemptionsPerProvider,
+    starts_at: d.startsAt,
+    expires_at: d.expiresAt,
+    is_active: d.isActive,
+  };
+
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  for (const [col, value] of Object.entries(columns)) {
+    if (value === undefined) continue;
+    values.push(value);
+    sets.push(`${col} = $${values.length}`);
+  }
+
+  if (!sets.length) return res.status(400).json({ message: "Nothing to update" });
+
+  values.push(promoCodeId);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE promo_codes
+      SET ${sets.join(", ")}, updated_at = now()
+      WHERE id = $${values.length}
+      RETURNING *
+      `,
+      values
+    );
+
+    if (!r.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Promo code not found" });
+    }
+
+    const row = r.rows[0];
+    if (row.starts_at && row.expires_at && row.starts_at >= row.expires_at) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ message: "startsAt must be before expiresAt" });
+    }
+
+    await logAdminAction(client, adminUserId, "PROMO_CODE_UPDATED", null, {
+      promoCodeId,
+      ...d,
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, promoCode: row });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,485 @@
+import { Request, Response } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+import { hashToken, revokeAllSessions } from "../utils/sessions";
+import { sendPasswordResetEmail } from "../utils/mailer";
+
+type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+const changeRoleSchema = z.object({
+  role: z.enum(["GUEST", "PROVIDER", "ADMIN"]),
+});
+
+const disableSchema = z.object({
+  reason: z.string().min(3).max(500),
+});
+
+function toInt(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export async function logAdminAction(
+  client: PoolClient,
+  adminUserId: string,
+  action: string,
+  targetUserId: string | null,
+  meta: Record<string, unknown> = {}
+) {
+  await client.query(
+    `
+    INSERT INTO admin_actions (admin_user_id, action, target_user_id, meta)
+    VALUES ($1, $2, $3, $4::jsonb)
+    `,
+    [adminUserId, action, targetUserId, JSON.stringify(meta)]
+  );
+}
+
+/**
+ * GET /api/v1/admin/users?search=&role=&status=&page=&limit=
+ * status: active | disabled | locked | pending_deletion
+ */
+export async function listUsers(req: AuthedRequest, res: Response) {
+  const search = (req.query.search as string | undefined)?.trim();
+  const role = (req.query.role as string | undefined)?.trim().toUpperCase();
+  const status = (req.query.status as string | undefined)?.trim().toLowerCase();
+  const page = toInt(req.query.page, 1);
+  const limit = Math.min(toInt(req.query.limit, 20), 100);
+  const offset = (page - 1) * limit;
+
+  const where: string[] = ["u.deleted_at IS NULL"];
+  const params: any[] = [];
+  let i = 1;
+
+  if (role) {
+    if (!["GUEST", "PROVIDER", "ADMIN"].includes(role))
+      return res.status(400).json({ message: "Invalid role" });
+    where.push(`u.role = $${i++}`);
+    params.push(role);
+  }
+
+  switch (status) {
+    case undefined:
+    case "":
+      break;
+    case "active":
+      where.push(`u.disabled_at IS NULL AND NOT EXISTS (
+        SELECT 1 FROM login_attempts la WHERE la.email = u.email AND la.locked_until > now()
+      )`);
+      break;
+    case "disabled":
+      where.push(`u.disabled_at IS NOT NULL`);
+      break;
+    case "locked":
+      where.push(`EXISTS (
+        SELECT 1 FROM login_attempts la WHERE la.email = u.email AND la.locked_until > now()
+      )`);
+      break;
+    case "pending_deletion":
+      where.push(`u.deletion_scheduled_for IS NOT NULL`);
+      break;
+    default:
+      return res.status(400).json({ message: "Invalid status" });
+  }
+
+  // search by email, display name or id
+  if (search) {
+    where.push(`(
+      u.email ILIKE $${i} OR
+      u.display_name ILIKE $${i} OR
+      CAST(u.id AS text) ILIKE $${i}
+    )`);
+    params.push(`%${search}%`);
+    i++;
+  }
+
+  params.push(limit, offset);
+
+  const result = await pool.query(
+    `
+    SELECT
+      u.id,
+      u.email,
+      u.role,
+      u.display_name,
+      u.email_verified_at,
+      u.disabled_at,
+      u.disabled_reason,
+      (SELECT la.locked_until FROM login_attempts la WHERE la.email = u.email) AS locked_until,
+      u.deletion_scheduled_for,
+      u.created_at,
+      p.id AS provider_id,
+      p.verification_status,
+      (SELECT MAX(s.last_seen_at) FROM sessions s WHERE s.user_id = u.id) AS last_seen_at
+    FROM users u
+    LEFT JOIN provider_profiles p ON p.user_id = u.id
+    WHERE ${where.join(" AND ")}
+    ORDER BY u.created_at DESC
+    LIMIT $${i} OFFSET $${i + 1}
+    `,
+    params
+  );
+
+  return res.json({
+    page,
+    limit,
+    count: result.rows.length,
+    users: result.rows,
+  });
+}
+
+/**
+ * GET /api/v1/admin/users/:userId
+ * Account details, activity summary and the audit trail for this user.
+ */
+export async function getUser(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const userId = parsed.data;
+
+  const uRes = await pool.query(
+    `
+    SELECT
+      u.id,
+      u.email,
+      u.role,
+      u.display_name,
+      u.phone,
+      u.call_number,
+      u.whatsapp_number,
+      u.email_verified_at,
+      u.totp_enabled_at,
+      COALESCE(la.failed_login_count, 0) AS failed_login_count,
+      la.locked_until,
+      u.disabled_at,
+      u.disabled_reason,
+      u.deletion_scheduled_for,
+      u.deleted_at,
+      u.created_at,
+      u.updated_at,
+      p.id AS provider_id,
+      p.verification_status,
+      p.is_suspended
+    FROM users u
+    LEFT JOIN provider_profiles p ON p.user_id = u.id
+    LEFT JOIN login_attempts la ON la.email = u.email
+    WHERE u.id = $1
+    LIMIT 1
+    `,
+    [userId]
+  );
+
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  const activityRes = await pool.query(
+    `
+    SELECT
+      (SELECT COUNT(*)::int FROM sessions s
+        WHERE s.user_id = $1 AND s.revoked_at IS NULL AND s.expires_at > now()) AS active_sessions,
+      (SELECT MAX(s.created_at) FROM sessions s WHERE s.user_id = $1) AS last_login_at,
+      (SELECT MAX(s.last_seen_at) FROM sessions s WHERE s.user_id = $1) AS last_seen_at,
+      (SELECT COUNT(*)::int FROM messages m WHERE m.sender_user_id = $1) AS messages_sent,
+      (SELECT COUNT(*)::int FROM conversations c
+        WHERE c.client_user_id = $1 OR c.provider_user_id = $1) AS conversations
+    `,
+    [userId]
+  );
+
+  const actionsRes = await pool.query(
+    `
+    SELECT a.id, a.action, a.meta, a.created_at, a.admin_user_id, au.email AS admin_email
+    FROM admin_actions a
+    JOIN users au ON au.id = a.admin_user_id
+    WHERE a.target_user_id = $1
+    ORDER BY a.created_at DESC
+    LIMIT 50
+    `,
+    [userId]
+  );
+
+  return res.json({
+    user,
+    activity: activityRes.rows[0],
+    adminActions: actionsRes.rows,
+  });
+}
+
+/**
+ * PATCH /api/v1/admin/users/:userId/role
+ * body: { role: GUEST | PROVIDER | ADMIN }
+ * Tokens carry the role, so the user's sessions are revoked.
+ */
+export async function changeUserRole(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const parsed = changeRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const userId = idParsed.data;
+  const adminUserId = req.auth!.id;
+  const role = parsed.data.role;
+
+  if (userId === adminUserId)
+    return res.status(400).json({ message: "You can't change your own role" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const currentRes = await client.query(
+      `SELECT role FROM users WHERE id = $1 AND deleted_at IS NULL LIMIT 1 FOR UPDATE`,
+      [userId]
+    );
+    const current = currentRes.rows[0];
+    if (!current) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await client.query(`UPDATE users SET role = $1, updated_at = now() WHERE id = $2`, [
+      role,
+      userId,
+    ]);
+
+    await revokeAllSessions(userId, "ROLE_CHANGED", { db: client });
+
+    await logAdminAction(client, adminUserId, "USER_ROLE_CHANGED", userId, {
+      from: current.role,
+      to: role,
+    });
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, userId, role });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/admin/users/:userId/force-password-reset
+ * Invalidates the current password, signs the user out everywhere and emails
+ * a reset link (valid 24h).
+ */
+export async function forcePasswordReset(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const userId = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const rawToken = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const client = await pool.connect();
+  let email: string;
+  try {
+    await client.query("BEGIN");
+
+    const updateRes = await client.query(
+      `
+      UPDATE users
+      SET password_hash = $2, updated_at = now()
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING email
+      `,
+      // Not a bcrypt hash: no password matches until the reset is completed
+      [userId, `!reset-${crypto.randomBytes(16).toString("hex")}`]
+    );
+
+    const updated = updateRes.rows[0];
+    if (!updated) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+    email = updated.email;
+
+    await client.query(
+      `
+      INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+      VALUES ($1, $2, $3)
+      `,
+      [userId, hashToken(rawToken), expiresAt]
+    );
+
+    await revokeAllSessions(userId, "ADMIN_FORCED_PASSWORD_RESET", { db: client });
+
+    await logAdminAction(client, adminUserId, "USER_PASSWORD_RESET_FORCED", userId);
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
+  await sendPasswordResetEmail({
+    to: email,
+    resetLink: `${frontendUrl}/?action=reset-password&token=${rawToken}`,
+  });
+
+  return res.json({ ok: true, userId });
+}
+
+/**
+ * POST /api/v1/admin/users/:userId/disable
+ * body: { reason: string }
+ * Bans the account: it can't sign in and all sessions are revoked.
+ */
+export async function disableUser(req: AuthedRequest, res: Response) {
+  const idParsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!idParsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const parsed = disableSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid payload", errors: parsed.error.flatten() });
+  }
+
+  const userId = idParsed.data;
+  const adminUserId = req.auth!.id;
+  const reason = parsed.data.reason;
+
+  if (userId === adminUserId)
+    return res.status(400).json({ message: "You can't disable your own account" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const updateRes = await client.query(
+      `
+      UPDATE users
+      SET disabled_at = now(), disabled_reason = $2, updated_at = now()
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING id
+      `,
+      [userId, reason]
+    );
+
+    if (!updateRes.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await revokeAllSessions(userId, "ACCOUNT_DISABLED", { db: client });
+
+    await logAdminAction(client, adminUserId, "USER_DISABLED", userId, { reason });
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, userId });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/admin/users/:userId/enable
+ */
+export async function enableUser(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const userId = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const updateRes = await client.query(
+      `
+      UPDATE users
+      SET disabled_at = NULL, disabled_reason = NULL, updated_at = now()
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING id
+      `,
+      [userId]
+    );
+
+    if (!updateRes.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await logAdminAction(client, adminUserId, "USER_ENABLED", userId);
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, userId });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/admin/users/:userId/unlock
+ * Clears a login (and two-factor) lockout before it expires on its own.
+ */
+export async function unlockUser(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.userId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid userId" });
+
+  const userId = parsed.data;
+  const adminUserId = req.auth!.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const uRes = await client.query(
+      `SELECT id, email FROM users WHERE id = $1 LIMIT 1`,
+      [userId]
+    );
+
+    const user = uRes.rows[0];
+    if (!user) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Lockouts are tracked per email (see utils/loginThrottle.ts)
+    await client.query(`DELETE FROM login_attempts WHERE email = $1`, [user.email]);
+    await client.query(
+      `UPDATE users SET totp_failed_count = 0, totp_locked_until = NULL WHERE id = $1`,
+      [userId]
+    );
+
+    await logAdminAction(client, adminUserId, "USER_UNLOCKED", userId);
+
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, userId });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
@@ -1,15 +1,50 @@
 import { Request, Response } from "express";
 import bcrypt from "bcrypt";
 import crypto from "crypto";
+import { Pool, PoolClient } from "pg";
 import { z } from "zod";
-import { signAccessToken } from "../utils/jwt";
 import { pool } from "../config/db";
-import { sendPasswordResetEmail } from "../utils/mailer";
+import {
+  sendEmailChangeEmails,
+  sendPasswordResetEmail,
+} from "../utils/mailer";
+import {
+  createSession,
+  hashToken,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../utils/sessions";
+import { issueOtp, otpTypeForRole, verifyOtp } from "../utils/otp";
+import { signTwoFactorChallenge } from "../utils/jwt";
+import { buildUserExport } from "../utils/dataExport";
+import { getUserPermissions } from "../utils/permissions";
+import { findReferrer, generateReferralCode } from "../utils/referrals";
+import { DEFAULT_MEDIA_LIMIT } from "../utils/providerMedia";
+import {
+  claimPrivateMedia,
+  insertProviderMedia,
+  MediaRejectedError,
+  resolveMediaInput,
+  resolvePrivateMediaInput,
+} from "../utils/storage";
+import {
+  DELETION_GRACE_DAYS,
+  DELETION_SUSPENSION_REASON,
+} from "../utils/accountDeletion";
+import {
+  clearFailedLogins,
+  notifyAccountLocked,
+  registerLoginAttempt,
+} from "../utils/loginThrottle";
 
 type AuthUser = {
   id: string;
   role: "GUEST" | "PROVIDER" | "ADMIN";
   email?: string;
+  sessionId?: string;
+  mfa?: boolean;
 };
 
 type AuthedRequest = Request & {
@@ -23,7 +58,8 @@ const registerGuestSchema = z.object({
   displayName: z.string().min(1).max(80),
 });
 
-// media string validation (URL or base64)
+// Media: a URL from POST /api/v1/media, or a base64 data URI (legacy; moved
+// into storage before anything is saved)
 const mediaString = z
   .string()
   .min(5)
@@ -35,6 +71,17 @@ const mediaString = z
     "Media must be a URL or a data URI (base64)",
   );
 
+// Identity documents: a "private:<id>" reference from
+// POST /api/v1/media/private, or a base64 data URI (legacy). Public URLs
+// aren't accepted, since the file has to stay private.
+const privateMediaString = z
+  .string()
+  .min(5)
+  .refine(
+    (v) => v.startsWith("private:") || v.startsWith("data:"),
+    "Upload the selfie with POST /api/v1/media/private and send its ref",
+  );
+
 const registerProviderSchema = z.object({
   // Account Basics
   email: z.string().email(),
@@ -79,7 +126,7 @@ const registerProviderSchema = z.object({
     .min(3, "Gallery must have at least 3 images"),
 
   // Identity Verification
-  verificationSelfie: mediaString, // mandatory
+  verificationSelfie: privateMediaString, // mandatory
 });
 
 const loginSchema = z.object({
@@ -87,6 +134,21 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(20),
+});
+
+const sessionIdSchema = z.string().uuid();
+
+const resendOtpSchema = z.object({
+  email: z.string().email(),
+});
+
+const verifyOtpSchema = z.object({
+  email: z.string().email(),
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
 const forgotPasswordSchema = z.object({
   email: z.string().email(),
 });
@@ -101,10 +163,30 @@ const changePasswordSchema = z.object({
   newPassword: z.string().min(6),
 });
 
+const changeEmailSchema = z.object({
+  currentPassword: z.string().min(1),
+  newEmail: z.string().email(),
+});
+
+const emailChangeTokenSchema = z.object({
+  token: z.string().min(10),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1),
+});
+
 /** -----------------------
  * Helpers
  * ---------------------- */
 
+// Compared against when the email is unknown so that the response takes as long
+// as a real password check and doesn't reveal whether the account exists.
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString("hex"), 10);
+
+// How long after confirmation the old address can still undo an email change
+const EMAIL_CHANGE_UNDO_DAYS = Number(process.env.EMAIL_CHANGE_UNDO_DAYS || 7);
+
 function normalizeEmail(email: string) {
   return email.trim().toLowerCase();
 }
@@ -120,6 +202,16 @@ function calcAge(dobString: string) {
   return age;
 }
 
+// Registration must not fail because the verification email could not be sent:
+// the user can always request a new code.
+async function sendInitialOtp(email: string, role: string) {
+  try {
+    await issueOtp(email, otpTypeForRole(role));
+  } catch (e) {
+    console.error("Failed to send verification code", e);
+  }
+}
+
 /** -----------------------
  * Controllers
  * ---------------------- */
@@ -141,14 +233,15 @@ export async function registerGuest(req: Request, res: Response) {
     const result = await pool.query(
       `INSERT INTO users (email, password_hash, role, display_name)
        VALUES ($1, $2, 'GUEST', $3)
-       RETURNING id, email, role, display_name`,
+       RETURNING id, email, role, display_name, email_verified_at`,
       [emailNorm, passwordHash, displayName],
     );
 
     const user = result.rows[0];
-    const accessToken = signAccessToken({ sub: user.id, role: user.role });
+    const { accessToken, refreshToken } = await createSession(req, user);
+    await sendInitialOtp(user.email, user.role);
 
-    return res.status(201).json({ user, accessToken });
+    return res.status(201).json({ user, accessToken, refreshToken });
   } catch (e: any) {
     if (e?.code === "23505")
       return res.status(409).json({ message: "Email already in use" });
@@ -161,7 +254,8 @@ export async function registerGuest(req: Request, res: Response) {
  * Creates:
  * - users row (role PROVIDER)
  * - provider_profiles row (PENDING) with services/rates/stats
- * - provider_media rows for cover/avatar/gallery + verification selfie
+ * - provider_media rows for cover/avatar/gallery
+ * - provider_identity, with the verification selfie in private_media
  */
 export async function registerProvider(req: Request, res: Response) {
   const parsed = registerProviderSchema.safeParse(req.body);
@@ -183,13 +277,46 @@ export async function registerProvider(req: Request, res: Response) {
       .status(400)
       .json({ message: "You must be 18+ to register as a provider" });
 
+  // Cover + avatar + gallery, before any plan is bought
+  if (data.galleryImages.length + 2 > DEFAULT_MEDIA_LIMIT)
+    return res.status(400).json({
+      message: `At most ${DEFAULT_MEDIA_LIMIT - 2} gallery photos and videos until you subscribe`,
+    });
+
   const emailNorm = normalizeEmail(data.email);
+
+  const referrerId = data.referralCode ? await findReferrer(data.referralCode) : null;
+  if (data.referralCode && !referrerId)
+    return res.status(400).json({ message: "Invalid referral code" });
+
+  // Move any data URIs into storage first; content-addressed, so a failed
+  // registration retried later reuses the same objects
+  const imageOnly = { allow: ["IMAGE" as const] };
+  const imageOrVideo = { allow: ["IMAGE" as const, "VIDEO" as const] };
+  let media;
+  try {
+    media = {
+      cover: await resolveMediaInput(data.coverImage, imageOnly),
+      avatar: await resolveMediaInput(data.profileImage, imageOnly),
+      gallery: [] as Awaited<ReturnType<typeof resolveMediaInput>>[],
+      selfieId: await resolvePrivateMediaInput(data.verificationSelfie, {
+        kind: "VERIFICATION_SELFIE",
+      }),
+    };
+    for (const item of data.galleryImages) {
+      media.gallery.push(await resolveMediaInput(item, imageOrVideo));
+    }
+  } catch (e) {
+    if (e instanceof MediaRejectedError)
+      return res.status(e.status).json({ message: e.message });
+    throw e;
+  }
+
   const passwordHash = await bcrypt.hash(data.password, 10);
 
-  // Store hidden + personal + physical fields in stats JSONB
+  // Public personal + physical fields go in stats JSONB; identity data
+  // (real name, DOB, referral code, selfie) goes in provider_identity
   const stats = {
-    realName: data.realName,
-    dob: data.dob,
     age,
     gender: data.gender,
     ethnicity: data.ethnicity,
@@ -201,8 +328,6 @@ export async function registerProvider(req: Request, res: Response) {
     eyeColor: data.eyeColor,
     whatsappNumber: data.whatsappNumber,
     callNumber: data.callNumber,
-    referralCode: data.referralCode ?? null,
-    verificationSelfie: data.verificationSelfie,
     bio: data.bio,
   };
 
@@ -213,7 +338,7 @@ export async function registerProvider(req: Request, res: Response) {
     const userResult = await client.query(
       `INSERT INTO users (email, password_hash, role, display_name, call_number, whatsapp_number)
    VALUES ($1, $2, 'PROVIDER', $3, $4, $5)
-   RETURNING id, email, role, display_name, call_number, whatsapp_number`,
+   RETURNING id, email, role, display_name, call_number, whatsapp_number, email_verified_at`,
       [
         emailNorm,
         passwordHash,
@@ -228,10 +353,10 @@ export async function registerProvider(req: Request, res: Response) {
     // 2) Create provider profile (PENDING)
     const providerResult = await client.query(
       `INSERT INTO provider_profiles
-        (user_id, display_name, state, city, services, rates, stats, verification_status, bio)
+        (user_id, display_name, state, city, services, rates, stats, verification_status, bio, referral_code)
        VALUES
-        ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, 'PENDING', $8)
-       RETURNING id, verification_status, is_suspended, subscription_expires_at`,
+        ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, 'PENDING', $8, $9)
+       RETURNING id, verification_status, is_suspended, subscription_expires_at, referral_code`,
       [
         user.id,
         data.displayName,
@@ -241,46 +366,65 @@ export async function registerProvider(req: Request, res: Response) {
         JSON.stringify(data.rates),
         JSON.stringify(stats),
         data.bio,
+        generateReferralCode(),
       ],
     );
     const providerProfile = providerResult.rows[0];
 
     // 3) Media inserts
     // Cover (mandatory)
-    await client.query(
-      `INSERT INTO provider_media (provider_id, url, type, is_cover, is_avatar)
-       VALUES ($1, $2, 'IMAGE', true, false)`,
-      [providerProfile.id, data.coverImage],
-    );
+    await insertProviderMedia(client, providerProfile.id, media.cover, { isCover: true });
 
     // Profile (avatar)
-    await client.query(
-      `INSERT INTO provider_media (provider_id, url, type, is_cover, is_avatar)
-       VALUES ($1, $2, 'IMAGE', false, true)`,
-      [providerProfile.id, data.profileImage],
-    );
+    await insertProviderMedia(client, providerProfile.id, media.avatar, { isAvatar: true });
 
     // Gallery (min 3)
-    for (const url of data.galleryImages) {
-      await client.query(
-        `INSERT INTO provider_media (provider_id, url, type, is_cover, is_avatar)
-         VALUES ($1, $2, 'IMAGE', false, false)`,
-        [providerProfile.id, url],
-      );
+    for (const item of media.gallery) {
+      await insertProviderMedia(client, providerProfile.id, item);
+    }
+
+    // 4) Private identity (admin-only); the selfie stays in private storage
+    const claimed = await claimPrivateMedia(client, media.selfieId, {
+      kind: "VERIFICATION_SELFIE",
+      providerId: providerProfile.id,
+    });
+    if (!claimed) {
+      await client.query("ROLLBACK");
+      return res
+        .status(400)
+        .json({ message: "Verification selfie not found or already used" });
     }
 
-    // Verification selfie (store as media row too)
     await client.query(
-      `INSERT INTO provider_media (provider_id, url, type, is_cover, is_avatar)
-       VALUES ($1, $2, 'IMAGE', false, false)`,
-      [providerProfile.id, data.verificationSelfie],
+      `INSERT INTO provider_identity
+        (provider_id, real_name, dob, referral_code, verification_selfie_private_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        providerProfile.id,
+        data.realName,
+        data.dob,
+        data.referralCode ?? null,
+        media.selfieId,
+      ],
     );
 
+    // 5) Referral attribution; rewarded when this provider first pays
+    if (referrerId) {
+      await client.query(
+        `INSERT INTO referrals (referrer_provider_id, referred_provider_id)
+         VALUES ($1, $2)`,
+        [referrerId, providerProfile.id],
+      );
+    }
+
     await client.query("COMMIT");
 
-    const accessToken = signAccessToken({ sub: user.id, role: user.role });
+    const { accessToken, refreshToken } = await createSession(req, user);
+    await sendInitialOtp(user.email, user.role);
 
-    return res.status(201).json({ user, providerProfile, accessToken });
+    return res
+      .status(201)
+      .json({ user, providerProfile, accessToken, refreshToken });
   } catch (e: any) {
     await client.query("ROLLBACK");
     if (e?.code === "23505")
@@ -303,7 +447,7 @@ export async function login(req: Request, res: Response) {
   const emailNorm = normalizeEmail(email);
 
   const result = await pool.query(
-    `SELECT id, email, role, display_name, password_hash
+    `SELECT id, email, role, display_name, password_hash, totp_enabled_at, disabled_at
      FROM users
      WHERE email = $1
      LIMIT 1`,
@@ -311,12 +455,41 @@ export async function login(req: Request, res: Response) {
   );
 
   const row = result.rows[0];
-  if (!row) return res.status(401).json({ message: "Invalid credentials" });
 
-  const ok = await bcrypt.compare(password, row.password_hash);
-  if (!ok) return res.status(401).json({ message: "Invalid credentials" });
+  // Same work whether or not the account exists: always one bcrypt
+  // compare, and throttling is per email, so unknown addresses get the
+  // same 429s as registered ones
+  const ok = await bcrypt.compare(password, row?.password_hash ?? DUMMY_PASSWORD_HASH);
+
+  const gate = await registerLoginAttempt(emailNorm);
+  if (!gate.ok) {
+    res.setHeader("Retry-After", String(gate.retryAfterSeconds));
+    return res.status(429).json({
+      message: "Too many failed login attempts. Try again later.",
+      retryAfterSeconds: gate.retryAfterSeconds,
+    });
+  }
+
+  if (!row || !ok) {
+    if (row && gate.lockedUntil) notifyAccountLocked(row.email, gate.lockedUntil);
+    return res.status(401).json({ message: "Invalid credentials" });
+  }
+
+  await clearFailedLogins(emailNorm);
+
+  // Only revealed to someone who knows the password
+  if (row.disabled_at)
+    return res.status(403).json({ message: "Account disabled" });
+
+  // Second step happens at /2fa/verify-login
+  if (row.totp_enabled_at) {
+    return res.json({
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(row.id),
+    });
+  }
 
-  const accessToken = signAccessToken({ sub: row.id, role: row.role });
+  const { accessToken, refreshToken } = await createSession(req, row);
 
   return res.json({
     user: {
@@ -326,6 +499,7 @@ export async function login(req: Request, res: Response) {
       display_name: row.display_name,
     },
     accessToken,
+    refreshToken,
   });
 }
 
@@ -335,7 +509,8 @@ export async function me(req: AuthedRequest, res: Response) {
   const userId = req.auth.id;
 
   const userRes = await pool.query(
-    `SELECT id, email, role, display_name, call_number, whatsapp_number, created_at
+    `SELECT id, email, role, display_name, call_number, whatsapp_number,
+            email_verified_at, deletion_scheduled_for, created_at
      FROM users
      WHERE id = $1`,
     [userId],
@@ -370,19 +545,207 @@ export async function me(req: AuthedRequest, res: Response) {
     }
   }
 
-  return res.json({ user, providerProfile, media });
+  // Lets the admin dashboard hide actions the user isn't allowed to take
+  const permissions = user.role === "ADMIN" ? await getUserPermissions(userId) : undefined;
+
+  return res.json({ user, providerProfile, media, permissions });
+}
+
+/**
+ * POST /api/v1/auth/refresh
+ * Rotates the refresh token: the presented token is spent and a new pair is returned.
+ */
+export async function refresh(req: Request, res: Response) {
+  const parsed = refreshSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const result = await rotateRefreshToken(req, parsed.data.refreshToken);
+
+  if (!result.ok) {
+    if (result.reason === "REUSED") {
+      return res
+        .status(401)
+        .json({ message: "Refresh token reuse detected. Session revoked." });
+    }
+    return res.status(401).json({ message: "Invalid or expired refresh token" });
+  }
+
+  return res.json(result.tokens);
 }
 
-export async function logout(_req: Request, res: Response) {
-  // Stateless JWT: client should delete token.
+export async function logout(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  // Tokens issued before sessions existed carry no sid: nothing to revoke.
+  if (req.auth.sessionId) {
+    await revokeSession(req.auth.sessionId, req.auth.id, "LOGOUT");
+  }
+
   return res.json({ ok: true, message: "Logged out" });
 }
 
+/**
+ * GET /api/v1/auth/sessions
+ * Devices the user is currently signed in on.
+ */
+export async function listSessions(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const rows = await listActiveSessions(req.auth.id);
+
+  return res.json({
+    count: rows.length,
+    items: rows.map((r) => ({
+      id: r.id,
+      userAgent: r.user_agent,
+      ip: r.ip,
+      createdAt: r.created_at,
+      lastSeenAt: r.last_seen_at,
+      expiresAt: r.expires_at,
+      current: r.id === req.auth!.sessionId,
+    })),
+  });
+}
+
+/**
+ * DELETE /api/v1/auth/sessions/:sessionId
+ * Signs out a single device.
+ */
+export async function deleteSession(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = sessionIdSchema.safeParse(req.params.sessionId);
+  if (!parsed.success)
+    return res.status(400).json({ message: "Invalid sessionId" });
+
+  const revoked = await revokeSession(parsed.data, req.auth.id, "USER_REVOKED");
+  if (!revoked) return res.status(404).json({ message: "Session not found" });
+
+  return res.json({ ok: true });
+}
+
+/**
+ * DELETE /api/v1/auth/sessions
+ * Sign out everywhere, including the current device.
+ */
+export async function deleteAllSessions(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const revokedCount = await revokeAllSessions(req.auth.id, "USER_REVOKED_ALL");
+
+  return res.json({ ok: true, revokedCount });
+}
+
+/**
+ * POST /api/v1/auth/otp/send
+ * Sends a verification code to the authenticated user's email.
+ */
+export async function sendOtp(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const uRes = await pool.query(
+    `SELECT email, role, email_verified_at FROM users WHERE id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  if (user.email_verified_at)
+    return res.status(400).json({ message: "Email already verified" });
+
+  const result = await issueOtp(user.email, otpTypeForRole(user.role));
+  if (!result.ok) {
+    return res.status(429).json({
+      message: "Please wait before requesting another code",
+      retryAfterSeconds: result.retryAfterSeconds,
+    });
+  }
+
+  return res.json({ ok: true });
+}
+
+/**
+ * POST /api/v1/auth/otp/resend
+ * Public variant keyed by email (e.g. after the session expired).
+ * Always returns 200 so it can't be used to probe which emails exist.
+ */
+export async function resendOtp(req: Request, res: Response) {
+  const parsed = resendOtpSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const emailNorm = normalizeEmail(parsed.data.email);
+
+  const uRes = await pool.query(
+    `SELECT email, role, email_verified_at FROM users WHERE email = $1 LIMIT 1`,
+    [emailNorm],
+  );
+  const user = uRes.rows[0];
+
+  if (user && !user.email_verified_at) {
+    await issueOtp(user.email, otpTypeForRole(user.role));
+  }
+
+  return res.json({ ok: true });
+}
+
+/**
+ * POST /api/v1/auth/otp/verify
+ */
+export async function verifyEmailOtp(req: Request, res: Response) {
+  const parsed = verifyOtpSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const emailNorm = normalizeEmail(parsed.data.email);
+  const result = await verifyOtp(emailNorm, parsed.data.code);
+
+  if (!result.ok) {
+    switch (result.reason) {
+      case "MISMATCH":
+        return res.status(400).json({
+          message: "Incorrect code",
+          attemptsRemaining: result.attemptsRemaining,
+        });
+      case "TOO_MANY_ATTEMPTS":
+        return res
+          .status(400)
+          .json({ message: "Too many attempts. Request a new code." });
+      default:
+        return res.status(400).json({ message: "Invalid or expired code" });
+    }
+  }
+
+  return res.json({ ok: true, message: "Email verified" });
+}
+
+async function createPasswordResetLink(db: Pool | PoolClient, userId: string) {
+  const rawToken = crypto.randomBytes(32).toString("hex");
+  const tokenHash = crypto.createHash("sha256").update(rawToken).digest("hex");
+  const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
+
+  await db.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, $3)`,
+    [userId, tokenHash, expiresAt],
+  );
+
+  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
+  return `${frontendUrl}/?action=reset-password&token=${rawToken}`;
+}
+
 /**
  * Forgot password flow:
  * - Always return 200 (don’t leak whether email exists)
  * - Create a reset token, store HASH in DB (never store raw token)
- * - MVP: return token in response (remove later and send email)
+ * - The raw token only ever leaves in the reset email
  */
 export async function forgotPassword(req: Request, res: Response) {
   const parsed = forgotPasswordSchema.safeParse(req.body);
@@ -403,18 +766,7 @@ export async function forgotPassword(req: Request, res: Response) {
   // Always return ok (avoid email enumeration)
   if (!user) return res.json({ ok: true });
 
-  const rawToken = crypto.randomBytes(32).toString("hex");
-  const tokenHash = crypto.createHash("sha256").update(rawToken).digest("hex");
-  const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
-
-  await pool.query(
-    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
-     VALUES ($1, $2, $3)`,
-    [user.id, tokenHash, expiresAt],
-  );
-
-  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
-  const resetLink = `${frontendUrl}/?action=reset-password&token=${rawToken}`;
+  const resetLink = await createPasswordResetLink(pool, user.id);
 
   await sendPasswordResetEmail({
     to: user.email,
@@ -476,6 +828,9 @@ export async function resetPassword(req: Request, res: Response) {
       [row.id],
     );
 
+    // Whoever knew the old password may still hold a session
+    await revokeAllSessions(row.user_id, "PASSWORD_RESET", { db: client });
+
     await client.query("COMMIT");
     return res.json({ ok: true });
   } catch (e) {
@@ -517,5 +872,373 @@ export async function changePassword(req: AuthedRequest, res: Response) {
     [newHash, userId],
   );
 
+  // Keep the device that made the change signed in
+  const revokedSessions = await revokeAllSessions(userId, "PASSWORD_CHANGED", {
+    exceptSessionId: req.auth.sessionId,
+  });
+
+  return res.json({ ok: true, revokedSessions });
+}
+
+/**
+ * GET /api/v1/auth/me/export
+ * Downloads everything stored about the current user as a JSON file.
+ */
+export async function exportMyData(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const data = await buildUserExport(req.auth.id);
+  if (!data.user) return res.status(404).json({ message: "User not found" });
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="verbose-export-${date}.json"`,
+  );
+  return res.json(data);
+}
+
+/**
+ * DELETE /api/v1/auth/me
+ * Schedules the account for deletion after a grace period. The profile is hidden
+ * and every session signed out right away; logging back in and calling
+ * POST /auth/me/restore within the grace period cancels it.
+ */
+export async function requestAccountDeletion(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = deleteAccountSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const userId = req.auth.id;
+
+  const uRes = await pool.query(
+    `SELECT password_hash, role FROM users WHERE id = $1 LIMIT 1`,
+    [userId],
+  );
+  const row = uRes.rows[0];
+  if (!row) return res.status(404).json({ message: "User not found" });
+
+  if (row.role === "ADMIN")
+    return res
+      .status(403)
+      .json({ message: "Admin accounts must be removed by another admin" });
+
+  const ok = await bcrypt.compare(parsed.data.password, row.password_hash);
+  if (!ok) return res.status(401).json({ message: "Password is incorrect" });
+
+  const scheduledFor = new Date(
+    Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    await client.query(
+      `UPDATE users
+       SET deletion_requested_at = now(), deletion_scheduled_for = $2, updated_at = now()
+       WHERE id = $1`,
+      [userId, scheduledFor],
+    );
+
+    await client.query(
+      `UPDATE provider_profiles
+       SET is_suspended = true, suspension_reason = $2, updated_at = now()
+       WHERE user_id = $1 AND is_suspended = false`,
+      [userId, DELETION_SUSPENSION_REASON],
+    );
+
+    await revokeAllSessions(userId, "ACCOUNT_DELETION", { db: client });
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+
+  return res.json({ ok: true, deletionScheduledFor: scheduledFor });
+}
+
+/**
+ * POST /api/v1/auth/me/restore
+ * Cancels a pending deletion.
+ */
+export async function cancelAccountDeletion(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const userId = req.auth.id;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const uRes = await client.query(
+      `UPDATE users
+       SET deletion_requested_at = NULL, deletion_scheduled_for = NULL, updated_at = now()
+       WHERE id = $1 AND deletion_scheduled_for IS NOT NULL AND deleted_at IS NULL
+       RETURNING id`,
+      [userId],
+    );
+
+    if (!uRes.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ message: "No pending deletion" });
+    }
+
+    await client.query(
+      `UPDATE provider_profiles
+       SET is_suspended = false, suspension_reason = NULL, updated_at = now()
+       WHERE user_id = $1 AND suspension_reason = $2`,
+      [userId, DELETION_SUSPENSION_REASON],
+    );
+
+    await client.query("COMMIT");
+    return res.json({ ok: true });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/auth/change-email
+ * Sends a confirmation link to the new address and a cancel link to the
+ * current one. users.email is untouched until the new address confirms.
+ */
+export async function changeEmail(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = changeEmailSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const userId = req.auth.id;
+  const newEmail = normalizeEmail(parsed.data.newEmail);
+
+  const uRes = await pool.query(
+    `SELECT email, password_hash FROM users WHERE id = $1 LIMIT 1`,
+    [userId],
+  );
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  const ok = await bcrypt.compare(parsed.data.currentPassword, user.password_hash);
+  if (!ok)
+    return res.status(401).json({ message: "Current password is incorrect" });
+
+  if (newEmail === user.email)
+    return res
+      .status(400)
+      .json({ message: "New email is the same as the current one" });
+
+  const takenRes = await pool.query(
+    `SELECT 1 FROM users WHERE email = $1 LIMIT 1`,
+    [newEmail],
+  );
+  if (takenRes.rows[0])
+    return res.status(409).json({ message: "Email already in use" });
+
+  const confirmToken = crypto.randomBytes(32).toString("hex");
+  const cancelToken = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // Only the latest request can be confirmed
+    await client.query(
+      `UPDATE email_change_requests SET cancelled_at = now()
+       WHERE user_id = $1 AND confirmed_at IS NULL AND cancelled_at IS NULL`,
+      [userId],
+    );
+
+    await client.query(
+      `INSERT INTO email_change_requests
+        (user_id, new_email, confirm_token_hash, cancel_token_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [userId, newEmail, hashToken(confirmToken), hashToken(cancelToken), expiresAt],
+    );
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
+
+  await sendEmailChangeEmails({
+    oldEmail: user.email,
+    newEmail,
+    confirmLink: `${frontendUrl}/?action=confirm-email-change&token=${confirmToken}`,
+    cancelLink: `${frontendUrl}/?action=cancel-email-change&token=${cancelToken}`,
+  });
+
   return res.json({ ok: true });
 }
+
+/**
+ * POST /api/v1/auth/change-email/confirm
+ * Clicked from the new address: swaps users.email.
+ */
+export async function confirmEmailChange(req: Request, res: Response) {
+  const parsed = emailChangeTokenSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const rRes = await client.query(
+      `SELECT r.id, r.user_id, r.new_email, r.expires_at, r.confirmed_at, r.cancelled_at,
+              u.email AS current_email
+       FROM email_change_requests r
+       JOIN users u ON u.id = r.user_id
+       WHERE r.confirm_token_hash = $1
+       LIMIT 1
+       FOR UPDATE`,
+      [hashToken(parsed.data.token)],
+    );
+
+    const row = rRes.rows[0];
+    if (
+      !row ||
+      row.confirmed_at ||
+      row.cancelled_at ||
+      new Date(row.expires_at).getTime() < Date.now()
+    ) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ message: "Invalid or expired token" });
+    }
+
+    // Following the link proves ownership of the new address
+    await client.query(
+      `UPDATE users
+       SET email = $1, email_verified_at = now(), updated_at = now()
+       WHERE id = $2`,
+      [row.new_email, row.user_id],
+    );
+
+    await client.query(
+      `UPDATE email_change_requests
+       SET confirmed_at = now(), previous_email = $2
+       WHERE id = $1`,
+      [row.id, row.current_email],
+    );
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, email: row.new_email });
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    // Someone registered the address between request and confirmation
+    if (e?.code === "23505")
+      return res.status(409).json({ message: "Email already in use" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/auth/change-email/cancel
+ * Clicked from the old address. Treated as a possible account takeover:
+ * every session is signed out. If the new address already confirmed (within
+ * EMAIL_CHANGE_UNDO_DAYS), the old email is restored and the password is
+ * replaced, so the account can only be recovered through a reset link sent
+ * to the old address.
+ */
+export async function cancelEmailChange(req: Request, res: Response) {
+  const parsed = emailChangeTokenSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  let resetEmail: { to: string; resetLink: string } | null = null;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const rRes = await client.query(
+      `SELECT r.id, r.user_id, r.new_email, r.previous_email, r.confirmed_at,
+              u.email AS current_email
+       FROM email_change_requests r
+       JOIN users u ON u.id = r.user_id
+       WHERE r.cancel_token_hash = $1
+         AND r.cancelled_at IS NULL
+         AND (r.confirmed_at IS NULL
+              OR r.confirmed_at > now() - make_interval(days => $2))
+       LIMIT 1
+       FOR UPDATE OF r, u`,
+      [hashToken(parsed.data.token), EMAIL_CHANGE_UNDO_DAYS],
+    );
+
+    const row = rRes.rows[0];
+    // A later change has moved the account on; this link no longer applies
+    if (!row || (row.confirmed_at && row.current_email !== row.new_email)) {
+      await client.query("ROLLBACK");
+      return res
+        .status(400)
+        .json({ message: "Invalid token or change can no longer be undone" });
+    }
+
+    await client.query(
+      `UPDATE email_change_requests SET cancelled_at = now() WHERE id = $1`,
+      [row.id],
+    );
+
+    if (row.confirmed_at) {
+      // Whoever made the change may know the password; nobody knows this one
+      const lockedHash = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+      await client.query(
+        `UPDATE users
+         SET email = $1, password_hash = $2, updated_at = now()
+         WHERE id = $3`,
+        [row.previous_email, lockedHash, row.user_id],
+      );
+
+      resetEmail = {
+        to: row.previous_email,
+        resetLink: await createPasswordResetLink(client, row.user_id),
+      };
+    }
+
+    await revokeAllSessions(row.user_id, "EMAIL_CHANGE_CANCELLED", { db: client });
+
+    await client.query("COMMIT");
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    // The old address was taken by another account in the meantime
+    if (e?.code === "23505")
+      return res.status(409).json({ message: "Email already in use" });
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+
+  if (resetEmail) await sendPasswordResetEmail(resetEmail);
+
+  return res.json({ ok: true, reverted: resetEmail !== null });
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import { MediaRejectedError, resolveMediaUrls } from "../utils/storage";
 
 type AuthUser = {
   id: string;
@@ -159,6 +160,18 @@ export async function createBlacklist(req: AuthedRequest, res: Response) {
   if (!provider)
     return res.status(403).json({ message: "Provider profile not found" });
 
+  let storedEvidenceUrls: string[];
+  try {
+    storedEvidenceUrls = await resolveMediaUrls(evidenceUrls ?? [], {
+      allow: ["IMAGE"],
+      uploadedBy: req.auth.id,
+    });
+  } catch (e) {
+    if (e instanceof MediaRejectedError)
+      return res.status(e.status).json({ message: e.message });
+    throw e;
+  }
+
   const result = await pool.query(
     `
     INSERT INTO blacklist_entries (submitted_by_provider_id, phone, name, notes, evidence_urls)
@@ -170,7 +183,7 @@ export async function createBlacklist(req: AuthedRequest, res: Response) {
       phone ?? null,
       name ?? null,
       notes ?? null,
-      evidenceUrls ?? [],
+      storedEvidenceUrls,
     ],
   );
 
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import { providerSummaryColumns, toProviderSummary } from "../utils/publicProvider";
 
 type AuthUser = {
   id: string;
@@ -169,10 +170,7 @@ export async function listChats(req: AuthedRequest, res: Response) {
       u.display_name AS other_user_name,
       u.role AS other_user_role,
 
-      pp.display_name AS provider_display_name,
-      (SELECT url FROM provider_media m
-        WHERE m.provider_id = pp.id AND m.is_avatar = true
-        ORDER BY m.created_at DESC LIMIT 1) AS provider_avatar,
+      ${providerSummaryColumns("pp")},
 
       lm.content AS last_message,
       lm.created_at AS last_message_created_at,
@@ -220,7 +218,8 @@ export async function listChats(req: AuthedRequest, res: Response) {
         id: x.other_user_id,
         name: x.provider_display_name ?? x.other_user_name,
         role: x.other_user_role,
-        avatarUrl: x.provider_avatar ?? null,
+        avatarUrl: x.provider_avatar_url ?? null,
+        provider: toProviderSummary(x),
       },
       lastMessage: x.last_message ?? null,
       lastMessageCreatedAt: x.last_message_created_at ?? null,
@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import { publicProviderColumns, toPublicProvider } from "../utils/publicProvider";
+import { visibleOn } from "../utils/visibility";
 
 type AuthUser = {
   id: string;
@@ -68,27 +70,12 @@ export async function listFavorites(req: AuthedRequest, res: Response) {
   const r = await pool.query(
     `
     SELECT
-      p.id AS provider_id,
-      p.display_name,
-      p.state,
-      p.city,
-      p.verification_status,
-      p.subscription_expires_at,
-      p.created_at,
-
-      (SELECT url FROM provider_media m
-        WHERE m.provider_id = p.id AND m.is_cover = true
-        ORDER BY m.created_at DESC
-        LIMIT 1) AS cover_url,
-
-      (SELECT url FROM provider_media m
-        WHERE m.provider_id = p.id AND m.is_avatar = true
-        ORDER BY m.created_at DESC
-        LIMIT 1) AS avatar_url
-
+      ${publicProviderColumns("p")},
+      f.created_at AS favorited_at
     FROM favorites f
     JOIN provider_profiles p ON p.id = f.provider_id
     WHERE f.user_id = $1
+      AND ${visibleOn("favorites", "p")}
     ORDER BY f.created_at DESC
     `,
     [userId],
@@ -96,16 +83,20 @@ export async function listFavorites(req: AuthedRequest, res: Response) {
 
   return res.json({
     count: r.rows.length,
-    items: r.rows.map((x) => ({
-      providerId: x.provider_id,
-      displayName: x.display_name,
-      state: x.state,
-      city: x.city,
-      verificationStatus: x.verification_status,
-      subscriptionExpiresAt: x.subscription_expires_at,
-      coverUrl: x.cover_url,
-      avatarUrl: x.avatar_url,
-      createdAt: x.created_at,
-    })),
+    items: r.rows.map((x) => {
+      // Same fields as before the public projection, minus the private ones
+      const p = toPublicProvider(x);
+      return {
+        providerId: p.id,
+        displayName: p.displayName,
+        state: p.state,
+        city: p.city,
+        verificationStatus: p.verificationStatus,
+        coverUrl: p.coverUrl,
+        avatarUrl: p.avatarUrl,
+        createdAt: p.createdAt,
+        favoritedAt: x.favorited_at,
+      };
+    }),
   });
 }
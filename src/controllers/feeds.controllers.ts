@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import { providerSummaryColumns } from "../utils/publicProvider";
+import { visibleOn } from "../utils/visibility";
+import { MediaRejectedError, resolveMediaUrls } from "../utils/storage";
 
 type AuthUser = {
   id: string;
@@ -14,6 +17,15 @@ function toInt(v: unknown, fallback: number) {
   return Number.isFinite(n) ? Math.floor(n) : fallback;
 }
 
+// Feed clients read provider.name, so the summary columns keep this shape
+function feedAuthor(row: any) {
+  return {
+    id: row.provider_id,
+    name: row.provider_display_name,
+    avatarUrl: row.provider_avatar_url ?? null,
+  };
+}
+
 const createPostSchema = z.object({
   content: z.string().min(1).max(2000),
   mediaUrls: z.array(z.string().min(5)).optional(),
@@ -34,7 +46,7 @@ async function getProviderIdByUserId(userId: string) {
 
 /**
  * GET /api/v1/feeds?page=1&limit=20
- * Public chronological feed
+ * Public chronological feed (posts from visible providers only)
  */
 export async function listFeed(req: Request, res: Response) {
   const page = Math.max(1, toInt(req.query.page, 1));
@@ -44,22 +56,18 @@ export async function listFeed(req: Request, res: Response) {
   const q = `
     SELECT
       p.id,
-      p.provider_id,
       p.content,
       p.media_urls,
       p.created_at,
 
-      pr.display_name as provider_name,
-
-      (SELECT url FROM provider_media m
-        WHERE m.provider_id = pr.id AND m.is_avatar = true
-        ORDER BY m.created_at DESC LIMIT 1) AS provider_avatar,
+      ${providerSummaryColumns("pr")},
 
       (SELECT COUNT(*)::int FROM feed_likes l WHERE l.post_id = p.id) AS like_count,
       (SELECT COUNT(*)::int FROM feed_comments c WHERE c.post_id = p.id) AS comment_count
 
     FROM feed_posts p
     JOIN provider_profiles pr ON pr.id = p.provider_id
+    WHERE ${visibleOn("feed", "pr")}
     ORDER BY p.created_at DESC
     LIMIT $1 OFFSET $2
   `;
@@ -75,11 +83,7 @@ export async function listFeed(req: Request, res: Response) {
       content: row.content,
       mediaUrls: row.media_urls,
       createdAt: row.created_at,
-      provider: {
-        id: row.provider_id,
-        name: row.provider_name,
-        avatarUrl: row.provider_avatar,
-      },
+      provider: feedAuthor(row),
       likeCount: row.like_count,
       commentCount: row.comment_count,
     })),
@@ -105,7 +109,18 @@ export async function createFeedPost(req: AuthedRequest, res: Response) {
   if (!providerId)
     return res.status(403).json({ message: "Provider profile not found" });
 
-  const { content, mediaUrls } = parsed.data;
+  const { content } = parsed.data;
+
+  let mediaUrls: string[];
+  try {
+    mediaUrls = await resolveMediaUrls(parsed.data.mediaUrls ?? [], {
+      uploadedBy: req.auth.id,
+    });
+  } catch (e) {
+    if (e instanceof MediaRejectedError)
+      return res.status(e.status).json({ message: e.message });
+    throw e;
+  }
 
   const r = await pool.query(
     `
@@ -113,7 +128,7 @@ export async function createFeedPost(req: AuthedRequest, res: Response) {
     VALUES ($1, $2, $3)
     RETURNING id, provider_id, content, media_urls, created_at
     `,
-    [providerId, content, mediaUrls ?? []],
+    [providerId, content, mediaUrls],
   );
 
   return res.status(201).json({
@@ -136,21 +151,18 @@ export async function getFeedPost(req: Request, res: Response) {
     `
     SELECT
       p.id,
-      p.provider_id,
       p.content,
       p.media_urls,
       p.created_at,
 
-      pr.display_name as provider_name,
-      (SELECT url FROM provider_media m
-        WHERE m.provider_id = pr.id AND m.is_avatar = true
-        ORDER BY m.created_at DESC LIMIT 1) AS provider_avatar,
+      ${providerSummaryColumns("pr")},
 
       (SELECT COUNT(*)::int FROM feed_likes l WHERE l.post_id = p.id) AS like_count,
       (SELECT COUNT(*)::int FROM feed_comments c WHERE c.post_id = p.id) AS comment_count
     FROM feed_posts p
     JOIN provider_profiles pr ON pr.id = p.provider_id
     WHERE p.id = $1
+      AND ${visibleOn("feed", "pr")}
     LIMIT 1
     `,
     [postId],
@@ -164,11 +176,7 @@ export async function getFeedPost(req: Request, res: Response) {
     content: row.content,
     mediaUrls: row.media_urls,
     createdAt: row.created_at,
-    provider: {
-      id: row.provider_id,
-      name: row.provider_name,
-      avatarUrl: row.provider_avatar,
-    },
+    provider: feedAuthor(row),
     likeCount: row.like_count,
     commentCount: row.comment_count,
   });
@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import {
+  getPrivateStorage,
+  LocalDiskStorage,
+  MediaRejectedError,
+  privateMediaRef,
+  sniffMediaType,
+  StorageError,
+  storeMedia,
+  storePrivateMedia,
+} from "../utils/storage";
+
+type AuthUser = {
+  id: string;
+  role: "GUEST" | "PROVIDER" | "ADMIN";
+  email?: string;
+};
+type AuthedRequest = Request & { auth?: AuthUser };
+
+/**
+ * POST /api/v1/media (multipart/form-data, field "file")
+ * Stores the file and returns its URL, to be passed wherever a media URL is
+ * accepted (registration, profile gallery, feed posts). Open to guests so
+ * providers can upload while registering.
+ */
+export async function uploadMedia(req: AuthedRequest, res: Response) {
+  if (!req.file) return res.status(400).json({ message: "file is required" });
+
+  try {
+    const stored = await storeMedia(req.file.buffer, { uploadedBy: req.auth?.id ?? null });
+    return res.status(201).json({
+      url: stored.url,
+      key: stored.storageKey,
+      type: stored.type,
+      mimeType: stored.mimeType,
+      sizeBytes: stored.sizeBytes,
+      sha256: stored.sha256,
+      width: stored.width,
+      height: stored.height,
+      renditions: stored.renditions,
+      durationSeconds: stored.durationSeconds,
+      posterUrl: stored.posterUrl,
+    });
+  } catch (e) {
+    if (e instanceof MediaRejectedError) {
+      return res.status(e.status).json({ message: e.message });
+    }
+    throw e;
+  }
+}
+
+/**
+ * POST /api/v1/media/private (multipart/form-data, field "file")
+ * Verification selfie upload. Returns a reference (not a URL) to send as
+ * verificationSelfie at registration; the file itself is only ever shown to
+ * admins through signed URLs.
+ */
+export async function uploadPrivateMedia(req: AuthedRequest, res: Response) {
+  if (!req.file) return res.status(400).json({ message: "file is required" });
+
+  try {
+    const stored = await storePrivateMedia(req.file.buffer, {
+      kind: "VERIFICATION_SELFIE",
+      uploadedBy: req.auth?.id ?? null,
+    });
+    return res.status(201).json({
+      ref: privateMediaRef(stored.id),
+      kind: stored.kind,
+      mimeType: stored.mime_type,
+      sizeBytes: Number(stored.size_bytes),
+    });
+  } catch (e) {
+    if (e instanceof MediaRejectedError) {
+      return res.status(e.status).json({ message: e.message });
+    }
+    throw e;
+  }
+}
+
+/**
+ * GET /api/v1/media/private/:key?expires=&signature=
+ * Serves a private file to the holder of a signed URL. Only used with the
+ * local driver; on S3 signed URLs point at the bucket directly.
+ */
+export async function getPrivateMedia(req: Request, res: Response) {
+  const storage = getPrivateStorage();
+  if (!(storage instanceof LocalDiskStorage)) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const keyParam = (req.params as Record<string, string | string[]>).key;
+  const key = Array.isArray(keyParam) ? keyParam.join("/") : keyParam;
+  const expires = Number(req.query.expires);
+  const signature = String(req.query.signature ?? "");
+
+  if (!key || !storage.verifySignedUrl(key, expires, signature)) {
+    return res.status(403).json({ message: "Link is invalid or has expired" });
+  }
+
+  let body: Buffer;
+  try {
+    body = await storage.get(key);
+  } catch (e) {
+    if (e instanceof StorageError) return res.status(404).json({ message: "Not found" });
+    throw e;
+  }
+
+  res.setHeader("Content-Type", sniffMediaType(body)?.mimeType ?? "application/octet-stream");
+  res.setHeader("Cache-Control", "private, no-store");
+  res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+  return res.send(body);
+}
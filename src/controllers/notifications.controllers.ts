@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { pool } from "../config/db";
+import { toNotificationDto } from "../utils/notifications";
+
+type AuthUser = {
+  id: string;
+  role: "GUEST" | "PROVIDER" | "ADMIN";
+  email?: string;
+};
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+const listQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/v1/notifications?unread=true&page=1&limit=20
+ */
+export async function listNotifications(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid query", errors: parsed.error.flatten() });
+
+  const { unread, page, limit } = parsed.data;
+  const userId = req.auth.id;
+
+  const r = await pool.query(
+    `
+    SELECT id, type, title, body, data, read_at, created_at
+    FROM notifications
+    WHERE user_id = $1
+      AND ($2::boolean IS NOT TRUE OR read_at IS NULL)
+    ORDER BY created_at DESC
+    LIMIT $3 OFFSET $4
+    `,
+    [userId, unread ?? false, limit, (page - 1) * limit],
+  );
+
+  const countRes = await pool.query(
+    `SELECT COUNT(*)::int AS unread FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+    [userId],
+  );
+
+  return res.json({
+    page,
+    limit,
+    count: r.rows.length,
+    unreadCount: countRes.rows[0].unread,
+    notifications: r.rows.map(toNotificationDto),
+  });
+}
+
+/**
+ * POST /api/v1/notifications/:notificationId/read
+ */
+export async function markNotificationRead(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = uuidParamSchema.safeParse(req.params.notificationId);
+  if (!parsed.success)
+    return res.status(400).json({ message: "Invalid notificationId" });
+
+  const r = await pool.query(
+    `UPDATE notifications
+     SET read_at = COALESCE(read_at, now())
+     WHERE id = $1 AND user_id = $2
+     RETURNING id`,
+    [parsed.data, req.auth.id],
+  );
+  if (!r.rows[0])
+    return res.status(404).json({ message: "Notification not found" });
+
+  return res.json({ ok: true });
+}
+
+/**
+ * POST /api/v1/notifications/read-all
+ */
+export async function markAllNotificationsRead(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const r = await pool.query(
+    `UPDATE notifications SET read_at = now() WHERE user_id = $1 AND read_at IS NULL`,
+    [req.auth.id],
+  );
+
+  return res.json({ ok: true, updated: r.rowCount ?? 0 });
+}
@@ -0,0 +1,333 @@
+import { Request, Response } from "express";
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { pool } from "../config/db";
+import {
+  deleteMediaObjectIfUnused,
+  insertProviderMedia,
+  MediaRejectedError,
+  ResolvedMedia,
+  resolveMediaInput,
+  storeMedia,
+} from "../utils/storage";
+import {
+  compactMediaPositions,
+  getMediaQuota,
+  managedMediaFilter,
+  toProviderMediaDto,
+} from "../utils/providerMedia";
+
+type AuthUser = {
+  id: string;
+  role: "GUEST" | "PROVIDER" | "ADMIN";
+  email?: string;
+};
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const uuidParamSchema = z.string().uuid();
+
+// JSON alternative to a multipart upload: a URL from POST /api/v1/media
+const addMediaSchema = z.object({
+  url: z.string().url(),
+});
+
+const reorderSchema = z.object({
+  mediaIds: z.array(z.string().uuid()).min(1),
+});
+
+/**
+ * Provider id of the signed-in user, locked for the rest of the
+ * transaction so concurrent uploads can't both pass the limit check.
+ */
+async function lockProvider(db: PoolClient, userId: string) {
+  const r = await db.query(
+    `SELECT id FROM provider_profiles WHERE user_id = $1 LIMIT 1 FOR UPDATE`,
+    [userId],
+  );
+  return (r.rows[0]?.id as string | undefined) ?? null;
+}
+
+async function listMedia(db: PoolClient | typeof pool, providerId: string) {
+  const r = await db.query(
+    `SELECT m.id, m.url, m.type, m.is_cover, m.is_avatar, m.position,
+            o.renditions, o.poster_url, o.duration_seconds, m.created_at
+     FROM provider_media m
+     LEFT JOIN media_objects o ON o.storage_key = m.storage_key
+     WHERE m.provider_id = $1 AND ${managedMediaFilter("m")}
+     ORDER BY m.position, m.created_at`,
+    [providerId],
+  );
+  return r.rows.map(toProviderMediaDto);
+}
+
+/**
+ * POST /api/v1/providers/me/media
+ * multipart/form-data with "file", or JSON { url } for a file already
+ * uploaded to /api/v1/media. Images or videos; added at the end of the
+ * gallery.
+ */
+export async function addMyMedia(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  let media: ResolvedMedia;
+  try {
+    if (req.file) {
+      const stored = await storeMedia(req.file.buffer, {
+        allow: ["IMAGE", "VIDEO"],
+        uploadedBy: req.auth.id,
+      });
+      media = {
+        url: stored.url,
+        type: stored.type,
+        storageKey: stored.storageKey,
+        mimeType: stored.mimeType,
+        sizeBytes: stored.sizeBytes,
+      };
+    } else {
+      const parsed = addMediaSchema.safeParse(req.body ?? {});
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: "Send a file or a url", errors: parsed.error.flatten() });
+      media = await resolveMediaInput(parsed.data.url, {
+        allow: ["IMAGE", "VIDEO"],
+        uploadedBy: req.auth.id,
+      });
+    }
+  } catch (e) {
+    if (e instanceof MediaRejectedError)
+      return res.status(e.status).json({ message: e.message });
+    throw e;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const providerId = await lockProvider(client, req.auth.id);
+    if (!providerId) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Provider profile not found" });
+    }
+
+    const quota = await getMediaQuota(client, providerId);
+    if (quota.remaining === 0) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        message: `Your plan allows ${quota.limit} photos and videos. Delete one or upgrade to add more.`,
+        quota,
+      });
+    }
+
+    const id = await insertProviderMedia(client, providerId, media);
+    const items = await listMedia(client, providerId);
+    const updatedQuota = await getMediaQuota(client, providerId);
+
+    await client.query("COMMIT");
+
+    return res.status(201).json({
+      media: items.find((m) => m.id === id),
+      quota: updatedQuota,
+    });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * DELETE /api/v1/providers/me/media/:mediaId
+ * The current cover or avatar can't be deleted; set another one first.
+ */
+export async function deleteMyMedia(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const parsed = uuidParamSchema.safeParse(req.params.mediaId);
+  if (!parsed.success) return res.status(400).json({ message: "Invalid mediaId" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const providerId = await lockProvider(client, req.auth.id);
+    if (!providerId) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Provider profile not found" });
+    }
+
+    const mRes = await client.query(
+      `SELECT m.id, m.is_cover, m.is_avatar, m.storage_key
+       FROM provider_media m
+       WHERE m.id = $1 AND m.provider_id = $2 AND ${managedMediaFilter("m")}`,
+      [parsed.data, providerId],
+    );
+    const media = mRes.rows[0];
+    if (!media) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Media not found" });
+    }
+    if (media.is_cover || media.is_avatar) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        message: `Set another ${media.is_cover ? "cover" : "profile picture"} before deleting this one`,
+      });
+    }
+
+    await client.query(`DELETE FROM provider_media WHERE id = $1`, [media.id]);
+    await compactMediaPositions(client, providerId);
+
+    const items = await listMedia(client, providerId);
+    await client.query("COMMIT");
+
+    // Best effort: a leftover file is only wasted space
+    if (media.storage_key) {
+      deleteMediaObjectIfUnused(media.storage_key).catch((e) =>
+        console.error("Failed to delete media object", e),
+      );
+    }
+
+    return res.json({ ok: true, media: items });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/v1/providers/me/media/:mediaId/cover
+ * POST /api/v1/providers/me/media/:mediaId/avatar
+ * Moves the flag to this item; the previous one is unset in the same
+ * transaction.
+ */
+function setFlag(flag: "is_cover" | "is_avatar") {
+  return async (req: AuthedRequest, res: Response) => {
+    if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+    if (req.auth.role !== "PROVIDER")
+      return res.status(403).json({ message: "Providers only" });
+
+    const parsed = uuidParamSchema.safeParse(req.params.mediaId);
+    if (!parsed.success) return res.status(400).json({ message: "Invalid mediaId" });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const providerId = await lockProvider(client, req.auth.id);
+      if (!providerId) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ message: "Provider profile not found" });
+      }
+
+      const mRes = await client.query(
+        `SELECT m.id, m.type FROM provider_media m
+         WHERE m.id = $1 AND m.provider_id = $2 AND ${managedMediaFilter("m")}`,
+        [parsed.data, providerId],
+      );
+      const media = mRes.rows[0];
+      if (!media) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ message: "Media not found" });
+      }
+      if (media.type !== "IMAGE") {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ message: "Only images can be a cover or profile picture" });
+      }
+
+      // Two statements: the unique index allows one flagged row at a time
+      await client.query(
+        `UPDATE provider_media SET ${flag} = false
+         WHERE provider_id = $1 AND ${flag} = true AND id <> $2`,
+        [providerId, media.id],
+      );
+      await client.query(`UPDATE provider_media SET ${flag} = true WHERE id = $1`, [media.id]);
+      await client.query(`UPDATE provider_profiles SET updated_at = now() WHERE id = $1`, [
+        providerId,
+      ]);
+
+      const items = await listMedia(client, providerId);
+      await client.query("COMMIT");
+
+      return res.json({ ok: true, media: items });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      console.error(e);
+      return res.status(500).json({ message: "Server error" });
+    } finally {
+      client.release();
+    }
+  };
+}
+
+export const setMyCover = setFlag("is_cover");
+export const setMyAvatar = setFlag("is_avatar");
+
+/**
+ * PUT /api/v1/providers/me/media/order
+ * body: { mediaIds: [...] } listing every item once, in the new order.
+ */
+export async function reorderMyMedia(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const parsed = reorderSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const { mediaIds } = parsed.data;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const providerId = await lockProvider(client, req.auth.id);
+    if (!providerId) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ message: "Provider profile not found" });
+    }
+
+    const current = await listMedia(client, providerId);
+    const currentIds = new Set(current.map((m) => m.id));
+    if (
+      new Set(mediaIds).size !== mediaIds.length ||
+      mediaIds.length !== currentIds.size ||
+      !mediaIds.every((id) => currentIds.has(id))
+    ) {
+      await client.query("ROLLBACK");
+      return res
+        .status(400)
+        .json({ message: "mediaIds must list every media item exactly once" });
+    }
+
+    await client.query(
+      `UPDATE provider_media m
+       SET position = o.ord - 1
+       FROM unnest($2::uuid[]) WITH ORDINALITY AS o(id, ord)
+       WHERE m.id = o.id AND m.provider_id = $1`,
+      [providerId, mediaIds],
+    );
+
+    const items = await listMedia(client, providerId);
+    await client.query("COMMIT");
+
+    return res.json({ ok: true, media: items });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+}
@@ -1,6 +1,27 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { pool } from "../config/db";
+import {
+  publicProviderColumns,
+  renditionUrlExpr,
+  toPublicProvider,
+  verificationLevelExpr,
+  VERIFICATION_LEVELS,
+} from "../utils/publicProvider";
+import { getVisibilityStatus, visibleOn } from "../utils/visibility";
+import { activePromotionExpr, rotationSeed } from "../utils/promotions";
+import {
+  compactMediaPositions,
+  getMediaQuota,
+  managedMediaFilter,
+} from "../utils/providerMedia";
+import {
+  deleteMediaObjectsIfUnused,
+  insertProviderMedia,
+  MediaRejectedError,
+  resolveMediaInput,
+  ResolvedMedia,
+} from "../utils/storage";
 
 type AuthUser = {
   id: string;
@@ -9,7 +30,8 @@ type AuthUser = {
 };
 type AuthedRequest = Request & { auth?: AuthUser };
 
-// Media string validation (URL or base64)
+// Media string validation: a URL from POST /api/v1/media, or a base64 data
+// URI (legacy; moved into storage before saving)
 const mediaString = z
   .string()
   .min(5)
@@ -37,12 +59,94 @@ const updateProfileSchema = z.object({
     .optional(),
   // Services array - for updating provider services
   services: z.array(z.string()).optional(),
-  // Gallery: new images to add
+  // Gallery: new images or videos to add
   newGalleryImages: z.array(mediaString).optional(),
   // Gallery: URLs of images to remove (changed from IDs to URLs)
   removeGalleryUrls: z.array(z.string()).optional(),
 });
 
+const uuidParamSchema = z.string().uuid();
+
+// Comma-separated or repeated (?services=a&services=b) query values
+const csv = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) =>
+    (Array.isArray(v) ? v : v.split(","))
+      .map((x) => x.trim())
+      .filter(Boolean),
+  );
+
+const rateBound = z.coerce.number().int().nonnegative().optional();
+
+const listProvidersQuerySchema = z.object({
+  state: z.string().trim().min(1).max(60).optional(),
+  city: z.string().trim().min(1).max(60).optional(),
+  services: csv.optional(),
+  servicesMatch: z.enum(["any", "all"]).default("any"),
+  minShortTime: rateBound,
+  maxShortTime: rateBound,
+  minOvernight: rateBound,
+  maxOvernight: rateBound,
+  minWeekend: rateBound,
+  maxWeekend: rateBound,
+  gender: z.string().max(40).optional(),
+  ethnicity: z.string().max(60).optional(),
+  build: z.string().max(40).optional(),
+  hairColor: z.string().max(40).optional(),
+  eyeColor: z.string().max(40).optional(),
+  bustSize: z.string().max(30).optional(),
+  minAge: z.coerce.number().int().min(18).max(99).optional(),
+  maxAge: z.coerce.number().int().min(18).max(99).optional(),
+  verification: z.enum(VERIFICATION_LEVELS).optional(),
+  hasVideo: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  sort: z
+    .enum(["recommended", "newest", "price_asc", "price_desc", "rating", "popularity"])
+    .default("recommended"),
+});
+
+type ListProvidersQuery = z.infer<typeof listProvidersQuerySchema>;
+
+const STATS_FILTERS = [
+  "gender",
+  "ethnicity",
+  "build",
+  "hairColor",
+  "eyeColor",
+  "bustSize",
+] as const;
+
+// rates key -> [min param, max param]
+const RATE_FILTERS = {
+  shortTime: ["minShortTime", "maxShortTime"],
+  overnight: ["minOvernight", "maxOvernight"],
+  weekend: ["minWeekend", "maxWeekend"],
+} as const;
+
+// Must match the expression indexes in 015_provider_search.sql
+function rateExpr(key: string) {
+  return `(p.rates->>'${key}')::numeric`;
+}
+
+// Price sorts use the short-time rate, the one shown on listing cards.
+// "recommended" puts featured, then boosted providers first, each group
+// rotated; promo.* comes from the lateral join in listApprovedProviders.
+const SORTS: Record<ListProvidersQuery["sort"], string> = {
+  recommended: `promo.is_featured DESC, promo.is_boosted DESC,
+        CASE WHEN promo.is_featured OR promo.is_boosted THEN md5(p.id::text || promo.rotation_seed) END,
+        p.created_at DESC`,
+  newest: "p.created_at DESC",
+  price_asc: `${rateExpr("shortTime")} ASC NULLS LAST, p.created_at DESC`,
+  price_desc: `${rateExpr("shortTime")} DESC NULLS LAST, p.created_at DESC`,
+  rating: `(SELECT AVG(r.rating) FROM reviews r WHERE r.provider_id = p.id) DESC NULLS LAST,
+        (SELECT COUNT(*) FROM reviews r WHERE r.provider_id = p.id) DESC,
+        p.created_at DESC`,
+  popularity: `(SELECT COUNT(*) FROM favorites fv WHERE fv.provider_id = p.id) DESC,
+        p.created_at DESC`,
+};
+
+const RECENT_POSTS_LIMIT = 5;
+const RECENT_REVIEWS_LIMIT = 5;
+
 function toInt(v: unknown, fallback: number) {
   const n = Number(v);
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
@@ -50,7 +154,8 @@ function toInt(v: unknown, fallback: number) {
 
 /**
  * GET /api/v1/providers?status=APPROVED&page=1&limit=50
- * Public – no auth. Returns only APPROVED providers for the Home page.
+ * Public – no auth. Returns only visible providers for the Home page,
+ * filtered and sorted by the query params in listProvidersQuerySchema.
  */
 export async function listApprovedProviders(req: Request, res: Response) {
   const status = String(req.query.status ?? "APPROVED").toUpperCase();
@@ -64,53 +169,88 @@ export async function listApprovedProviders(req: Request, res: Response) {
       .json({ message: "Only status=APPROVED is allowed for public listing" });
   }
 
+  const parsed = listProvidersQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ message: "Invalid query", errors: parsed.error.flatten() });
+  }
+  const f = parsed.data;
+
+  const where: string[] = [visibleOn("listing", "p")];
+  const values: any[] = [];
+  const param = (v: unknown) => {
+    values.push(v);
+    return `$${values.length}`;
+  };
+
+  if (f.state) where.push(`lower(p.state) = lower(${param(f.state)})`);
+  if (f.city) where.push(`lower(p.city) = lower(${param(f.city)})`);
+
+  if (f.services?.length) {
+    const op = f.servicesMatch === "all" ? "@>" : "&&";
+    where.push(`p.services ${op} ${param(f.services)}::text[]`);
+  }
+
+  for (const [key, [minKey, maxKey]] of Object.entries(RATE_FILTERS)) {
+    const min = f[minKey];
+    const max = f[maxKey];
+    if (min !== undefined) where.push(`${rateExpr(key)} >= ${param(min)}`);
+    if (max !== undefined) where.push(`${rateExpr(key)} <= ${param(max)}`);
+  }
+
+  // Exact-match attributes use stats @> {...} so the GIN index applies
+  const statsMatch: Record<string, string> = {};
+  for (const key of STATS_FILTERS) {
+    if (f[key] !== undefined) statsMatch[key] = f[key];
+  }
+  if (Object.keys(statsMatch).length) {
+    where.push(`p.stats @> ${param(JSON.stringify(statsMatch))}::jsonb`);
+  }
+  if (f.minAge !== undefined) where.push(`(p.stats->>'age')::int >= ${param(f.minAge)}`);
+  if (f.maxAge !== undefined) where.push(`(p.stats->>'age')::int <= ${param(f.maxAge)}`);
+
+  if (f.verification) {
+    where.push(`${verificationLevelExpr("p")} = ${param(f.verification)}`);
+  }
+
+  if (f.hasVideo !== undefined) {
+    where.push(
+      `${f.hasVideo ? "" : "NOT "}EXISTS (SELECT 1 FROM provider_media v WHERE v.provider_id = p.id AND v.type = 'VIDEO')`,
+    );
+  }
+
+  const seedParam = param(rotationSeed());
+  const limitParam = param(limit);
+  const offsetParam = param(offset);
+
   try {
     const result = await pool.query(
       `
       SELECT
-        p.id,
-        p.user_id,
-        p.display_name,
-        p.state,
-        p.city,
-        p.verification_status,
-        p.is_suspended,
-        p.subscription_expires_at,
-        p.created_at,
-        p.services,
-        p.rates,
-        p.stats,
-
-        (SELECT url FROM provider_media m
-          WHERE m.provider_id = p.id AND m.is_cover = true
-          ORDER BY m.created_at DESC
-          LIMIT 1) AS cover_url,
-
-        (SELECT url FROM provider_media m
-          WHERE m.provider_id = p.id AND m.is_avatar = true
-          ORDER BY m.created_at DESC
-          LIMIT 1) AS avatar_url
-
+        ${publicProviderColumns("p")},
+        promo.is_featured,
+        promo.is_boosted
       FROM provider_profiles p
-      WHERE p.verification_status = 'APPROVED'
-        AND (p.is_suspended = false OR p.is_suspended IS NULL)
-      ORDER BY p.created_at DESC
-      LIMIT $1 OFFSET $2
+      CROSS JOIN LATERAL (
+        SELECT
+          ${activePromotionExpr("FEATURED", "p")} AS is_featured,
+          ${activePromotionExpr("BOOST", "p")} AS is_boosted,
+          ${seedParam}::text AS rotation_seed
+      ) promo
+      WHERE ${where.join("\n        AND ")}
+      ORDER BY ${SORTS[f.sort]}
+      LIMIT ${limitParam} OFFSET ${offsetParam}
       `,
-      [limit, offset],
+      values,
     );
 
-    const rows = result.rows.map((r: any) => {
-      const stats =
-        typeof r.stats === "string"
-          ? JSON.parse(r.stats || "{}")
-          : r.stats || {};
-      return {
-        ...r,
-        call_number: stats.callNumber ?? stats.call_number ?? null,
-        whatsapp_number: stats.whatsappNumber ?? stats.whatsapp_number ?? null,
-      };
-    });
+    // Paid or granted placements are always labelled, whatever the sort
+    const rows = result.rows.map((row) => ({
+      ...toPublicProvider(row),
+      sponsored: row.is_featured || row.is_boosted,
+      placement: row.is_featured ? "FEATURED" : row.is_boosted ? "BOOST" : null,
+    }));
 
     return res.json({
       page,
@@ -124,6 +264,177 @@ export async function listApprovedProviders(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /api/v1/providers/:providerId
+ * Public profile page. Guests only see providers visible under the
+ * "detail" policy; the provider themselves and admins always can.
+ */
+export async function getPublicProvider(req: AuthedRequest, res: Response) {
+  const parsed = uuidParamSchema.safeParse(req.params.providerId);
+  if (!parsed.success)
+    return res.status(400).json({ message: "Invalid providerId" });
+
+  const providerId = parsed.data;
+  const viewer = req.auth;
+
+  try {
+    const pRes = await pool.query(
+      `
+      SELECT
+        ${publicProviderColumns("p")},
+        ${visibleOn("detail", "p")} AS is_visible
+      FROM provider_profiles p
+      WHERE p.id = $1
+      LIMIT 1
+      `,
+      [providerId],
+    );
+
+    const row = pRes.rows[0];
+    const canBypass =
+      !!row && (viewer?.role === "ADMIN" || viewer?.id === row.provider_user_id);
+    if (!row || (!row.is_visible && !canBypass)) {
+      return res.status(404).json({ message: "Provider not found" });
+    }
+
+    // Cover first, then avatar, then the gallery in the provider's order.
+    // The verification selfie is private and never part of the gallery.
+    // Videos keep their own URL; their renditions are of the poster frame.
+    const galleryRes = await pool.query(
+      `
+      SELECT m.id,
+             CASE WHEN m.type = 'VIDEO' THEN m.url ELSE ${renditionUrlExpr("full")} END AS url,
+             m.type, m.is_cover, m.is_avatar, o.renditions, o.poster_url,
+             o.duration_seconds, m.created_at
+      FROM provider_media m
+      LEFT JOIN media_objects o ON o.storage_key = m.storage_key
+      WHERE m.provider_id = $1
+        AND NOT EXISTS (
+          SELECT 1 FROM provider_identity i
+          WHERE i.provider_id = m.provider_id
+            AND i.verification_selfie_media_id = m.id
+        )
+      ORDER BY m.is_cover DESC, m.is_avatar DESC, m.position, m.created_at
+      `,
+      [providerId],
+    );
+
+    const postsRes = await pool.query(
+      `
+      SELECT
+        p.id,
+        p.content,
+        p.media_urls,
+        p.created_at,
+        (SELECT COUNT(*)::int FROM feed_likes l WHERE l.post_id = p.id) AS like_count,
+        (SELECT COUNT(*)::int FROM feed_comments c WHERE c.post_id = p.id) AS comment_count
+      FROM feed_posts p
+      WHERE p.provider_id = $1
+      ORDER BY p.created_at DESC
+      LIMIT $2
+      `,
+      [providerId, RECENT_POSTS_LIMIT],
+    );
+
+    const ratingRes = await pool.query(
+      `
+      SELECT
+        COUNT(*)::int AS count,
+        ROUND(AVG(rating)::numeric, 2)::float AS average,
+        COUNT(*) FILTER (WHERE rating = 1)::int AS r1,
+        COUNT(*) FILTER (WHERE rating = 2)::int AS r2,
+        COUNT(*) FILTER (WHERE rating = 3)::int AS r3,
+        COUNT(*) FILTER (WHERE rating = 4)::int AS r4,
+        COUNT(*) FILTER (WHERE rating = 5)::int AS r5
+      FROM reviews
+      WHERE provider_id = $1
+      `,
+      [providerId],
+    );
+
+    const reviewsRes = await pool.query(
+      `
+      SELECT
+        r.id,
+        r.rating,
+        r.comment,
+        r.reply_text,
+        r.reply_created_at,
+        r.created_at,
+        u.display_name AS reviewer_name
+      FROM reviews r
+      JOIN users u ON u.id = r.reviewer_user_id
+      WHERE r.provider_id = $1
+      ORDER BY r.created_at DESC
+      LIMIT $2
+      `,
+      [providerId, RECENT_REVIEWS_LIMIT],
+    );
+
+    let isFavorited = false;
+    if (viewer) {
+      const favRes = await pool.query(
+        `SELECT 1 FROM favorites WHERE user_id = $1 AND provider_id = $2 LIMIT 1`,
+        [viewer.id, providerId],
+      );
+      isFavorited = !!favRes.rows[0];
+    }
+
+    const provider = toPublicProvider(row);
+    const rating = ratingRes.rows[0];
+
+    return res.json({
+      provider,
+      gallery: galleryRes.rows.map((m: any) => ({
+        id: m.id,
+        url: m.url,
+        type: m.type,
+        isCover: m.is_cover,
+        isAvatar: m.is_avatar,
+        renditions: m.renditions ?? null,
+        posterUrl: m.poster_url ?? null,
+        durationSeconds: m.duration_seconds === null ? null : Number(m.duration_seconds),
+        createdAt: m.created_at,
+      })),
+      rates: provider.rates,
+      services: provider.services,
+      recentPosts: postsRes.rows.map((x: any) => ({
+        id: x.id,
+        content: x.content,
+        mediaUrls: x.media_urls,
+        createdAt: x.created_at,
+        likeCount: x.like_count,
+        commentCount: x.comment_count,
+      })),
+      rating: {
+        average: rating.average,
+        count: rating.count,
+        breakdown: {
+          1: rating.r1,
+          2: rating.r2,
+          3: rating.r3,
+          4: rating.r4,
+          5: rating.r5,
+        },
+      },
+      recentReviews: reviewsRes.rows.map((x: any) => ({
+        id: x.id,
+        rating: x.rating,
+        comment: x.comment,
+        reviewerName: x.reviewer_name,
+        reply: x.reply_text
+          ? { text: x.reply_text, createdAt: x.reply_created_at }
+          : null,
+        createdAt: x.created_at,
+      })),
+      isFavorited,
+    });
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
 /**
  * GET /api/v1/providers/me
  * Get current provider's full profile with media
@@ -152,7 +463,7 @@ export async function getMyProfile(req: AuthedRequest, res: Response) {
     // Get provider profile
     const pRes = await pool.query(
       `SELECT id, display_name, state, city, verification_status, is_suspended, 
-              subscription_expires_at, services, rates, stats, bio
+              subscription_expires_at, services, rates, stats, bio, referral_code
        FROM provider_profiles
        WHERE user_id = $1`,
       [userId],
@@ -194,6 +505,36 @@ export async function getMyProfile(req: AuthedRequest, res: Response) {
   }
 }
 
+/**
+ * GET /api/v1/providers/me/visibility
+ * Tells the provider whether guests can find them, and why not.
+ */
+export async function getMyVisibility(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  if (req.auth.role !== "PROVIDER") {
+    return res.status(403).json({ message: "Providers only" });
+  }
+
+  try {
+    const pRes = await pool.query(
+      `SELECT id FROM provider_profiles WHERE user_id = $1 LIMIT 1`,
+      [req.auth.id],
+    );
+
+    const provider = pRes.rows[0];
+    const status = provider ? await getVisibilityStatus(provider.id) : null;
+    if (!status) {
+      return res.status(404).json({ message: "Provider profile not found" });
+    }
+
+    return res.json(status);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  }
+}
+
 /**
  * GET /api/v1/providers/me/media
  * Get current provider's media (images) only
@@ -219,16 +560,23 @@ export async function getMyMedia(req: AuthedRequest, res: Response) {
       return res.status(404).json({ message: "Provider profile not found" });
     }
 
-    // Get all media for this provider
+    // Get all media for this provider, in gallery order. Older accounts may
+    // still have their verification selfie here until it's moved to
+    // private storage.
     const mediaRes = await pool.query(
-      `SELECT id, url, type, is_cover, is_avatar, created_at
-       FROM provider_media
-       WHERE provider_id = $1
-       ORDER BY created_at DESC`,
+      `SELECT m.id, m.url, m.type, m.is_cover, m.is_avatar, m.position,
+              o.poster_url, o.duration_seconds, m.created_at
+       FROM provider_media m
+       LEFT JOIN media_objects o ON o.storage_key = m.storage_key
+       WHERE m.provider_id = $1 AND ${managedMediaFilter("m")}
+       ORDER BY m.position, m.created_at`,
       [provider.id],
     );
 
-    return res.json({ media: mediaRes.rows });
+    return res.json({
+      media: mediaRes.rows,
+      quota: await getMediaQuota(pool, provider.id),
+    });
   } catch (e) {
     console.error(e);
     return res.status(500).json({ message: "Server error" });
@@ -269,13 +617,27 @@ export async function updateMyProfile(req: AuthedRequest, res: Response) {
   const userId = req.auth.id;
   const data = parsed.data;
 
+  const newGallery: ResolvedMedia[] = [];
+  try {
+    for (const item of data.newGalleryImages ?? []) {
+      newGallery.push(
+        await resolveMediaInput(item, { allow: ["IMAGE", "VIDEO"], uploadedBy: userId }),
+      );
+    }
+  } catch (e) {
+    if (e instanceof MediaRejectedError)
+      return res.status(e.status).json({ message: e.message });
+    throw e;
+  }
+
+  const removedMediaKeys: string[] = [];
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
 
     // 1) Get current provider profile
     const providerRes = await client.query(
-      `SELECT id, stats, rates, services FROM provider_profiles WHERE user_id = $1 LIMIT 1`,
+      `SELECT id, stats, rates, services FROM provider_profiles WHERE user_id = $1 LIMIT 1 FOR UPDATE`,
       [userId],
     );
 
@@ -389,41 +751,54 @@ export async function updateMyProfile(req: AuthedRequest, res: Response) {
     // 8) Handle gallery: Remove images BY URL (not ID)
     if (data.removeGalleryUrls && data.removeGalleryUrls.length > 0) {
       for (const url of data.removeGalleryUrls) {
-        await client.query(
+        const delRes = await client.query(
           `DELETE FROM provider_media 
            WHERE provider_id = $1 
            AND url = $2
            AND is_cover = false 
-           AND is_avatar = false`,
+           AND is_avatar = false
+           RETURNING storage_key`,
           [providerId, url],
         );
+        for (const m of delRes.rows) {
+          if (m.storage_key) removedMediaKeys.push(m.storage_key);
+        }
       }
+      await compactMediaPositions(client, providerId);
       console.log(`Deleted ${data.removeGalleryUrls.length} gallery images`);
     }
 
-    // 9) Handle gallery: Add new images
-    if (data.newGalleryImages && data.newGalleryImages.length > 0) {
-      for (const imageUrl of data.newGalleryImages) {
-        await client.query(
-          `INSERT INTO provider_media (provider_id, url, type, is_cover, is_avatar)
-           VALUES ($1, $2, 'IMAGE', false, false)`,
-          [providerId, imageUrl],
-        );
+    // 9) Handle gallery: Add new images, within the plan's media limit
+    if (newGallery.length > 0) {
+      const quota = await getMediaQuota(client, providerId);
+      if (quota.remaining !== null && newGallery.length > quota.remaining) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          message: `Your plan allows ${quota.limit} photos and videos. Delete some or upgrade to add more.`,
+          quota,
+        });
+      }
+
+      for (const item of newGallery) {
+        await insertProviderMedia(client, providerId, item);
       }
-      console.log(`Added ${data.newGalleryImages.length} new gallery images`);
+      console.log(`Added ${newGallery.length} new gallery images`);
     }
 
     // 10) Fetch updated media (gallery)
     const galleryRes = await client.query(
-      `SELECT id, url, type, is_cover, is_avatar, created_at 
-       FROM provider_media 
-       WHERE provider_id = $1 
-       ORDER BY created_at DESC`,
+      `SELECT id, url, type, is_cover, is_avatar, position, created_at
+       FROM provider_media
+       WHERE provider_id = $1
+       ORDER BY position, created_at`,
       [providerId],
     );
 
     await client.query("COMMIT");
 
+    // Files of removed gallery items, unless something else uses them
+    await deleteMediaObjectsIfUnused(removedMediaKeys);
+
     // Log services update for debugging
     if (data.services !== undefined) {
       console.log(
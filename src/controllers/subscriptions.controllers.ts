@@ -0,0 +1,407 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { pool } from "../config/db";
+import {
+  createCheckout,
+  confirmPayment,
+  GATEWAY_NAMES,
+  PaymentGatewayError,
+  PromoCodeError,
+  SubscriptionPlan,
+} from "../utils/payments";
+import { loadReceipt, renderReceiptHtml, renderReceiptPdf } from "../utils/receipts";
+import { REFERRAL_REWARD_DAYS, referralShareUrl } from "../utils/referrals";
+import { visibleOn } from "../utils/visibility";
+import { toPromotionDto } from "../utils/promotions";
+
+type AuthUser = {
+  id: string;
+  role: "GUEST" | "PROVIDER" | "ADMIN";
+  email?: string;
+};
+type AuthedRequest = Request & { auth?: AuthUser };
+
+const checkoutSchema = z.object({
+  planCode: z.string().min(1).max(40),
+  gateway: z.enum(GATEWAY_NAMES).optional(),
+  promoCode: z.string().trim().min(2).max(40).optional(),
+});
+
+const confirmSchema = z.object({
+  reference: z.string().min(8).max(100),
+});
+
+const billingQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const uuidParamSchema = z.string().uuid();
+
+function toPlanDto(p: any) {
+  return {
+    id: p.id,
+    code: p.code,
+    name: p.name,
+    description: p.description,
+    durationDays: p.duration_days,
+    price: Number(p.price),
+    currency: p.currency,
+    perks: p.perks,
+    kind: p.kind,
+    // Photos allowed while on this plan; null = no limit
+    maxMedia: p.max_media ?? null,
+  };
+}
+
+async function getProviderForUser(userId: string) {
+  const r = await pool.query(
+    `SELECT p.id, p.verification_status, u.email, ${visibleOn("listing", "p")} AS is_visible
+     FROM provider_profiles p
+     JOIN users u ON u.id = p.user_id
+     WHERE p.user_id = $1
+     LIMIT 1`,
+    [userId],
+  );
+  return r.rows[0] as
+    | { id: string; verification_status: string; email: string; is_visible: boolean }
+    | undefined;
+}
+
+/**
+ * GET /api/v1/subscriptions/plans
+ * Public list of plans that can be bought.
+ */
+export async function listPlans(_req: Request, res: Response) {
+  const r = await pool.query(
+    `SELECT id, code, name, description, duration_days, price, currency, perks, kind, max_media
+     FROM subscription_plans
+     WHERE is_active = true
+     ORDER BY sort_order, price`,
+  );
+  return res.json({ plans: r.rows.map(toPlanDto) });
+}
+
+/**
+ * POST /api/v1/providers/me/subscription/checkout
+ * body: { planCode, gateway?, promoCode? }
+ * Returns a checkout URL to redirect the provider to, and the price after
+ * any promo discount.
+ */
+export async function checkout(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const parsed = checkoutSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const provider = await getProviderForUser(req.auth.id);
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  // Paid time would tick away while the profile can't be shown
+  if (provider.verification_status !== "APPROVED")
+    return res
+      .status(409)
+      .json({ message: "Your profile must be approved before subscribing" });
+
+  const planRes = await pool.query(
+    `SELECT id, code, name, description, duration_days, price, currency, perks, kind, max_media
+     FROM subscription_plans
+     WHERE code = $1 AND is_active = true
+     LIMIT 1`,
+    [parsed.data.planCode],
+  );
+  const plan: SubscriptionPlan | undefined = planRes.rows[0];
+  if (!plan) return res.status(404).json({ message: "Plan not found" });
+
+  // A placement is wasted on a profile nobody can see
+  if (plan.kind !== "SUBSCRIPTION" && !provider.is_visible)
+    return res
+      .status(409)
+      .json({ message: "An active subscription is required to buy a placement" });
+
+  try {
+    const result = await createCheckout({
+      providerId: provider.id,
+      email: provider.email,
+      plan,
+      gateway: parsed.data.gateway,
+      promoCode: parsed.data.promoCode,
+    });
+
+    return res.status(201).json({
+      ...result,
+      plan: toPlanDto(plan),
+    });
+  } catch (e) {
+    if (e instanceof PromoCodeError) {
+      return res.status(400).json({ message: e.message });
+    }
+    if (e instanceof PaymentGatewayError) {
+      console.error(e);
+      return res.status(502).json({ message: "Payment gateway unavailable" });
+    }
+    throw e;
+  }
+}
+
+/**
+ * POST /api/v1/providers/me/subscription/confirm
+ * body: { reference }
+ * Called after the gateway redirects back. The payment status is checked
+ * with the gateway itself; the client's word is never trusted.
+ */
+export async function confirmCheckout(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const parsed = confirmSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const provider = await getProviderForUser(req.auth.id);
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  const owns = await pool.query(
+    `SELECT 1 FROM payments WHERE reference = $1 AND provider_id = $2 LIMIT 1`,
+    [parsed.data.reference, provider.id],
+  );
+  if (!owns.rows[0])
+    return res.status(404).json({ message: "Payment not found" });
+
+  let result;
+  try {
+    result = await confirmPayment(parsed.data.reference);
+  } catch (e) {
+    if (e instanceof PaymentGatewayError) {
+      console.error(e);
+      return res.status(502).json({ message: "Payment gateway unavailable" });
+    }
+    throw e;
+  }
+
+  switch (result.status) {
+    case "ACTIVATED":
+    case "RENEWED":
+    case "ALREADY_PROCESSED":
+      return res.json({ ok: true, status: result.status, subscriptionExpiresAt: result.expiresAt });
+    case "PROMOTION_PURCHASED":
+      return res.json({ ok: true, status: result.status, promotionEndsAt: result.expiresAt });
+    case "PENDING":
+      return res.status(202).json({ ok: false, status: "PENDING", message: "Payment not completed yet" });
+    case "FAILED":
+      return res.status(402).json({ ok: false, status: "FAILED", message: "Payment failed" });
+    case "AMOUNT_MISMATCH":
+      return res.status(402).json({ ok: false, status: "AMOUNT_MISMATCH", message: "Amount paid does not match the plan" });
+    default:
+      return res.status(409).json({ ok: false, status: result.status, message: "Payment can't be applied" });
+  }
+}
+
+/**
+ * GET /api/v1/providers/me/billing?page=1&limit=20
+ * Subscription history with amounts, references and receipt links.
+ */
+export async function getMyBilling(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const parsed = billingQuerySchema.safeParse(req.query);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid query", errors: parsed.error.flatten() });
+
+  const { page, limit } = parsed.data;
+  const offset = (page - 1) * limit;
+
+  const provider = await getProviderForUser(req.auth.id);
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  const subRes = await pool.query(
+    `SELECT subscription_expires_at FROM provider_profiles WHERE id = $1`,
+    [provider.id],
+  );
+
+  const r = await pool.query(
+    `
+    SELECT
+      e.id,
+      e.event_type,
+      e.amount,
+      e.reference,
+      e.expires_at,
+      e.created_at,
+      pay.id AS payment_id,
+      pay.currency,
+      pay.gateway,
+      pay.status AS payment_status,
+      pay.receipt_number,
+      pay.discount_amount,
+      pl.name AS plan_name
+    FROM subscription_events e
+    LEFT JOIN payments pay ON pay.id = e.payment_id
+    LEFT JOIN subscription_plans pl ON pl.id = e.plan_id
+    WHERE e.provider_id = $1
+    ORDER BY e.created_at DESC
+    LIMIT $2 OFFSET $3
+    `,
+    [provider.id, limit, offset],
+  );
+
+  return res.json({
+    subscriptionExpiresAt: subRes.rows[0]?.subscription_expires_at ?? null,
+    page,
+    limit,
+    count: r.rows.length,
+    items: r.rows.map((x) => ({
+      id: x.id,
+      type: x.event_type,
+      amount: x.amount === null ? null : Number(x.amount),
+      currency: x.currency ?? null,
+      discount: x.discount_amount === null ? null : Number(x.discount_amount),
+      reference: x.reference,
+      planName: x.plan_name ?? null,
+      gateway: x.gateway ?? null,
+      paymentStatus: x.payment_status ?? null,
+      expiresAt: x.expires_at,
+      createdAt: x.created_at,
+      receipt: x.receipt_number
+        ? {
+            number: x.receipt_number,
+            url: `/api/v1/providers/me/billing/receipts/${x.payment_id}`,
+          }
+        : null,
+    })),
+  });
+}
+
+/**
+ * GET /api/v1/providers/me/billing/receipts/:paymentId?format=pdf|html
+ */
+export async function getMyReceipt(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const idParsed = uuidParamSchema.safeParse(req.params.paymentId);
+  if (!idParsed.success)
+    return res.status(400).json({ message: "Invalid paymentId" });
+
+  const format = req.query.format === "html" ? "html" : "pdf";
+
+  const provider = await getProviderForUser(req.auth.id);
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  const receipt = await loadReceipt(idParsed.data, provider.id);
+  if (!receipt) return res.status(404).json({ message: "Receipt not found" });
+
+  const filename = `receipt-${receipt.receiptNumber}.${format}`;
+
+  if (format === "html") {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    return res.send(renderReceiptHtml(receipt));
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  return res.send(renderReceiptPdf(receipt));
+}
+
+/**
+ * GET /api/v1/providers/me/referrals
+ * The provider's own code to share, and who signed up with it.
+ */
+export async function getMyReferrals(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const pRes = await pool.query(
+    `SELECT id, referral_code FROM provider_profiles WHERE user_id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+  const provider = pRes.rows[0];
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  // Only the display name: referred providers may not be public yet
+  const r = await pool.query(
+    `
+    SELECT r.id, r.status, r.reward_days, r.rewarded_at, r.created_at, p.display_name
+    FROM referrals r
+    JOIN provider_profiles p ON p.id = r.referred_provider_id
+    WHERE r.referrer_provider_id = $1
+    ORDER BY r.created_at DESC
+    `,
+    [provider.id],
+  );
+
+  const rewarded = r.rows.filter((x) => x.status === "REWARDED");
+
+  return res.json({
+    code: provider.referral_code,
+    shareUrl: referralShareUrl(provider.referral_code),
+    rewardDays: REFERRAL_REWARD_DAYS,
+    totals: {
+      referred: r.rows.length,
+      rewarded: rewarded.length,
+      daysEarned: rewarded.reduce((sum, x) => sum + (x.reward_days ?? 0), 0),
+    },
+    referrals: r.rows.map((x) => ({
+      id: x.id,
+      displayName: x.display_name,
+      status: x.status,
+      rewardDays: x.reward_days,
+      rewardedAt: x.rewarded_at,
+      createdAt: x.created_at,
+    })),
+  });
+}
+
+/**
+ * GET /api/v1/providers/me/promotions
+ * Current, upcoming and past featured/boost placements.
+ */
+export async function getMyPromotions(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+  if (req.auth.role !== "PROVIDER")
+    return res.status(403).json({ message: "Providers only" });
+
+  const provider = await getProviderForUser(req.auth.id);
+  if (!provider)
+    return res.status(404).json({ message: "Provider profile not found" });
+
+  const r = await pool.query(
+    `
+    SELECT pr.*,
+           (pr.cancelled_at IS NULL AND pr.starts_at <= now() AND pr.ends_at > now()) AS is_active
+    FROM provider_promotions pr
+    WHERE pr.provider_id = $1
+    ORDER BY pr.ends_at DESC
+    LIMIT 50
+    `,
+    [provider.id],
+  );
+
+  // Staff notes on granted placements are internal
+  return res.json({
+    promotions: r.rows.map((row) => {
+      const { note: _note, ...dto } = toPromotionDto(row);
+      return { ...dto, isActive: row.is_active };
+    }),
+  });
+}
@@ -0,0 +1,334 @@
+import { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { pool } from "../config/db";
+import { verifyTwoFactorChallenge } from "../utils/jwt";
+import { notifyAccountLocked } from "../utils/loginThrottle";
+import { createSession, elevateSession, hashToken } from "../utils/sessions";
+import {
+  buildOtpAuthUri,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from "../utils/totp";
+
+type AuthUser = {
+  id: string;
+  role: "GUEST" | "PROVIDER" | "ADMIN";
+  email?: string;
+  sessionId?: string;
+  mfa?: boolean;
+};
+type AuthedRequest = Request & { auth?: AuthUser };
+
+// Consecutive wrong codes before the second factor is locked for the account
+const TWO_FACTOR_LOCK_AFTER = 5;
+const TWO_FACTOR_LOCK_MINUTES = 15;
+
+const totpCode = z.string().regex(/^\d{6}$/, "Code must be 6 digits");
+
+const enableSchema = z.object({
+  code: totpCode,
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1),
+  code: totpCode,
+});
+
+const verifyLoginSchema = z
+  .object({
+    challengeToken: z.string().min(10),
+    code: totpCode.optional(),
+    recoveryCode: z.string().min(6).max(20).optional(),
+  })
+  .refine((d) => d.code || d.recoveryCode, "Provide code or recoveryCode");
+
+/**
+ * Validates a TOTP code for the user and records the time step so the same
+ * code can't be used twice.
+ */
+async function consumeTotp(
+  user: { id: string; totp_secret: string; totp_last_used_step: string | null },
+  code: string,
+) {
+  const step = verifyTotp(decryptSecret(user.totp_secret), code);
+  if (step === null) return false;
+
+  const r = await pool.query(
+    `UPDATE users SET totp_last_used_step = $2
+     WHERE id = $1 AND (totp_last_used_step IS NULL OR totp_last_used_step < $2)`,
+    [user.id, step],
+  );
+
+  return (r.rowCount ?? 0) > 0;
+}
+
+/**
+ * Counts a second-factor attempt against the account, unless it is locked.
+ * Every attempt is counted up front (in one statement, so parallel guesses
+ * can't overshoot) and clearTwoFactorFailures() undoes it on success.
+ * lockedUntil is set when this attempt locked the account.
+ */
+async function registerTwoFactorAttempt(
+  userId: string,
+): Promise<{ ok: true; lockedUntil: Date | null } | { ok: false; retryAfterSeconds: number }> {
+  const r = await pool.query(
+    `UPDATE users
+     SET totp_failed_count = CASE WHEN totp_failed_count + 1 >= $2 THEN 0
+                                  ELSE totp_failed_count + 1 END,
+         totp_locked_until = CASE WHEN totp_failed_count + 1 >= $2
+                                  THEN now() + make_interval(mins => $3)
+                                  ELSE NULL END
+     WHERE id = $1 AND (totp_locked_until IS NULL OR totp_locked_until <= now())
+     RETURNING totp_locked_until`,
+    [userId, TWO_FACTOR_LOCK_AFTER, TWO_FACTOR_LOCK_MINUTES],
+  );
+  if (r.rows[0]) return { ok: true, lockedUntil: r.rows[0].totp_locked_until };
+
+  const lRes = await pool.query(`SELECT totp_locked_until FROM users WHERE id = $1`, [userId]);
+  const until = lRes.rows[0]?.totp_locked_until;
+  const seconds = until ? Math.ceil((new Date(until).getTime() - Date.now()) / 1000) : 1;
+  return { ok: false, retryAfterSeconds: Math.max(1, seconds) };
+}
+
+async function clearTwoFactorFailures(userId: string) {
+  await pool.query(
+    `UPDATE users SET totp_failed_count = 0, totp_locked_until = NULL WHERE id = $1`,
+    [userId],
+  );
+}
+
+async function consumeRecoveryCode(userId: string, recoveryCode: string) {
+  const r = await pool.query(
+    `UPDATE recovery_codes SET used_at = now()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashToken(recoveryCode.trim().toLowerCase())],
+  );
+  return (r.rowCount ?? 0) > 0;
+}
+
+/**
+ * POST /api/v1/auth/2fa/setup
+ * Starts enrollment: stores a pending secret and returns it with the otpauth:// URI
+ * (render it as a QR code). Nothing changes at login until /2fa/enable succeeds.
+ */
+export async function setupTwoFactor(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const uRes = await pool.query(
+    `SELECT email, totp_enabled_at FROM users WHERE id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  if (user.totp_enabled_at)
+    return res
+      .status(409)
+      .json({ message: "Two-factor authentication is already enabled" });
+
+  const secret = generateTotpSecret();
+
+  await pool.query(
+    `UPDATE users
+     SET totp_secret = $1, totp_last_used_step = NULL, updated_at = now()
+     WHERE id = $2`,
+    [encryptSecret(secret), req.auth.id],
+  );
+
+  return res.json({
+    secret,
+    otpauthUri: buildOtpAuthUri(secret, user.email),
+  });
+}
+
+/**
+ * POST /api/v1/auth/2fa/enable
+ * Confirms enrollment with a first code. Returns one-time recovery codes
+ * (shown once, stored hashed) and an access token for the now-elevated session.
+ */
+export async function enableTwoFactor(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const parsed = enableSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const uRes = await pool.query(
+    `SELECT id, role, totp_secret, totp_enabled_at, totp_last_used_step
+     FROM users WHERE id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  if (user.totp_enabled_at)
+    return res
+      .status(409)
+      .json({ message: "Two-factor authentication is already enabled" });
+  if (!user.totp_secret)
+    return res.status(400).json({ message: "Start setup first" });
+
+  const ok = await consumeTotp(user, parsed.data.code);
+  if (!ok) return res.status(400).json({ message: "Invalid code" });
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    await client.query(
+      `UPDATE users SET totp_enabled_at = now(), updated_at = now() WHERE id = $1`,
+      [user.id],
+    );
+
+    await client.query(`DELETE FROM recovery_codes WHERE user_id = $1`, [
+      user.id,
+    ]);
+
+    for (const code of recoveryCodes) {
+      await client.query(
+        `INSERT INTO recovery_codes (user_id, code_hash) VALUES ($1, $2)`,
+        [user.id, hashToken(code)],
+      );
+    }
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error(e);
+    return res.status(500).json({ message: "Server error" });
+  } finally {
+    client.release();
+  }
+
+  const accessToken = req.auth.sessionId
+    ? await elevateSession(req.auth.sessionId, user)
+    : null;
+
+  return res.json({ ok: true, recoveryCodes, accessToken });
+}
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * Optional for guests/providers; admins can't turn it off.
+ */
+export async function disableTwoFactor(req: AuthedRequest, res: Response) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  if (req.auth.role === "ADMIN")
+    return res
+      .status(403)
+      .json({ message: "Two-factor authentication is mandatory for admins" });
+
+  const parsed = disableSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const uRes = await pool.query(
+    `SELECT id, password_hash, totp_secret, totp_enabled_at, totp_last_used_step
+     FROM users WHERE id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+  const user = uRes.rows[0];
+  if (!user) return res.status(404).json({ message: "User not found" });
+
+  if (!user.totp_enabled_at)
+    return res
+      .status(400)
+      .json({ message: "Two-factor authentication is not enabled" });
+
+  const passwordOk = await bcrypt.compare(parsed.data.password, user.password_hash);
+  if (!passwordOk)
+    return res.status(401).json({ message: "Password is incorrect" });
+
+  const codeOk = await consumeTotp(user, parsed.data.code);
+  if (!codeOk) return res.status(400).json({ message: "Invalid code" });
+
+  await pool.query(
+    `UPDATE users
+     SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL,
+         updated_at = now()
+     WHERE id = $1`,
+    [user.id],
+  );
+  await pool.query(`DELETE FROM recovery_codes WHERE user_id = $1`, [user.id]);
+
+  return res.json({ ok: true });
+}
+
+/**
+ * POST /api/v1/auth/2fa/verify-login
+ * Second step of login: exchanges the challenge token from /login plus a TOTP
+ * (or recovery) code for a session.
+ */
+export async function verifyTwoFactorLogin(req: Request, res: Response) {
+  const parsed = verifyLoginSchema.safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ message: "Invalid payload", errors: parsed.error.flatten() });
+
+  const { challengeToken, code, recoveryCode } = parsed.data;
+
+  let userId: string;
+  try {
+    userId = verifyTwoFactorChallenge(challengeToken);
+  } catch {
+    return res.status(401).json({ message: "Invalid or expired challenge" });
+  }
+
+  const uRes = await pool.query(
+    `SELECT id, email, role, display_name, totp_secret, totp_enabled_at, totp_last_used_step
+     FROM users WHERE id = $1 AND disabled_at IS NULL LIMIT 1`,
+    [userId],
+  );
+  const user = uRes.rows[0];
+  if (!user || !user.totp_enabled_at)
+    return res.status(401).json({ message: "Invalid or expired challenge" });
+
+  const gate = await registerTwoFactorAttempt(user.id);
+  if (!gate.ok) {
+    res.setHeader("Retry-After", String(gate.retryAfterSeconds));
+    return res.status(429).json({
+      message: "Too many invalid codes. Try again later.",
+      retryAfterSeconds: gate.retryAfterSeconds,
+    });
+  }
+
+  const ok = code
+    ? await consumeTotp(user, code)
+    : await consumeRecoveryCode(user.id, recoveryCode!);
+
+  if (!ok) {
+    // Someone who knows the password is guessing codes
+    if (gate.lockedUntil) notifyAccountLocked(user.email, gate.lockedUntil);
+    return res.status(401).json({ message: "Invalid code" });
+  }
+
+  await clearTwoFactorFailures(user.id);
+
+  const { accessToken, refreshToken } = await createSession(req, user, {
+    mfa: true,
+  });
+
+  return res.json({
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      display_name: user.display_name,
+    },
+    accessToken,
+    refreshToken,
+  });
+}
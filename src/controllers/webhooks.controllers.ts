@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import {
+  handlePaymentWebhook,
+  isGatewayName,
+  PaymentGatewayError,
+} from "../utils/payments";
+
+/**
+ * POST /api/v1/webhooks/payments/:gateway
+ * req.body is the raw Buffer (see webhooks.routes.ts) so the signature can
+ * be checked against the exact bytes the gateway signed.
+ */
+export async function receivePaymentWebhook(req: Request, res: Response) {
+  const gatewayName = String(req.params.gateway);
+  if (!isGatewayName(gatewayName)) {
+    return res.status(404).json({ message: "Unknown gateway" });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ message: "Expected a raw request body" });
+  }
+
+  let result;
+  try {
+    result = await handlePaymentWebhook(gatewayName, req.body, req.headers);
+  } catch (e) {
+    if (e instanceof PaymentGatewayError) {
+      return res.status(404).json({ message: e.message });
+    }
+    console.error(e);
+    // Non-2xx makes the gateway retry later
+    return res.status(500).json({ message: "Server error" });
+  }
+
+  switch (result.status) {
+    case "INVALID_SIGNATURE":
+      return res.status(401).json({ message: "Invalid signature" });
+    case "INVALID_PAYLOAD":
+      return res.status(400).json({ message: "Invalid payload" });
+    case "DUPLICATE":
+      return res.json({ ok: true, duplicate: true, eventId: result.eventId });
+    default:
+      return res.json({ ok: true, eventId: result.eventId, outcome: result.outcome });
+  }
+}
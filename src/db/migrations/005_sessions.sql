@@ -0,0 +1,32 @@
+BEGIN;
+
+-- One row per signed-in device. Access tokens carry the session id (sid)
+-- so a session can be revoked server-side.
+CREATE TABLE IF NOT EXISTS sessions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent text,
+  ip text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, created_at DESC);
+
+-- Every refresh token issued for a session (the token "family").
+-- Rotated tokens keep their row with rotated_at set so that replaying an old
+-- token can be detected and the whole session revoked.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id uuid NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  rotated_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
+
+COMMIT;
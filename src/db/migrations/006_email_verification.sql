@@ -0,0 +1,17 @@
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+
+-- Accounts created before verification existed are grandfathered in.
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+-- Codes are stored hashed (sha256 hex), so widen the column.
+ALTER TABLE otp_tokens ALTER COLUMN code TYPE text;
+ALTER TABLE otp_tokens ADD COLUMN IF NOT EXISTS attempts int NOT NULL DEFAULT 0;
+
+-- Unverified codes are invalidated when a new one is issued
+ALTER TABLE otp_tokens ADD COLUMN IF NOT EXISTS invalidated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_otp_tokens_email_created ON otp_tokens(email, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,23 @@
+BEGIN;
+
+-- TOTP secret is AES-GCM encrypted (see utils/totp.ts).
+-- totp_enabled_at stays NULL while enrollment is pending confirmation.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz;
+-- Last accepted time step, so a code can't be replayed within its window
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_used_step bigint;
+
+-- Set when the session was established with a second factor
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS mfa_verified_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS recovery_codes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recovery_codes_user ON recovery_codes(user_id);
+
+COMMIT;
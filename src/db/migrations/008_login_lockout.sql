@@ -0,0 +1,17 @@
+BEGIN;
+
+-- Failed login tracking per normalized email (the IP limiter alone doesn't
+-- stop distributed credential stuffing against one account). Keyed by
+-- email rather than user so unknown addresses are throttled exactly like
+-- registered ones and the responses don't reveal which emails have an
+-- account.
+CREATE TABLE IF NOT EXISTS login_attempts (
+  email text PRIMARY KEY,
+  failed_login_count int NOT NULL DEFAULT 0,
+  last_failed_login_at timestamptz,
+  locked_until timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_last_failed ON login_attempts(last_failed_login_at);
+
+COMMIT;
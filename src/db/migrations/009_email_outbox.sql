@@ -0,0 +1,27 @@
+BEGIN;
+
+DO $$ BEGIN
+  CREATE TYPE email_status AS ENUM ('PENDING', 'SENT', 'FAILED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- Every transactional email goes through here so failed sends are retried
+-- instead of being lost. payload holds the template data and is cleared once
+-- the email is sent (it can contain reset links and OTP codes).
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  to_email text NOT NULL,
+  template text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status email_status NOT NULL DEFAULT 'PENDING',
+  attempts int NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  transport text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created_at ON email_outbox(created_at DESC);
+
+COMMIT;
@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Self-service deletion: the account is scheduled, can be restored during the
+-- grace period, then purged. Purged users keep a scrubbed tombstone row so
+-- messages, comments and reviews they wrote stay readable for others but are
+-- no longer attributable.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_requested_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_scheduled_for timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_users_deletion_scheduled
+  ON users(deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL AND deleted_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,22 @@
+BEGIN;
+
+-- users.email only changes once the new address confirms.
+-- The old address receives a cancel link. Both tokens are stored hashed.
+-- previous_email is kept so the cancel link can still undo the change for a
+-- few days after the new address confirmed it.
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  new_email text NOT NULL,
+  previous_email text,
+  confirm_token_hash text NOT NULL UNIQUE,
+  cancel_token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  confirmed_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user ON email_change_requests(user_id, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,13 @@
+BEGIN;
+
+-- Banned / disabled accounts can't sign in
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_reason text;
+
+-- Audit trail for actions on users (not only providers)
+ALTER TABLE admin_actions ADD COLUMN IF NOT EXISTS target_user_id uuid REFERENCES users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_admin_actions_target_user ON admin_actions(target_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at DESC);
+
+COMMIT;
@@ -0,0 +1,67 @@
+BEGIN;
+
+-- Named permissions checked by requirePermission(); grouped into staff roles
+-- that are assigned to ADMIN users. user_role stays as the coarse account type.
+CREATE TABLE IF NOT EXISTS permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS staff_roles (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL UNIQUE,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS staff_role_permissions (
+  role_id uuid NOT NULL REFERENCES staff_roles(id) ON DELETE CASCADE,
+  permission_key text NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, permission_key)
+);
+
+CREATE TABLE IF NOT EXISTS user_staff_roles (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role_id uuid NOT NULL REFERENCES staff_roles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, role_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_staff_roles_role ON user_staff_roles(role_id);
+
+INSERT INTO permissions (key, description) VALUES
+  ('providers.read', 'View provider onboarding and verification data'),
+  ('providers.approve', 'Approve or reject provider verification'),
+  ('blacklist.verify', 'Verify blacklist entries'),
+  ('reports.resolve', 'Review and resolve user reports'),
+  ('feed.moderate', 'Moderate feed posts and comments'),
+  ('users.read', 'Search and view user accounts'),
+  ('users.manage', 'Change roles, reset passwords, disable and unlock accounts'),
+  ('staff.manage', 'Manage staff roles and their permissions')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO staff_roles (name, description) VALUES
+  ('Super Admin', 'Every permission'),
+  ('Verifier', 'Reviews provider onboarding and blacklist entries'),
+  ('Moderator', 'Reviews feed posts and user reports')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO staff_role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM staff_roles r
+JOIN permissions p ON
+  r.name = 'Super Admin'
+  OR (r.name = 'Verifier' AND p.key IN ('providers.read', 'providers.approve', 'blacklist.verify'))
+  OR (r.name = 'Moderator' AND p.key IN ('feed.moderate', 'reports.resolve', 'users.read'))
+ON CONFLICT DO NOTHING;
+
+-- Existing admins keep everything they could do before
+INSERT INTO user_staff_roles (user_id, role_id)
+SELECT u.id, r.id
+FROM users u
+JOIN staff_roles r ON r.name = 'Super Admin'
+WHERE u.role = 'ADMIN'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,36 @@
+BEGIN;
+
+-- Private identity data collected at provider registration. Only admins (and
+-- the provider's own data export) ever read this table; provider_profiles.stats
+-- is public-facing and must not hold any of it.
+CREATE TABLE IF NOT EXISTS provider_identity (
+  provider_id uuid PRIMARY KEY REFERENCES provider_profiles(id) ON DELETE CASCADE,
+  real_name text NOT NULL,
+  dob date,
+  referral_code text,
+  verification_selfie_media_id uuid REFERENCES provider_media(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Backfill from the old stats JSONB. The selfie was stored as a plain
+-- provider_media row, so link it back by URL.
+INSERT INTO provider_identity (provider_id, real_name, dob, referral_code, verification_selfie_media_id)
+SELECT
+  p.id,
+  COALESCE(p.stats->>'realName', p.display_name),
+  CASE WHEN p.stats->>'dob' ~ '^\d{4}-\d{2}-\d{2}' THEN (substring(p.stats->>'dob' FROM 1 FOR 10))::date END,
+  p.stats->>'referralCode',
+  (SELECT m.id FROM provider_media m
+    WHERE m.provider_id = p.id AND m.url = p.stats->>'verificationSelfie'
+    ORDER BY m.created_at DESC
+    LIMIT 1)
+FROM provider_profiles p
+WHERE p.stats ? 'realName' OR p.stats ? 'verificationSelfie'
+ON CONFLICT (provider_id) DO NOTHING;
+
+UPDATE provider_profiles
+SET stats = stats - 'realName' - 'dob' - 'referralCode' - 'verificationSelfie'
+WHERE stats ?| ARRAY['realName', 'dob', 'referralCode', 'verificationSelfie'];
+
+COMMIT;
@@ -0,0 +1,31 @@
+BEGIN;
+
+-- Indexes backing the filters and sorts on GET /providers.
+-- Expressions must match the ones built in listApprovedProviders.
+
+-- Visible listing, newest first
+CREATE INDEX IF NOT EXISTS idx_provider_listing_created
+  ON provider_profiles(created_at DESC)
+  WHERE verification_status = 'APPROVED' AND is_suspended = false;
+
+-- Case-insensitive location filters
+CREATE INDEX IF NOT EXISTS idx_provider_location_lower
+  ON provider_profiles(lower(state), lower(city));
+
+-- Rate ranges and price sorts
+CREATE INDEX IF NOT EXISTS idx_provider_rate_short_time
+  ON provider_profiles(((rates->>'shortTime')::numeric));
+CREATE INDEX IF NOT EXISTS idx_provider_rate_overnight
+  ON provider_profiles(((rates->>'overnight')::numeric));
+CREATE INDEX IF NOT EXISTS idx_provider_rate_weekend
+  ON provider_profiles(((rates->>'weekend')::numeric));
+
+-- Attribute filters (stats @> '{"gender": "..."}')
+CREATE INDEX IF NOT EXISTS idx_provider_stats_gin
+  ON provider_profiles USING gin(stats jsonb_path_ops);
+
+-- "Has video" filter
+CREATE INDEX IF NOT EXISTS idx_provider_media_type
+  ON provider_media(provider_id, type);
+
+COMMIT;
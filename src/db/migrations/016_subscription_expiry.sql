@@ -0,0 +1,31 @@
+-- Enum values can't be added inside a transaction block on older Postgres
+ALTER TYPE subscription_event_type ADD VALUE IF NOT EXISTS 'ADMIN_GRANT';
+
+BEGIN;
+
+-- One EXPIRED event per lapsed subscription period. reference holds the
+-- expiry timestamp ("expiry:<iso>") so concurrent workers can't double-write.
+CREATE UNIQUE INDEX IF NOT EXISTS uq_subscription_events_expired
+  ON subscription_events(provider_id, reference)
+  WHERE event_type = 'EXPIRED';
+
+-- Visible-provider checks filter on all of these together
+CREATE INDEX IF NOT EXISTS idx_provider_visible_subscription
+  ON provider_profiles(subscription_expires_at)
+  WHERE verification_status = 'APPROVED' AND is_suspended = false;
+
+-- Nothing set subscription_expires_at before this, so every live provider
+-- has NULL and would drop out of listings on deploy. Approved providers are
+-- grandfathered with 30 days to subscribe; staff can extend that through
+-- POST /api/v1/admin/providers/:providerId/subscription-grants.
+INSERT INTO subscription_events (provider_id, event_type, reference)
+SELECT id, 'ADMIN_GRANT', 'grandfathered'
+FROM provider_profiles
+WHERE verification_status = 'APPROVED' AND subscription_expires_at IS NULL;
+
+UPDATE provider_profiles
+SET subscription_expires_at = now() + interval '30 days',
+    updated_at = now()
+WHERE verification_status = 'APPROVED' AND subscription_expires_at IS NULL;
+
+COMMIT;
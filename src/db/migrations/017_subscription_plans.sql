@@ -0,0 +1,63 @@
+BEGIN;
+
+DO $$ BEGIN
+  CREATE TYPE payment_status AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'REFUNDED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- Plans providers can buy. Amounts are in minor units (kobo for NGN).
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text,
+  duration_days int NOT NULL CHECK (duration_days > 0),
+  price bigint NOT NULL CHECK (price > 0),
+  currency text NOT NULL DEFAULT 'NGN',
+  -- e.g. ["Listed on the home page", "Up to 20 photos"]
+  perks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One row per checkout attempt. reference is ours and is sent to the gateway.
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider_id uuid NOT NULL REFERENCES provider_profiles(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES subscription_plans(id),
+  gateway text NOT NULL,
+  reference text NOT NULL UNIQUE,
+  amount bigint NOT NULL,
+  currency text NOT NULL,
+  status payment_status NOT NULL DEFAULT 'PENDING',
+  checkout_url text,
+  paid_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_provider ON payments(provider_id, created_at DESC);
+
+ALTER TABLE subscription_events ADD COLUMN IF NOT EXISTS payment_id uuid REFERENCES payments(id) ON DELETE SET NULL;
+ALTER TABLE subscription_events ADD COLUMN IF NOT EXISTS plan_id uuid REFERENCES subscription_plans(id) ON DELETE SET NULL;
+ALTER TABLE subscription_events ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+INSERT INTO subscription_plans (code, name, description, duration_days, price, perks, sort_order) VALUES
+  ('weekly', 'Weekly', 'Try it out for a week', 7, 300000,
+    '["Listed on the home page and in search"]'::jsonb, 1),
+  ('monthly', 'Monthly', 'Our most popular plan', 30, 1000000,
+    '["Listed on the home page and in search", "Post to the feed"]'::jsonb, 2),
+  ('quarterly', 'Quarterly', 'Three months for the price of two and a half', 90, 2500000,
+    '["Listed on the home page and in search", "Post to the feed", "Best value"]'::jsonb, 3)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO permissions (key, description) VALUES
+  ('billing.manage', 'Manage subscription plans and view payments')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO staff_role_permissions (role_id, permission_key)
+SELECT r.id, 'billing.manage' FROM staff_roles r WHERE r.name = 'Super Admin'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Enum values can't be added inside a transaction block on older Postgres
+ALTER TYPE subscription_event_type ADD VALUE IF NOT EXISTS 'REFUNDED';
+
+BEGIN;
+
+-- Every verified webhook delivery from a payment gateway. event_key is the
+-- gateway's own id for the event, so redeliveries are recognised and skipped.
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  gateway text NOT NULL,
+  event_key text NOT NULL,
+  event_type text NOT NULL,
+  -- payments.reference (ours); not a foreign key, events can arrive for
+  -- payments we don't know about
+  reference text,
+  amount bigint,
+  currency text,
+  payload jsonb NOT NULL,
+  outcome text,
+  processed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (gateway, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_reference ON payment_events(reference);
+
+COMMIT;
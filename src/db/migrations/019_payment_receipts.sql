@@ -0,0 +1,16 @@
+BEGIN;
+
+-- Human-friendly, sequential receipt numbers, assigned when a payment succeeds
+CREATE SEQUENCE IF NOT EXISTS payment_receipt_seq;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS receipt_number text UNIQUE;
+
+UPDATE payments
+SET receipt_number = 'VRB-' || to_char(COALESCE(paid_at, created_at), 'YYYY') || '-'
+                     || lpad(nextval('payment_receipt_seq')::text, 6, '0')
+WHERE receipt_number IS NULL AND status IN ('SUCCEEDED', 'REFUNDED');
+
+-- Revenue reports bucket subscription events by time
+CREATE INDEX IF NOT EXISTS idx_subscription_events_created_at ON subscription_events(created_at);
+
+COMMIT;
@@ -0,0 +1,78 @@
+-- Enum values can't be added inside a transaction block on older Postgres
+ALTER TYPE subscription_event_type ADD VALUE IF NOT EXISTS 'REFERRAL_CREDIT';
+ALTER TYPE subscription_event_type ADD VALUE IF NOT EXISTS 'REFERRAL_REVERSED';
+
+BEGIN;
+
+DO $$ BEGIN
+  CREATE TYPE referral_status AS ENUM ('PENDING', 'REWARDED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE TYPE promo_discount_type AS ENUM ('PERCENT', 'FIXED');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- Every provider gets a code to share. provider_identity.referral_code keeps
+-- whatever the provider typed in at registration.
+ALTER TABLE provider_profiles ADD COLUMN IF NOT EXISTS referral_code text;
+
+UPDATE provider_profiles
+SET referral_code = upper(substr(md5(id::text || random()::text), 1, 8))
+WHERE referral_code IS NULL;
+
+ALTER TABLE provider_profiles ALTER COLUMN referral_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_provider_profiles_referral_code
+  ON provider_profiles(referral_code);
+
+-- Who referred whom. A provider can only be referred once.
+CREATE TABLE IF NOT EXISTS referrals (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  referrer_provider_id uuid NOT NULL REFERENCES provider_profiles(id) ON DELETE CASCADE,
+  referred_provider_id uuid NOT NULL UNIQUE REFERENCES provider_profiles(id) ON DELETE CASCADE,
+  status referral_status NOT NULL DEFAULT 'PENDING',
+  reward_days int,
+  -- The referred provider's first successful payment
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  rewarded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (referrer_provider_id <> referred_provider_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer ON referrals(referrer_provider_id, created_at DESC);
+
+-- Admin-managed discounts applied at checkout. Codes are stored uppercase.
+-- PERCENT: discount_value is 1-99. FIXED: discount_value is in minor units of
+-- currency and only applies to plans priced in that currency.
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text NOT NULL UNIQUE,
+  description text,
+  discount_type promo_discount_type NOT NULL,
+  discount_value bigint NOT NULL CHECK (discount_value > 0),
+  currency text,
+  -- NULL: any plan
+  plan_codes text[],
+  max_redemptions int CHECK (max_redemptions > 0),
+  max_redemptions_per_provider int NOT NULL DEFAULT 1 CHECK (max_redemptions_per_provider > 0),
+  starts_at timestamptz,
+  expires_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'PERCENT' OR discount_value < 100),
+  CHECK (discount_type <> 'FIXED' OR currency IS NOT NULL)
+);
+
+-- payments.amount is what the gateway charges; list_price is the plan price
+-- before any discount
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS list_price bigint;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS discount_amount bigint NOT NULL DEFAULT 0;
+
+UPDATE payments SET list_price = amount WHERE list_price IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_promo_code ON payments(promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+COMMIT;
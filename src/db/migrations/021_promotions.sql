@@ -0,0 +1,51 @@
+-- Enum values can't be added inside a transaction block on older Postgres
+ALTER TYPE subscription_event_type ADD VALUE IF NOT EXISTS 'PROMOTION_PURCHASED';
+
+BEGIN;
+
+DO $$ BEGIN
+  CREATE TYPE plan_kind AS ENUM ('SUBSCRIPTION', 'FEATURED', 'BOOST');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE TYPE promotion_type AS ENUM ('FEATURED', 'BOOST');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- Plans double as the catalogue of paid placements. FEATURED and BOOST plans
+-- buy a provider_promotions row for duration_days instead of subscription time.
+ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS kind plan_kind NOT NULL DEFAULT 'SUBSCRIPTION';
+
+-- FEATURED: pinned to the top of the listing in one city.
+-- BOOST: ranked above everyone not featured, anywhere.
+-- Paid placements link their payment; admin grants record who granted them.
+CREATE TABLE IF NOT EXISTS provider_promotions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider_id uuid NOT NULL REFERENCES provider_profiles(id) ON DELETE CASCADE,
+  type promotion_type NOT NULL,
+  city text,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  payment_id uuid UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+  granted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  note text,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  CHECK (type <> 'FEATURED' OR city IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_promotions_active
+  ON provider_promotions(provider_id, type, ends_at)
+  WHERE cancelled_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_provider_promotions_ends_at
+  ON provider_promotions(ends_at DESC);
+
+INSERT INTO subscription_plans (code, name, description, duration_days, price, perks, sort_order, kind) VALUES
+  ('featured-weekly', 'Featured (7 days)', 'Pinned to the top of your city''s listing', 7, 500000,
+    '["Top of the listing in your city", "Featured badge"]'::jsonb, 10, 'FEATURED'),
+  ('boost-3d', 'Boost (3 days)', 'Rank above regular profiles everywhere', 3, 150000,
+    '["Shown before regular profiles"]'::jsonb, 20, 'BOOST')
+ON CONFLICT (code) DO NOTHING;
+
+COMMIT;
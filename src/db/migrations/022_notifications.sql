@@ -0,0 +1,22 @@
+BEGIN;
+
+-- In-app notifications. dedupe_key identifies the thing being announced
+-- (e.g. "subscription-expiring:<provider>:<expiry>:7") so scheduled jobs can
+-- rerun without notifying twice; emails are only queued alongside a
+-- notification that was actually inserted.
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key text UNIQUE,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,31 @@
+BEGIN;
+
+-- Every file in storage, keyed by its content-addressed storage key
+-- ("images/ab/<sha256>.jpg"). The same bytes uploaded twice share a row.
+CREATE TABLE IF NOT EXISTS media_objects (
+  storage_key text PRIMARY KEY,
+  driver text NOT NULL,
+  url text NOT NULL,
+  sha256 text NOT NULL,
+  mime_type text NOT NULL,
+  media_type media_type NOT NULL,
+  size_bytes bigint NOT NULL,
+  -- NULL for anonymous uploads made during registration
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_objects_url ON media_objects(url);
+
+-- provider_media rows pointing at our storage carry its key; external URLs
+-- (and rows not yet migrated off data URIs) leave these NULL.
+ALTER TABLE provider_media ADD COLUMN IF NOT EXISTS storage_key text;
+ALTER TABLE provider_media ADD COLUMN IF NOT EXISTS mime_type text;
+ALTER TABLE provider_media ADD COLUMN IF NOT EXISTS size_bytes bigint;
+
+CREATE INDEX IF NOT EXISTS idx_provider_media_storage_key ON provider_media(storage_key) WHERE storage_key IS NOT NULL;
+
+-- Found by `npm run media:extract-data-uris`, which moves them into storage
+CREATE INDEX IF NOT EXISTS idx_provider_media_data_uri ON provider_media(id) WHERE url LIKE 'data:%';
+
+COMMIT;
@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Image renditions (thumb/card/full, each as WebP and JPEG), shaped like
+-- ImageRenditions in utils/storage/images.ts. NULL for videos and for
+-- images stored before processing existed; `npm run media:process-images`
+-- fills those in.
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS width int;
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS height int;
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS renditions jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_media_objects_unprocessed
+  ON media_objects(created_at)
+  WHERE media_type = 'IMAGE' AND renditions IS NULL;
+
+COMMIT;
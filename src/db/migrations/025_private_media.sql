@@ -0,0 +1,36 @@
+BEGIN;
+
+DO $$ BEGIN
+  CREATE TYPE private_media_kind AS ENUM ('VERIFICATION_SELFIE');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Identity documents, stored in private storage (see utils/storage/private.ts).
+-- provider_id is NULL until a registration claims the upload, and again if
+-- the account is deleted; the purge job removes such rows.
+CREATE TABLE IF NOT EXISTS private_media (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider_id uuid REFERENCES provider_profiles(id) ON DELETE SET NULL,
+  kind private_media_kind NOT NULL,
+  storage_key text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL,
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  -- Set on approval; the file is deleted after this, the row kept
+  purge_after timestamptz,
+  purged_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_private_media_provider ON private_media(provider_id);
+CREATE INDEX IF NOT EXISTS idx_private_media_purge
+  ON private_media(purge_after) WHERE purged_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_private_media_unclaimed
+  ON private_media(created_at) WHERE provider_id IS NULL;
+
+-- verification_selfie_media_id stays for selfies still sitting in
+-- provider_media; `npm run media:privatize-selfies` moves them over.
+ALTER TABLE provider_identity
+  ADD COLUMN IF NOT EXISTS verification_selfie_private_id uuid REFERENCES private_media(id) ON DELETE SET NULL;
+
+COMMIT;
@@ -0,0 +1,50 @@
+BEGIN;
+
+-- Explicit gallery order, 0-based per provider. Existing media keeps the
+-- order the public profile used to show: cover, avatar, then oldest first.
+ALTER TABLE provider_media ADD COLUMN IF NOT EXISTS position int;
+
+UPDATE provider_media m
+SET position = o.rn - 1
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY provider_id
+    ORDER BY is_cover DESC, is_avatar DESC, created_at, id
+  ) AS rn
+  FROM provider_media
+) o
+WHERE o.id = m.id AND m.position IS NULL;
+
+ALTER TABLE provider_media ALTER COLUMN position SET DEFAULT 0;
+ALTER TABLE provider_media ALTER COLUMN position SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_provider_media_position ON provider_media(provider_id, position);
+
+-- At most one cover and one avatar per provider; where there were several,
+-- the newest (the one listings already showed) wins
+UPDATE provider_media m SET is_cover = false
+WHERE m.is_cover AND EXISTS (
+  SELECT 1 FROM provider_media n
+  WHERE n.provider_id = m.provider_id AND n.is_cover
+    AND (n.created_at, n.id) > (m.created_at, m.id)
+);
+
+UPDATE provider_media m SET is_avatar = false
+WHERE m.is_avatar AND EXISTS (
+  SELECT 1 FROM provider_media n
+  WHERE n.provider_id = m.provider_id AND n.is_avatar
+    AND (n.created_at, n.id) > (m.created_at, m.id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_provider_media_cover ON provider_media(provider_id) WHERE is_cover;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_provider_media_avatar ON provider_media(provider_id) WHERE is_avatar;
+
+-- Media items a provider on this plan may have (cover and avatar included).
+-- NULL means no limit.
+ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS max_media int CHECK (max_media > 0);
+
+UPDATE subscription_plans
+SET max_media = CASE code WHEN 'weekly' THEN 10 WHEN 'monthly' THEN 20 WHEN 'quarterly' THEN 30 END
+WHERE code IN ('weekly', 'monthly', 'quarterly') AND max_media IS NULL;
+
+COMMIT;
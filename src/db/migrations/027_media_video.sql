@@ -0,0 +1,14 @@
+BEGIN;
+
+-- Videos are transcoded to MP4 on upload (utils/storage/videos.ts). The
+-- poster frame is stored with the same renditions as an image, in
+-- renditions; poster_url is its full-size JPEG. Videos stored before this
+-- have neither; `npm run media:process-videos` transcodes those.
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS duration_seconds numeric(7,2);
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS poster_url text;
+
+CREATE INDEX IF NOT EXISTS idx_media_objects_unprocessed_videos
+  ON media_objects(created_at)
+  WHERE media_type = 'VIDEO' AND renditions IS NULL;
+
+COMMIT;
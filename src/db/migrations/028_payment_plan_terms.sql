@@ -0,0 +1,17 @@
+BEGIN;
+
+-- What a payment buys is fixed at checkout. Plans can be edited while a
+-- payment is pending (or before it is refunded), so activation and refunds
+-- use these instead of the live plan row.
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duration_days int;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS kind plan_kind;
+
+UPDATE payments p
+SET duration_days = pl.duration_days, kind = pl.kind
+FROM subscription_plans pl
+WHERE pl.id = p.plan_id AND (p.duration_days IS NULL OR p.kind IS NULL);
+
+ALTER TABLE payments ALTER COLUMN duration_days SET NOT NULL;
+ALTER TABLE payments ALTER COLUMN kind SET NOT NULL;
+
+COMMIT;
@@ -0,0 +1,22 @@
+BEGIN;
+
+-- ID_VERIFIED means an admin reviewed the identity details and approved the
+-- provider, not just that details were submitted. Set on approval, cleared
+-- on rejection.
+ALTER TABLE provider_identity ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+
+-- Providers already approved by an admin after submitting identity details
+UPDATE provider_identity i
+SET verified_at = a.approved_at
+FROM (
+  SELECT target_provider_id, max(created_at) AS approved_at
+  FROM admin_actions
+  WHERE action = 'PROVIDER_APPROVED'
+  GROUP BY target_provider_id
+) a, provider_profiles p
+WHERE a.target_provider_id = i.provider_id
+  AND p.id = i.provider_id
+  AND p.verification_status = 'APPROVED'
+  AND i.verified_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN;
+
+-- Sent and given-up emails no longer need their payload (reset links, codes)
+UPDATE email_outbox
+SET payload = '{}'::jsonb
+WHERE status IN ('SENT', 'FAILED') AND payload <> '{}'::jsonb;
+
+COMMIT;
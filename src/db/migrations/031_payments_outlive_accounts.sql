@@ -0,0 +1,18 @@
+BEGIN;
+
+-- Payments and subscription events are financial records: deleting an
+-- account must not rewrite past revenue. They are detached from the purged
+-- provider instead of being deleted with it.
+ALTER TABLE payments ALTER COLUMN provider_id DROP NOT NULL;
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_provider_id_fkey;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_provider_id_fkey
+  FOREIGN KEY (provider_id) REFERENCES provider_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE subscription_events ALTER COLUMN provider_id DROP NOT NULL;
+ALTER TABLE subscription_events DROP CONSTRAINT IF EXISTS subscription_events_provider_id_fkey;
+ALTER TABLE subscription_events
+  ADD CONSTRAINT subscription_events_provider_id_fkey
+  FOREIGN KEY (provider_id) REFERENCES provider_profiles(id) ON DELETE SET NULL;
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN;
+
+-- Failed second-factor attempts are counted per account, across challenges
+-- and IPs: whoever reached this step already has the password.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_failed_count int NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_locked_until timestamptz;
+
+COMMIT;
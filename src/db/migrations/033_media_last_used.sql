@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Bumped whenever an upload is reused or a URL is resolved to the object.
+-- The unused media purge goes by this rather than created_at, so an old
+-- orphan that is uploaded again isn't deleted before the new reference lands.
+ALTER TABLE media_objects ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
+
+UPDATE media_objects SET last_used_at = created_at WHERE last_used_at IS NULL;
+
+ALTER TABLE media_objects ALTER COLUMN last_used_at SET DEFAULT now();
+ALTER TABLE media_objects ALTER COLUMN last_used_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_objects_last_used ON media_objects(last_used_at);
+
+COMMIT;
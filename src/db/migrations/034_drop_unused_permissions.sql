@@ -0,0 +1,12 @@
+BEGIN;
+
+-- Nothing checks these yet (there are no report or feed moderation routes),
+-- so granting them did nothing. Removed until those tools exist; role links
+-- go with them.
+DELETE FROM permissions WHERE key IN ('reports.resolve', 'feed.moderate');
+
+UPDATE staff_roles
+SET description = 'Looks up user accounts', updated_at = now()
+WHERE name = 'Moderator' AND description = 'Reviews feed posts and user reports';
+
+COMMIT;
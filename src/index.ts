@@ -1,6 +1,12 @@
 import "dotenv/config";
 import { app } from "./app";
 import { checkDbConnection, pool } from "./config/db";
+import { startOutboxWorker } from "./utils/mailer";
+import { startAccountPurgeWorker } from "./utils/accountDeletion";
+import { startSubscriptionExpiryWorker } from "./utils/visibility";
+import { startSubscriptionNoticeWorker } from "./utils/subscriptionNotices";
+import { startPrivateMediaPurgeWorker, startUnusedMediaPurgeWorker } from "./utils/storage";
+import { startLoginAttemptPruneWorker } from "./utils/loginThrottle";
 
 const PORT = Number(process.env.PORT || 4000);
 
@@ -12,8 +18,26 @@ async function start() {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
     });
 
+    // Retries emails that couldn't be delivered on the first attempt
+    const stopOutboxWorker = startOutboxWorker();
+    const stopAccountPurgeWorker = startAccountPurgeWorker();
+    const stopSubscriptionExpiryWorker = startSubscriptionExpiryWorker();
+    const stopSubscriptionNoticeWorker = startSubscriptionNoticeWorker();
+    // Deletes verification selfies after the retention window
+    const stopPrivateMediaPurgeWorker = startPrivateMediaPurgeWorker();
+    // Deletes uploads nothing refers to (abandoned registrations etc.)
+    const stopUnusedMediaPurgeWorker = startUnusedMediaPurgeWorker();
+    const stopLoginAttemptPruneWorker = startLoginAttemptPruneWorker();
+
     const shutdown = async () => {
       console.log("Gracefully shutting down...");
+      stopOutboxWorker();
+      stopAccountPurgeWorker();
+      stopSubscriptionExpiryWorker();
+      stopSubscriptionNoticeWorker();
+      stopPrivateMediaPurgeWorker();
+      stopUnusedMediaPurgeWorker();
+      stopLoginAttemptPruneWorker();
       server.close(async () => {
         await pool.end();
         process.exit(0);
@@ -1,10 +1,40 @@
 import { Request, Response, NextFunction } from "express";
+import { getUserPermissions, Permission } from "../utils/permissions";
 
-type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string };
+type AuthUser = { id: string; role: "GUEST" | "PROVIDER" | "ADMIN"; email?: string; mfa?: boolean };
 type AuthedRequest = Request & { auth?: AuthUser };
 
 export function requireAdmin(req: AuthedRequest, res: Response, next: NextFunction) {
   if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
   if (req.auth.role !== "ADMIN") return res.status(403).json({ message: "Admin only" });
+  // Admin tokens must have been minted after a second factor
+  if (!req.auth.mfa) {
+    return res.status(403).json({
+      message: "Two-factor authentication required",
+      code: "MFA_REQUIRED",
+    });
+  }
   return next();
 }
+
+/**
+ * Admin + every listed permission (granted through staff roles).
+ * Implies requireAdmin.
+ */
+export function requirePermission(...required: Permission[]) {
+  return (req: AuthedRequest, res: Response, next: NextFunction) =>
+    requireAdmin(req, res, async () => {
+      const granted = await getUserPermissions(req.auth!.id);
+      const missing = required.filter((p) => !granted.includes(p));
+
+      if (missing.length) {
+        return res.status(403).json({
+          message: "Missing permission",
+          code: "PERMISSION_DENIED",
+          missing,
+        });
+      }
+
+      return next();
+    });
+}
@@ -1,17 +1,21 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyAccessToken } from "../utils/jwt";
+import { pool } from "../config/db";
+import { touchSession } from "../utils/sessions";
 
 type AuthUser = {
   id: string;
   role: "GUEST" | "PROVIDER" | "ADMIN";
   email?: string;
+  sessionId?: string;
+  mfa?: boolean;
 };
 
 type AuthedRequest = Request & {
   auth?: AuthUser;
 };
 
-export function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+export async function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header?.startsWith("Bearer ")) {
     return res.status(401).json({ message: "Missing Authorization header" });
@@ -19,15 +23,55 @@ export function requireAuth(req: AuthedRequest, res: Response, next: NextFunctio
 
   const token = header.slice("Bearer ".length).trim();
 
+  let payload;
   try {
-    const payload = verifyAccessToken(token);
+    payload = verifyAccessToken(token);
+  } catch {
+    return res.status(401).json({ message: "Invalid or expired token" });
+  }
 
-    req.auth = { id: payload.sub, role: payload.role };
+  // Signed-out devices must stop working before their access token expires
+  if (payload.sid && !(await touchSession(payload.sid, payload.sub))) {
+    return res.status(401).json({ message: "Session has been revoked" });
+  }
 
-    return next();
+  req.auth = {
+    id: payload.sub,
+    role: payload.role,
+    sessionId: payload.sid,
+    mfa: payload.mfa,
+  };
+
+  return next();
+}
+
+/**
+ * Attaches req.auth when a valid bearer token is present, otherwise carries
+ * on anonymously. For public routes that personalise their response.
+ */
+export async function optionalAuth(req: AuthedRequest, _res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  const token = header.slice("Bearer ".length).trim();
+
+  let payload;
+  try {
+    payload = verifyAccessToken(token);
   } catch {
-    return res.status(401).json({ message: "Invalid or expired token" });
+    return next();
   }
+
+  if (payload.sid && !(await touchSession(payload.sid, payload.sub))) return next();
+
+  req.auth = {
+    id: payload.sub,
+    role: payload.role,
+    sessionId: payload.sid,
+    mfa: payload.mfa,
+  };
+
+  return next();
 }
 
 export function requireRole(...roles: Array<"GUEST" | "PROVIDER" | "ADMIN">) {
@@ -37,3 +81,29 @@ export function requireRole(...roles: Array<"GUEST" | "PROVIDER" | "ADMIN">) {
     return next();
   };
 }
+
+/**
+ * Blocks accounts that haven't confirmed their email via OTP.
+ * Must run after requireAuth.
+ */
+export async function requireVerifiedEmail(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  if (!req.auth) return res.status(401).json({ message: "Unauthorized" });
+
+  const r = await pool.query(
+    `SELECT email_verified_at FROM users WHERE id = $1 LIMIT 1`,
+    [req.auth.id],
+  );
+
+  if (!r.rows[0]?.email_verified_at) {
+    return res.status(403).json({
+      message: "Verify your email to continue",
+      code: "EMAIL_NOT_VERIFIED",
+    });
+  }
+
+  return next();
+}
@@ -21,3 +21,19 @@ export const registerLimiter = rateLimit({
   legacyHeaders: false,
   message: { message: "Too many registration attempts. Try again later." },
 });
+
+export const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many verification attempts. Try again later." },
+});
+
+export const uploadLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many uploads. Try again later." },
+});
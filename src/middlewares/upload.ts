@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { MAX_UPLOAD_BYTES } from "../utils/storage";
+
+// Kept in memory: files are hashed and sniffed before anything is written
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 10 },
+});
+
+/**
+ * Parses a multipart/form-data body with one file in `field`
+ * (available as req.file). Per-type size limits are checked later, once the
+ * file's real type is known; this only caps the absolute maximum.
+ */
+export function singleUpload(field = "file") {
+  const handler = upload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: "File too large" });
+        }
+        return res.status(400).json({ message: `Invalid upload: ${err.message}` });
+      }
+      return next(err);
+    });
+  };
+}
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { requireAuth } from "../middlewares/auth";
-import { requireAdmin } from "../middlewares/adminOnly";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
 import { verifyBlacklistEntry } from "../controllers/admin.blacklist.controllers";
 
 const router = Router();
@@ -32,10 +32,10 @@ router.use(requireAuth, requireAdmin);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Admin only
+ *         description: Admin access or permission required
  *       404:
  *         description: Blacklist entry not found
  */
-router.post("/blacklist/:entryId/verify", verifyBlacklistEntry);
+router.post("/blacklist/:entryId/verify", requirePermission("blacklist.verify"), verifyBlacklistEntry);
 
 export default router;
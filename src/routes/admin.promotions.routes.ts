@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { requireAuth } from "../middlewares/auth";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
+import {
+  listPromotions,
+  grantPromotion,
+  cancelPromotion,
+} from "../controllers/admin.promotions.controllers";
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+const canManageBilling = requirePermission("billing.manage");
+
+/**
+ * @openapi
+ * /api/v1/admin/promotions:
+ *   get:
+ *     summary: List featured and boosted placements
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, scheduled, ended, all]
+ *           default: active
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [FEATURED, BOOST]
+ *       - in: query
+ *         name: city
+ *         schema: { type: string }
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 50, maximum: 100 }
+ *     responses:
+ *       200:
+ *         description: Placements with their provider
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ */
+router.get("/promotions", canManageBilling, listPromotions);
+
+/**
+ * @openapi
+ * /api/v1/admin/providers/{providerId}/promotions:
+ *   post:
+ *     summary: Grant a free featured or boosted placement
+ *     description: >
+ *       FEATURED placements apply to one city (the provider's own by default)
+ *       and only while the provider's profile is in that city. Without
+ *       startsAt the placement queues after any of the same kind still running.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: providerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, days]
+ *             properties:
+ *               type: { type: string, enum: [FEATURED, BOOST] }
+ *               city: { type: string, example: "Ikeja" }
+ *               days: { type: integer, example: 7 }
+ *               startsAt: { type: string, format: date-time }
+ *               note: { type: string, example: "Launch partner" }
+ *     responses:
+ *       201:
+ *         description: Placement created
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Provider not found
+ *       409:
+ *         description: Provider not approved
+ */
+router.post("/providers/:providerId/promotions", canManageBilling, grantPromotion);
+
+/**
+ * @openapi
+ * /api/v1/admin/promotions/{promotionId}/cancel:
+ *   post:
+ *     summary: End a placement early
+ *     description: Does not refund paid placements.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promotionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Placement cancelled
+ *       404:
+ *         description: Promotion not found or already ended
+ */
+router.post("/promotions/:promotionId/cancel", canManageBilling, cancelPromotion);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { requireAuth } from "../middlewares/auth";
-import { requireAdmin } from "../middlewares/adminOnly";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
 import {
   listProviders,
   getProvider,
@@ -52,9 +52,9 @@ router.use(requireAuth, requireAdmin);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Admin access required
+ *         description: Admin access or permission required
  */
-router.get("/providers", listProviders);
+router.get("/providers", requirePermission("providers.read"), listProviders);
 
 /**
  * @openapi
@@ -63,7 +63,11 @@ router.get("/providers", listProviders);
  *     summary: Get full provider details (admin)
  *     description: >
  *       Returns the full provider onboarding data including
- *       profile info, stats, services, rates, and uploaded media.
+ *       profile info, stats, services, rates, uploaded media and the
+ *       private identity record (real name, DOB, referral code, selfie).
+ *       The selfie URL is signed and expires after a few minutes; fetch the
+ *       provider again for a fresh one. It is null once the selfie has been
+ *       purged after approval (VERIFICATION_MEDIA_RETENTION_DAYS).
  *       This endpoint is ONLY for admin review.
  *     tags: [Admin]
  *     security:
@@ -84,9 +88,9 @@ router.get("/providers", listProviders);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Admin access required
+ *         description: Admin access or permission required
  */
-router.get("/providers/:providerId", getProvider);
+router.get("/providers/:providerId", requirePermission("providers.read"), getProvider);
 
 /**
  * @openapi
@@ -125,9 +129,9 @@ router.get("/providers/:providerId", getProvider);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Admin access required
+ *         description: Admin access or permission required
  */
-router.post("/providers/:providerId/approve", approveProvider);
+router.post("/providers/:providerId/approve", requirePermission("providers.approve"), approveProvider);
 
 /**
  * @openapi
@@ -168,8 +172,8 @@ router.post("/providers/:providerId/approve", approveProvider);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Admin access required
+ *         description: Admin access or permission required
  */
-router.post("/providers/:providerId/reject", rejectProvider);
+router.post("/providers/:providerId/reject", requirePermission("providers.approve"), rejectProvider);
 
 export default router;
@@ -0,0 +1,182 @@
+import { Router } from "express";
+import { requireAuth } from "../middlewares/auth";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
+import {
+  listPermissions,
+  listStaffRoles,
+  createStaffRole,
+  updateStaffRole,
+  deleteStaffRole,
+  setUserStaffRoles,
+} from "../controllers/admin.staff.controllers";
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+const canManageStaff = requirePermission("staff.manage");
+
+/**
+ * @openapi
+ * /api/v1/admin/permissions:
+ *   get:
+ *     summary: List every permission that can be granted to a staff role
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permission keys with descriptions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ */
+router.get("/permissions", canManageStaff, listPermissions);
+
+/**
+ * @openapi
+ * /api/v1/admin/staff-roles:
+ *   get:
+ *     summary: List staff roles with their permissions and member count
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Staff roles
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ *   post:
+ *     summary: Create a staff role
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, permissions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Support
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["users.read", "providers.read"]
+ *     responses:
+ *       201:
+ *         description: Role created
+ *       400:
+ *         description: Invalid payload
+ *       409:
+ *         description: Role name already in use
+ */
+router.get("/staff-roles", canManageStaff, listStaffRoles);
+router.post("/staff-roles", canManageStaff, createStaffRole);
+
+/**
+ * @openapi
+ * /api/v1/admin/staff-roles/{roleId}:
+ *   patch:
+ *     summary: Rename a staff role or replace its permissions
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: Role name already in use
+ *   delete:
+ *     summary: Delete a staff role (members lose its permissions)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       404:
+ *         description: Role not found
+ */
+router.patch("/staff-roles/:roleId", canManageStaff, updateStaffRole);
+router.delete("/staff-roles/:roleId", canManageStaff, deleteStaffRole);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/staff-roles:
+ *   put:
+ *     summary: Replace the staff roles held by an admin user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [roleIds]
+ *             properties:
+ *               roleIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Staff roles updated
+ *       400:
+ *         description: Not an admin, unknown role, or own account
+ *       404:
+ *         description: User not found
+ */
+router.put("/users/:userId/staff-roles", canManageStaff, setUserStaffRoles);
+
+export default router;
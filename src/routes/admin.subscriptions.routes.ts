@@ -0,0 +1,311 @@
+import { Router } from "express";
+import { requireAuth } from "../middlewares/auth";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
+import {
+  listPlansAdmin,
+  createPlan,
+  updatePlan,
+  grantSubscription,
+  getRevenue,
+  listPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+} from "../controllers/admin.subscriptions.controllers";
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+const canManageBilling = requirePermission("billing.manage");
+
+/**
+ * @openapi
+ * /api/v1/admin/subscription-plans:
+ *   get:
+ *     summary: List all subscription plans, including inactive ones
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Plans with number of successful payments
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ *   post:
+ *     summary: Create a subscription plan
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, name, durationDays, price]
+ *             properties:
+ *               code: { type: string, example: "biweekly" }
+ *               name: { type: string, example: "Two weeks" }
+ *               description: { type: string }
+ *               durationDays: { type: integer, example: 14 }
+ *               price: { type: integer, description: Minor units (kobo), example: 550000 }
+ *               currency: { type: string, default: "NGN" }
+ *               perks:
+ *                 type: array
+ *                 items: { type: string }
+ *               isActive: { type: boolean, default: true }
+ *               sortOrder: { type: integer, default: 0 }
+ *               kind:
+ *                 type: string
+ *                 enum: [SUBSCRIPTION, FEATURED, BOOST]
+ *                 default: SUBSCRIPTION
+ *               maxMedia:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Photos (cover and avatar included) allowed on this plan; null for no limit
+ *     responses:
+ *       201:
+ *         description: Plan created
+ *       400:
+ *         description: Invalid payload
+ *       409:
+ *         description: Plan code already in use
+ */
+router.get("/subscription-plans", canManageBilling, listPlansAdmin);
+router.post("/subscription-plans", canManageBilling, createPlan);
+
+/**
+ * @openapi
+ * /api/v1/admin/subscription-plans/{planId}:
+ *   patch:
+ *     summary: Update a subscription plan
+ *     description: >
+ *       Code, currency and kind can't change. New prices apply to new checkouts
+ *       only. Set isActive=false to stop selling a plan.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name: { type: string }
+ *               description: { type: string }
+ *               durationDays: { type: integer }
+ *               price: { type: integer }
+ *               perks:
+ *                 type: array
+ *                 items: { type: string }
+ *               isActive: { type: boolean }
+ *               sortOrder: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Plan updated
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Plan not found
+ */
+router.patch("/subscription-plans/:planId", canManageBilling, updatePlan);
+
+/**
+ * @openapi
+ * /api/v1/admin/providers/{providerId}/subscription-grants:
+ *   post:
+ *     summary: Give a provider subscription time without a payment
+ *     description: >
+ *       Adds the days on top of any remaining subscription (or from now if it
+ *       has lapsed). Recorded as an ADMIN_GRANT subscription event and in the
+ *       admin action log with the reason.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: providerId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [days, reason]
+ *             properties:
+ *               days: { type: integer, minimum: 1, maximum: 366, example: 30 }
+ *               reason: { type: string, example: "Compensation for outage on 2 March" }
+ *     responses:
+ *       200:
+ *         description: Subscription extended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok: { type: boolean }
+ *                 providerId: { type: string, format: uuid }
+ *                 subscriptionExpiresAt: { type: string, format: date-time }
+ *       400:
+ *         description: Invalid payload
+ *       403:
+ *         description: Admin access or permission required
+ *       404:
+ *         description: Provider not found
+ */
+router.post("/providers/:providerId/subscription-grants", canManageBilling, grantSubscription);
+
+/**
+ * @openapi
+ * /api/v1/admin/promo-codes:
+ *   get:
+ *     summary: List promo codes with redemption counts
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Promo codes with successful redemptions and total discount given
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ *   post:
+ *     summary: Create a promo code
+ *     description: >
+ *       Codes are case-insensitive and stored uppercase. Redemptions count
+ *       once a payment succeeds; a pending checkout holds one for an hour.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, discountType, discountValue]
+ *             properties:
+ *               code: { type: string, example: "LAUNCH20" }
+ *               description: { type: string }
+ *               discountType: { type: string, enum: [PERCENT, FIXED] }
+ *               discountValue:
+ *                 type: integer
+ *                 description: 1-99 for PERCENT; minor units for FIXED
+ *                 example: 20
+ *               currency: { type: string, description: Required for FIXED, example: "NGN" }
+ *               planCodes:
+ *                 type: array
+ *                 items: { type: string }
+ *                 description: Only these plans; omit for all
+ *               maxRedemptions: { type: integer, description: Omit for unlimited }
+ *               maxRedemptionsPerProvider: { type: integer, default: 1 }
+ *               startsAt: { type: string, format: date-time }
+ *               expiresAt: { type: string, format: date-time }
+ *               isActive: { type: boolean, default: true }
+ *     responses:
+ *       201:
+ *         description: Promo code created
+ *       400:
+ *         description: Invalid payload
+ *       409:
+ *         description: Promo code already exists
+ */
+router.get("/promo-codes", canManageBilling, listPromoCodes);
+router.post("/promo-codes", canManageBilling, createPromoCode);
+
+/**
+ * @openapi
+ * /api/v1/admin/promo-codes/{promoCodeId}:
+ *   patch:
+ *     summary: Update a promo code
+ *     description: >
+ *       The code and discount can't change. Pass null to clear planCodes,
+ *       maxRedemptions, startsAt or expiresAt. Set isActive=false to withdraw it.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoCodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description: { type: string }
+ *               planCodes:
+ *                 type: array
+ *                 nullable: true
+ *                 items: { type: string }
+ *               maxRedemptions: { type: integer, nullable: true }
+ *               maxRedemptionsPerProvider: { type: integer }
+ *               startsAt: { type: string, format: date-time, nullable: true }
+ *               expiresAt: { type: string, format: date-time, nullable: true }
+ *               isActive: { type: boolean }
+ *     responses:
+ *       200:
+ *         description: Promo code updated
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Promo code not found
+ */
+router.patch("/promo-codes/:promoCodeId", canManageBilling, updatePromoCode);
+
+/**
+ * @openapi
+ * /api/v1/admin/revenue:
+ *   get:
+ *     summary: Subscription revenue per period
+ *     description: >
+ *       Gross (activations + renewals), refunds and net per period and
+ *       currency. Amounts are in minor units. Refunds count in the period
+ *       they were made. Defaults to the last 12 months.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: month
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date }
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date }
+ *     responses:
+ *       200:
+ *         description: Revenue per period with totals per currency
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ */
+router.get("/revenue", canManageBilling, getRevenue);
+
+export default router;
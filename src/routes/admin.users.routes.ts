@@ -0,0 +1,235 @@
+import { Router } from "express";
+import { requireAuth } from "../middlewares/auth";
+import { requireAdmin, requirePermission } from "../middlewares/adminOnly";
+import {
+  listUsers,
+  getUser,
+  changeUserRole,
+  forcePasswordReset,
+  disableUser,
+  enableUser,
+  unlockUser,
+} from "../controllers/admin.users.controllers";
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+/**
+ * @openapi
+ * /api/v1/admin/users:
+ *   get:
+ *     summary: Search users (admin)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches email, display name or id
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [GUEST, PROVIDER, ADMIN]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, disabled, locked, pending_deletion]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: List of users
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ */
+router.get("/users", requirePermission("users.read"), listUsers);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}:
+ *   get:
+ *     summary: Get a user with activity summary and audit trail (admin)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User details
+ *       404:
+ *         description: User not found
+ */
+router.get("/users/:userId", requirePermission("users.read"), getUser);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/role:
+ *   patch:
+ *     summary: Change a user's role
+ *     description: >
+ *       Signs the user out everywhere so new tokens carry the new role.
+ *       Admins can't change their own role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [GUEST, PROVIDER, ADMIN]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       404:
+ *         description: User not found
+ */
+router.patch("/users/:userId/role", requirePermission("users.manage"), changeUserRole);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/force-password-reset:
+ *   post:
+ *     summary: Force a password reset
+ *     description: >
+ *       The current password stops working immediately, all sessions are
+ *       revoked and the user is emailed a reset link valid for 24 hours.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reset link sent
+ *       404:
+ *         description: User not found
+ */
+router.post("/users/:userId/force-password-reset", requirePermission("users.manage"), forcePasswordReset);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/disable:
+ *   post:
+ *     summary: Disable (ban) an account
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Repeated scam reports
+ *     responses:
+ *       200:
+ *         description: Account disabled
+ *       404:
+ *         description: User not found
+ */
+router.post("/users/:userId/disable", requirePermission("users.manage"), disableUser);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/enable:
+ *   post:
+ *     summary: Re-enable a disabled account
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Account enabled
+ *       404:
+ *         description: User not found
+ */
+router.post("/users/:userId/enable", requirePermission("users.manage"), enableUser);
+
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/unlock:
+ *   post:
+ *     summary: Unlock an account locked after failed logins
+ *     description: >
+ *       Clears the lockout and failed-attempt counter so the user can sign in
+ *       immediately. Recorded in the admin audit trail.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       404:
+ *         description: User not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access or permission required
+ */
+router.post("/users/:userId/unlock", requirePermission("users.manage"), unlockUser);
+
+export default router;
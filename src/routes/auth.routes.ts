@@ -5,12 +5,35 @@ import {
   login,
   me,
   logout,
+  refresh,
+  listSessions,
+  deleteSession,
+  deleteAllSessions,
+  sendOtp,
+  resendOtp,
+  verifyEmailOtp,
   forgotPassword,
   resetPassword,
   changePassword,
+  changeEmail,
+  confirmEmailChange,
+  cancelEmailChange,
+  exportMyData,
+  requestAccountDeletion,
+  cancelAccountDeletion,
 } from "../controllers/auth.controllers";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  verifyTwoFactorLogin,
+} from "../controllers/twoFactor.controllers";
 import { requireAuth } from "../middlewares/auth";
-import { loginLimiter, registerLimiter } from "../middlewares/rateLimit";
+import {
+  loginLimiter,
+  registerLimiter,
+  twoFactorLimiter,
+} from "../middlewares/rateLimit";
 
 const router = Router();
 
@@ -94,8 +117,11 @@ router.post("/register-guest", registerLimiter, registerGuest);
  *               referralCode:
  *                 type: string
  *                 nullable: true
- *                 description: Optional referral code
- *                 example: REF12345
+ *                 description: >
+ *                   Another provider's referral code. They get free subscription
+ *                   days once this provider's first payment clears. Unknown codes
+ *                   are rejected with 400.
+ *                 example: K7MP2QXA
  *               realName:
  *                 type: string
  *                 example: Amaka Nwoye
@@ -162,6 +188,7 @@ router.post("/register-guest", registerLimiter, registerGuest);
  *                 example: "https://example.com/profile.jpg"
  *               galleryImages:
  *                 type: array
+ *                 description: Image or video URLs from POST /api/v1/media
  *                 items:
  *                   type: string
  *                 example:
@@ -170,7 +197,10 @@ router.post("/register-guest", registerLimiter, registerGuest);
  *                   - "https://example.com/g3.jpg"
  *               verificationSelfie:
  *                 type: string
- *                 example: "https://example.com/verify.jpg"
+ *                 description: >
+ *                   ref returned by POST /api/v1/media/private (a base64
+ *                   data URI also works). Public URLs are rejected.
+ *                 example: "private:7b1d2c3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e"
  *     responses:
  *       201:
  *         description: Provider account created (Pending Verification)
@@ -203,9 +233,135 @@ router.post("/register-provider", registerLimiter, registerProvider);
  *                 example: "123456"
  *     responses:
  *       200:
- *         description: OK
+ *         description: >
+ *           Tokens, or { twoFactorRequired: true, challengeToken } when the
+ *           account has two-factor authentication enabled
+ *       401:
+ *         description: Invalid credentials
+ *       429:
+ *         description: >
+ *           Too many attempts from this IP, or the email is temporarily
+ *           locked / throttled after repeated failures (whether or not an
+ *           account exists for it)
+ */
+router.post("/login", loginLimiter, login);
+
+/**
+ * @openapi
+ * /api/v1/auth/2fa/verify-login:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: >
+ *       Exchanges the challengeToken returned by /login plus a 6-digit TOTP
+ *       code (or a one-time recovery code) for access and refresh tokens.
+ *       After 5 wrong codes in a row the account's second factor is locked
+ *       for 15 minutes, whichever challenge or IP the attempts came from.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: "a1b2c-3d4e5"
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       429:
+ *         description: Too many invalid codes; see Retry-After
+ */
+router.post("/2fa/verify-login", twoFactorLimiter, verifyTwoFactorLogin);
+
+/**
+ * @openapi
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: >
+ *       Returns a TOTP secret and otpauth:// URI to show as a QR code.
+ *       Mandatory for admins (admin routes reject sessions without a second
+ *       factor), optional for everyone else.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URI
+ *       409:
+ *         description: Already enabled
+ */
+router.post("/2fa/setup", requireAuth, setupTwoFactor);
+
+/**
+ * @openapi
+ * /api/v1/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: >
+ *       Verifies the first code from the authenticator app. Returns recovery
+ *       codes (shown only once) and a new access token for the current session
+ *       with the second factor recorded.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Enabled
+ *       400:
+ *         description: Invalid code or setup not started
+ */
+router.post("/2fa/enable", requireAuth, twoFactorLimiter, enableTwoFactor);
+
+/**
+ * @openapi
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication (not allowed for admins)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password, code]
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       403:
+ *         description: Admins can't disable two-factor authentication
  */
-router.post("/login", login);
+router.post("/2fa/disable", requireAuth, twoFactorLimiter, disableTwoFactor);
 
 /**
  * @openapi
@@ -221,11 +377,106 @@ router.post("/login", login);
  */
 router.get("/me", requireAuth, me);
 
+/**
+ * @openapi
+ * /api/v1/auth/me/export:
+ *   get:
+ *     summary: Download all my personal data
+ *     description: >
+ *       Returns a JSON file with the account, provider profile, media,
+ *       favorites, messages, comments, reviews, reports and sessions tied to
+ *       the current user.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: JSON export (sent as an attachment)
+ */
+router.get("/me/export", requireAuth, exportMyData);
+
+/**
+ * @openapi
+ * /api/v1/auth/me:
+ *   delete:
+ *     summary: Delete my account
+ *     description: >
+ *       Requires the current password. The account is hidden and signed out
+ *       everywhere immediately, and permanently deleted after the grace period
+ *       (14 days by default). Provider media and private profile data are
+ *       hard-deleted; messages and comments remain but are anonymised.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Deletion scheduled
+ *       401:
+ *         description: Password is incorrect
+ */
+router.delete("/me", requireAuth, requestAccountDeletion);
+
+/**
+ * @openapi
+ * /api/v1/auth/me/restore:
+ *   post:
+ *     summary: Cancel a pending account deletion
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deletion cancelled
+ *       400:
+ *         description: No pending deletion
+ */
+router.post("/me/restore", requireAuth, cancelAccountDeletion);
+
+/**
+ * @openapi
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: >
+ *       Refresh tokens are single-use. Each call returns a new access token and
+ *       a new refresh token. Replaying a refresh token that was already used
+ *       revokes the whole session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: 9f1c2e...
+ *     responses:
+ *       200:
+ *         description: New access and refresh tokens
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ */
+router.post("/refresh", refresh);
+
 /**
  * @openapi
  * /api/v1/auth/logout:
  *   post:
  *     summary: Logout current user
+ *     description: Revokes the session the access token belongs to.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -235,6 +486,134 @@ router.get("/me", requireAuth, me);
  */
 router.post("/logout", requireAuth, logout);
 
+/**
+ * @openapi
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List devices the current user is signed in on
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions (the caller's own is flagged current=true)
+ */
+router.get("/sessions", requireAuth, listSessions);
+
+/**
+ * @openapi
+ * /api/v1/auth/sessions:
+ *   delete:
+ *     summary: Sign out everywhere
+ *     description: Revokes every session of the current user, including this one.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ */
+router.delete("/sessions", requireAuth, deleteAllSessions);
+
+/**
+ * @openapi
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out a single device
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found or already revoked
+ */
+router.delete("/sessions/:sessionId", requireAuth, deleteSession);
+
+/**
+ * @openapi
+ * /api/v1/auth/otp/send:
+ *   post:
+ *     summary: Send an email verification code to the current user
+ *     description: >
+ *       Issues a new 6-digit code (valid 10 minutes) and invalidates any
+ *       previous one. Limited to one code per minute.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       400:
+ *         description: Email already verified
+ *       429:
+ *         description: Requested too soon after the previous code
+ */
+router.post("/otp/send", requireAuth, sendOtp);
+
+/**
+ * @openapi
+ * /api/v1/auth/otp/resend:
+ *   post:
+ *     summary: Resend an email verification code by email address
+ *     description: >
+ *       Public. Always returns 200 whether or not the email exists or is
+ *       already verified.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: guest@test.com
+ *     responses:
+ *       200:
+ *         description: Code sent if the account exists and is unverified
+ */
+router.post("/otp/resend", registerLimiter, resendOtp);
+
+/**
+ * @openapi
+ * /api/v1/auth/otp/verify:
+ *   post:
+ *     summary: Verify email with the 6-digit code
+ *     description: A code is locked after 5 wrong attempts.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, code]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: guest@test.com
+ *               code:
+ *                 type: string
+ *                 example: "482913"
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Incorrect, expired or locked code
+ */
+router.post("/otp/verify", verifyEmailOtp);
+
 /**
  * @openapi
  * /api/v1/auth/forgot-password:
@@ -280,7 +659,7 @@ router.post("/forgot-password", forgotPassword);
  *                 example: NewStrongPass123!
  *     responses:
  *       200:
- *         description: Password reset successful
+ *         description: Password reset successful. All sessions are signed out.
  */
 router.post("/reset-password", resetPassword);
 
@@ -308,8 +687,110 @@ router.post("/reset-password", resetPassword);
  *                 example: NewStrongPass123!
  *     responses:
  *       200:
- *         description: Password changed successfully
+ *         description: Password changed successfully. Other sessions are signed out.
  */
 router.post("/change-password", requireAuth, changePassword);
 
+/**
+ * @openapi
+ * /api/v1/auth/change-email:
+ *   post:
+ *     summary: Request an email address change
+ *     description: >
+ *       Sends a confirmation link to the new address and a cancel link to the
+ *       current one. The email only changes once the new address confirms
+ *       (link valid 24 hours).
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newEmail]
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newEmail:
+ *                 type: string
+ *                 example: new@test.com
+ *     responses:
+ *       200:
+ *         description: Confirmation sent
+ *       401:
+ *         description: Current password is incorrect
+ *       409:
+ *         description: Email already in use
+ */
+router.post("/change-email", requireAuth, changeEmail);
+
+/**
+ * @openapi
+ * /api/v1/auth/change-email/confirm:
+ *   post:
+ *     summary: Confirm an email change (token from the new address)
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email changed
+ *       400:
+ *         description: Invalid, expired or cancelled token
+ *       409:
+ *         description: Email was taken in the meantime
+ */
+router.post("/change-email/confirm", confirmEmailChange);
+
+/**
+ * @openapi
+ * /api/v1/auth/change-email/cancel:
+ *   post:
+ *     summary: Cancel an email change (token from the old address)
+ *     description: >
+ *       Also signs out every session of the account. Works for
+ *       EMAIL_CHANGE_UNDO_DAYS (default 7) after the new address confirmed:
+ *       the old email is restored, the password is replaced and a reset
+ *       link is sent to the old address.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Change cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                 reverted:
+ *                   type: boolean
+ *                   description: True if a confirmed change was undone
+ *       400:
+ *         description: Invalid token or change can no longer be undone
+ *       409:
+ *         description: The old email now belongs to another account
+ */
+router.post("/change-email/cancel", cancelEmailChange);
+
 export default router;
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { requireAuth } from "../middlewares/auth";
+import { requireAuth, requireVerifiedEmail } from "../middlewares/auth";
 import {
   listBlacklist,
   getBlacklist,
@@ -122,8 +122,8 @@ router.get("/:id", getBlacklist);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Providers only
+ *         description: Providers only / email not verified
  */
-router.post("/", requireAuth, createBlacklist);
+router.post("/", requireAuth, requireVerifiedEmail, createBlacklist);
 
 export default router;
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { requireAuth } from "../middlewares/auth";
+import { requireAuth, requireVerifiedEmail } from "../middlewares/auth";
 import {
   createOrGetChat,
   listChats,
@@ -38,8 +38,10 @@ router.use(requireAuth);
  *     responses:
  *       201:
  *         description: Conversation created or returned
+ *       403:
+ *         description: Email not verified, or caller is not a client
  */
-router.post("/", createOrGetChat);
+router.post("/", requireVerifiedEmail, createOrGetChat);
 
 /**
  * @openapi
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { requireAuth } from "../middlewares/auth";
+import { requireAuth, requireVerifiedEmail } from "../middlewares/auth";
 import {
   addComment,
   createFeedPost,
@@ -30,7 +30,7 @@ router.get("/", listFeed);
  *     security:
  *       - bearerAuth: []
  */
-router.post("/", requireAuth, createFeedPost);
+router.post("/", requireAuth, requireVerifiedEmail, createFeedPost);
 
 /**
  * @openapi
@@ -0,0 +1,157 @@
+import { Router } from "express";
+import { optionalAuth } from "../middlewares/auth";
+import { uploadLimiter } from "../middlewares/rateLimit";
+import { singleUpload } from "../middlewares/upload";
+import {
+  getPrivateMedia,
+  uploadMedia,
+  uploadPrivateMedia,
+} from "../controllers/media.controllers";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/media:
+ *   post:
+ *     summary: Upload an image or video
+ *     description: >
+ *       Returns a URL to use in place of base64 data URIs wherever the API
+ *       takes media (registration, profile gallery, feed posts). The file type
+ *       is detected from its content: JPEG, PNG, WebP and GIF images (10 MB
+ *       max by default), MP4, MOV and WebM videos (50 MB). Files are named by
+ *       their SHA-256, so re-uploading the same file returns the same URL.
+ *       Images are stored with orientation applied and all metadata (EXIF,
+ *       GPS) removed, and get thumb, card and full renditions. Videos (60
+ *       seconds max by default) are transcoded to H.264 MP4 without metadata
+ *       and get a poster frame with the same renditions, so video uploads can
+ *       take a while.
+ *       Works without a token so providers can upload while registering.
+ *     tags: [Media]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Stored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url: { type: string, format: uri }
+ *                 key: { type: string, example: "images/3f/3f9a...c1.jpg" }
+ *                 type: { type: string, enum: [IMAGE, VIDEO] }
+ *                 mimeType: { type: string, example: "image/jpeg" }
+ *                 sizeBytes: { type: integer }
+ *                 sha256: { type: string }
+ *                 width: { type: integer, nullable: true }
+ *                 height: { type: integer, nullable: true }
+ *                 renditions: { $ref: '#/components/schemas/ImageRenditions' }
+ *                 durationSeconds: { type: number, nullable: true, description: Videos only }
+ *                 posterUrl: { type: string, nullable: true, description: Videos only; full-size JPEG }
+ *       400:
+ *         description: No file sent, or a video longer than allowed
+ *       413:
+ *         description: File too large for its type
+ *       415:
+ *         description: Unsupported file type, or an image or video that can't be decoded
+ *       429:
+ *         description: Too many uploads
+ */
+router.post("/", uploadLimiter, optionalAuth, singleUpload("file"), uploadMedia);
+
+/**
+ * @openapi
+ * /api/v1/media/private:
+ *   post:
+ *     summary: Upload a verification selfie
+ *     description: >
+ *       Stores the image in private storage with its metadata removed and
+ *       returns a reference to pass as verificationSelfie when registering.
+ *       No URL is returned; admins view the file through short-lived signed
+ *       links, and it is deleted a while after the provider is approved.
+ *       References not used by a registration within 24 hours expire.
+ *     tags: [Media]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Stored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ref: { type: string, example: "private:7b1d2c3e-...-9f" }
+ *                 kind: { type: string, enum: [VERIFICATION_SELFIE] }
+ *                 mimeType: { type: string, example: "image/jpeg" }
+ *                 sizeBytes: { type: integer }
+ *       400:
+ *         description: No file sent
+ *       413:
+ *         description: Image too large
+ *       415:
+ *         description: Not an image
+ *       429:
+ *         description: Too many uploads
+ */
+router.post("/private", uploadLimiter, optionalAuth, singleUpload("file"), uploadPrivateMedia);
+
+/**
+ * @openapi
+ * /api/v1/media/private/{key}:
+ *   get:
+ *     summary: Download a private file through a signed link
+ *     description: >
+ *       Links come from admin endpoints (e.g. the verification selfie in
+ *       GET /api/v1/admin/providers/{providerId}) and expire after a few
+ *       minutes. Only used when files are stored on local disk.
+ *     tags: [Media]
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema: { type: string }
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: The file
+ *       403:
+ *         description: Invalid or expired link
+ *       404:
+ *         description: File no longer exists
+ */
+router.get("/private/*key", getPrivateMedia);
+
+export default router;
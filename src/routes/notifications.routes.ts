@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { requireAuth } from "../middlewares/auth";
+import {
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "../controllers/notifications.controllers";
+
+const router = Router();
+
+router.use(requireAuth);
+
+/**
+ * @openapi
+ * /api/v1/notifications:
+ *   get:
+ *     summary: List my in-app notifications
+ *     description: >
+ *       Newest first. Types so far: SUBSCRIPTION_EXPIRING,
+ *       SUBSCRIPTION_EXPIRED, SUBSCRIPTION_RENEWED.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20, maximum: 100 }
+ *     responses:
+ *       200:
+ *         description: Notifications plus the total unread count
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", listNotifications);
+
+/**
+ * @openapi
+ * /api/v1/notifications/read-all:
+ *   post:
+ *     summary: Mark all my notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked read
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/read-all", markAllNotificationsRead);
+
+/**
+ * @openapi
+ * /api/v1/notifications/{notificationId}/read:
+ *   post:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Marked as read
+ *       404:
+ *         description: Notification not found
+ */
+router.post("/:notificationId/read", markNotificationRead);
+
+export default router;
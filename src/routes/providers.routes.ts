@@ -1,20 +1,220 @@
 import { Router } from "express";
-import { requireAuth } from "../middlewares/auth";
+import { requireAuth, optionalAuth } from "../middlewares/auth";
 import {
   getMyProfile,
   getMyMedia,
   updateMyProfile,
   listApprovedProviders,
+  getPublicProvider,
+  getMyVisibility,
 } from "../controllers/providers.controllers";
+import {
+  checkout,
+  confirmCheckout,
+  getMyBilling,
+  getMyReceipt,
+  getMyReferrals,
+  getMyPromotions,
+} from "../controllers/subscriptions.controllers";
+import {
+  addMyMedia,
+  deleteMyMedia,
+  reorderMyMedia,
+  setMyAvatar,
+  setMyCover,
+} from "../controllers/providerMedia.controllers";
+import { uploadLimiter } from "../middlewares/rateLimit";
+import { singleUpload } from "../middlewares/upload";
 
 const router = Router();
 
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     PublicProvider:
+ *       type: object
+ *       description: >
+ *         Public projection of a provider profile. Identity data collected
+ *         for verification is never included.
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         userId: { type: string, format: uuid }
+ *         displayName: { type: string, example: "Amaka XO" }
+ *         bio: { type: string, nullable: true }
+ *         state: { type: string, example: "Lagos" }
+ *         city: { type: string, example: "Ikeja" }
+ *         verificationStatus: { type: string, example: "APPROVED" }
+ *         verificationLevel: { type: string, enum: [BASIC, ID_VERIFIED] }
+ *         services:
+ *           type: array
+ *           items: { type: string }
+ *           example: ["GFE", "Massage"]
+ *         rates:
+ *           type: object
+ *           example: { "shortTime": 20000, "overnight": 80000, "weekend": 150000 }
+ *         stats:
+ *           type: object
+ *           description: Only age, gender, ethnicity, height, weight, bustSize, build, hairColor, eyeColor
+ *           example: { "age": 24, "height": "5'7", "build": "Slim" }
+ *         callNumber: { type: string, nullable: true }
+ *         whatsappNumber: { type: string, nullable: true }
+ *         coverUrl:
+ *           type: string
+ *           nullable: true
+ *           description: Card rendition (WebP), or the original if not processed
+ *         avatarUrl:
+ *           type: string
+ *           nullable: true
+ *           description: Thumb rendition (WebP), or the original if not processed
+ *         coverImage: { $ref: '#/components/schemas/ImageRenditions' }
+ *         avatarImage: { $ref: '#/components/schemas/ImageRenditions' }
+ *         hasVideo: { type: boolean, description: The gallery has at least one video }
+ *         createdAt: { type: string, format: date-time }
+ *     ProviderSummary:
+ *       type: object
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         userId: { type: string, format: uuid }
+ *         displayName: { type: string }
+ *         avatarUrl: { type: string, nullable: true }
+ *     ImageRenditions:
+ *       type: object
+ *       nullable: true
+ *       description: >
+ *         Resized copies of an uploaded image with metadata removed. null for
+ *         images that aren't in our storage.
+ *       properties:
+ *         thumb: { $ref: '#/components/schemas/ImageRendition' }
+ *         card: { $ref: '#/components/schemas/ImageRendition' }
+ *         full: { $ref: '#/components/schemas/ImageRendition' }
+ *     ImageRendition:
+ *       type: object
+ *       properties:
+ *         webp: { type: string }
+ *         jpeg: { type: string }
+ *         width: { type: integer }
+ *         height: { type: integer }
+ */
+
 /**
  * @openapi
  * /api/v1/providers:
  *   get:
- *     summary: List approved providers
+ *     summary: List and search visible providers
+ *     description: >
+ *       Only approved, unsuspended providers with an active subscription are
+ *       listed. All filters are optional and combined with AND.
  *     tags: [Providers]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 50, maximum: 100 }
+ *       - in: query
+ *         name: state
+ *         schema: { type: string }
+ *         description: Case-insensitive exact match
+ *       - in: query
+ *         name: city
+ *         schema: { type: string }
+ *         description: Case-insensitive exact match
+ *       - in: query
+ *         name: services
+ *         schema: { type: string }
+ *         description: Comma-separated list of services
+ *         example: GFE,Massage
+ *       - in: query
+ *         name: servicesMatch
+ *         schema: { type: string, enum: [any, all], default: any }
+ *       - in: query
+ *         name: minShortTime
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: maxShortTime
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: minOvernight
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: maxOvernight
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: minWeekend
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: maxWeekend
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: gender
+ *         schema: { type: string }
+ *       - in: query
+ *         name: ethnicity
+ *         schema: { type: string }
+ *       - in: query
+ *         name: build
+ *         schema: { type: string }
+ *       - in: query
+ *         name: hairColor
+ *         schema: { type: string }
+ *       - in: query
+ *         name: eyeColor
+ *         schema: { type: string }
+ *       - in: query
+ *         name: bustSize
+ *         schema: { type: string }
+ *       - in: query
+ *         name: minAge
+ *         schema: { type: integer, minimum: 18 }
+ *       - in: query
+ *         name: maxAge
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: verification
+ *         schema: { type: string, enum: [BASIC, ID_VERIFIED] }
+ *       - in: query
+ *         name: hasVideo
+ *         schema: { type: boolean }
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [recommended, newest, price_asc, price_desc, rating, popularity]
+ *           default: recommended
+ *         description: >
+ *           recommended lists featured providers (for their own city), then
+ *           boosted ones, then the rest newest first; promoted providers take
+ *           turns at the top every few minutes. Price sorts use the short-time
+ *           rate; popularity is favourite count.
+ *     responses:
+ *       200:
+ *         description: Approved providers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 page: { type: integer }
+ *                 limit: { type: integer }
+ *                 count: { type: integer }
+ *                 providers:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/PublicProvider'
+ *                       - type: object
+ *                         properties:
+ *                           sponsored:
+ *                             type: boolean
+ *                             description: Paid or granted placement; show a "Sponsored" label
+ *                           placement:
+ *                             type: string
+ *                             nullable: true
+ *                             enum: [FEATURED, BOOST]
+ *       400:
+ *         description: Invalid query
  */
 router.get("/", listApprovedProviders);
 
@@ -102,13 +302,262 @@ router.get("/", listApprovedProviders);
  */
 router.get("/me", requireAuth, getMyProfile);
 
+/**
+ * @openapi
+ * /api/v1/providers/me/visibility:
+ *   get:
+ *     summary: Why am I (not) visible?
+ *     description: >
+ *       Reports whether the provider appears in the public listing and lists
+ *       every reason they don't (verification, suspension, subscription).
+ *       After a subscription expires the profile page and favorites keep
+ *       working until graceEndsAt, but the listing and feed hide it at once.
+ *       Provider-only route.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Visibility status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 visible: { type: boolean, example: false }
+ *                 inGracePeriod: { type: boolean, example: true }
+ *                 reasons:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       code:
+ *                         type: string
+ *                         enum: [NOT_APPROVED, SUSPENDED, DELETION_PENDING, NO_SUBSCRIPTION, SUBSCRIPTION_EXPIRED]
+ *                       message: { type: string }
+ *                 verificationStatus: { type: string, example: "APPROVED" }
+ *                 subscriptionExpiresAt: { type: string, format: date-time, nullable: true }
+ *                 graceEndsAt: { type: string, format: date-time, nullable: true }
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Providers only
+ *       404:
+ *         description: Provider profile not found
+ */
+router.get("/me/visibility", requireAuth, getMyVisibility);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/subscription/checkout:
+ *   post:
+ *     summary: Start a subscription checkout
+ *     description: >
+ *       Creates a pending payment for the plan and returns the gateway's
+ *       checkout URL. The subscription is only extended once the gateway
+ *       confirms payment. Approved providers only.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [planCode]
+ *             properties:
+ *               planCode: { type: string, example: "monthly" }
+ *               gateway:
+ *                 type: string
+ *                 enum: [paystack, flutterwave, mock]
+ *                 description: Defaults to the server's PAYMENT_GATEWAY
+ *               promoCode:
+ *                 type: string
+ *                 example: "LAUNCH20"
+ *     responses:
+ *       201:
+ *         description: Checkout created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 paymentId: { type: string, format: uuid }
+ *                 reference: { type: string, example: "sub_3f9a0c1b2d4e5f60718293a4" }
+ *                 gateway: { type: string, example: "paystack" }
+ *                 checkoutUrl: { type: string, format: uri }
+ *                 pricing:
+ *                   type: object
+ *                   properties:
+ *                     listPrice: { type: integer, description: Minor units }
+ *                     discount: { type: integer, description: Minor units }
+ *                     amount: { type: integer, description: Minor units, amount charged }
+ *                     currency: { type: string, example: "NGN" }
+ *                     promoCode: { type: string, nullable: true }
+ *                 plan: { type: object }
+ *       400:
+ *         description: Invalid payload, or the promo code can't be used
+ *       403:
+ *         description: Providers only
+ *       404:
+ *         description: Plan or provider profile not found
+ *       409:
+ *         description: Profile not approved yet, or a placement plan without an active subscription
+ *       502:
+ *         description: Payment gateway unavailable
+ */
+router.post("/me/subscription/checkout", requireAuth, checkout);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/subscription/confirm:
+ *   post:
+ *     summary: Confirm a checkout after returning from the gateway
+ *     description: >
+ *       Verifies the payment with the gateway and, if paid, extends
+ *       subscription_expires_at by the plan's duration (on top of any time
+ *       left). Safe to call repeatedly.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reference]
+ *             properties:
+ *               reference: { type: string }
+ *     responses:
+ *       200:
+ *         description: Subscription active
+ *       202:
+ *         description: Payment not completed yet
+ *       402:
+ *         description: Payment failed or amount mismatch
+ *       404:
+ *         description: Payment not found
+ *       502:
+ *         description: Payment gateway unavailable
+ */
+router.post("/me/subscription/confirm", requireAuth, confirmCheckout);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/billing:
+ *   get:
+ *     summary: My billing history
+ *     description: >
+ *       Subscription events (activations, renewals, refunds, expiries) with
+ *       amounts in minor units, references and receipt links.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20, maximum: 100 }
+ *     responses:
+ *       200:
+ *         description: Billing history
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Providers only
+ */
+router.get("/me/billing", requireAuth, getMyBilling);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/billing/receipts/{paymentId}:
+ *   get:
+ *     summary: Download a receipt
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Receipt document
+ *         content:
+ *           application/pdf: {}
+ *           text/html: {}
+ *       404:
+ *         description: Receipt not found
+ */
+router.get("/me/billing/receipts/:paymentId", requireAuth, getMyReceipt);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/promotions:
+ *   get:
+ *     summary: My featured and boosted placements
+ *     description: >
+ *       Buy one through /me/subscription/checkout with a FEATURED or BOOST
+ *       plan code from /api/v1/subscriptions/plans. Featured placements apply
+ *       to the city on your profile.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Placements, most recent first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Providers only
+ */
+router.get("/me/promotions", requireAuth, getMyPromotions);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/referrals:
+ *   get:
+ *     summary: My referral code and referred providers
+ *     description: >
+ *       Share the code (or shareUrl) with other providers. When someone who
+ *       registered with it makes their first payment, rewardDays of free
+ *       subscription are added to yours.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Referral code, totals and referrals
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Providers only
+ *       404:
+ *         description: Provider profile not found
+ */
+router.get("/me/referrals", requireAuth, getMyReferrals);
+
 /**
  * @openapi
  * /api/v1/providers/me/media:
  *   get:
  *     summary: Get my provider media only
  *     description: >
- *       Returns only the authenticated provider's media (cover/avatar/gallery).
+ *       Returns only the authenticated provider's media (cover/avatar/gallery)
+ *       in gallery order, plus how many more items the current plan allows.
  *       Provider-only route.
  *     tags: [Providers]
  *     security:
@@ -131,7 +580,11 @@ router.get("/me", requireAuth, getMyProfile);
  *                       type: { type: string, example: "IMAGE" }
  *                       is_cover: { type: boolean, example: false }
  *                       is_avatar: { type: boolean, example: false }
+ *                       position: { type: integer, example: 0 }
+ *                       poster_url: { type: string, nullable: true, description: Videos only }
+ *                       duration_seconds: { type: string, nullable: true, example: "12.40" }
  *                       created_at: { type: string, format: date-time }
+ *                 quota: { $ref: '#/components/schemas/MediaQuota' }
  *       401:
  *         description: Unauthorized
  *       403:
@@ -141,6 +594,200 @@ router.get("/me", requireAuth, getMyProfile);
  */
 router.get("/me/media", requireAuth, getMyMedia);
 
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ProviderMedia:
+ *       type: object
+ *       properties:
+ *         id: { type: string, format: uuid }
+ *         url: { type: string }
+ *         type: { type: string, enum: [IMAGE, VIDEO] }
+ *         isCover: { type: boolean }
+ *         isAvatar: { type: boolean }
+ *         position: { type: integer, description: 0-based gallery order }
+ *         renditions:
+ *           allOf:
+ *             - $ref: '#/components/schemas/ImageRenditions'
+ *           description: For videos, renditions of the poster frame
+ *         posterUrl: { type: string, nullable: true, description: Videos only; full-size JPEG }
+ *         durationSeconds: { type: number, nullable: true, description: Videos only }
+ *         createdAt: { type: string, format: date-time }
+ *     MediaQuota:
+ *       type: object
+ *       description: >
+ *         Media limit of the provider's current plan (cover and avatar
+ *         included). Without an active paid plan the default limit applies.
+ *       properties:
+ *         limit: { type: integer, nullable: true, description: null means no limit }
+ *         used: { type: integer }
+ *         remaining: { type: integer, nullable: true }
+ *         planCode: { type: string, nullable: true, example: "monthly" }
+ */
+
+/**
+ * @openapi
+ * /api/v1/providers/me/media:
+ *   post:
+ *     summary: Add a photo or video to my gallery
+ *     description: >
+ *       Send the file as multipart/form-data (field "file"), or JSON with the
+ *       url of a file already uploaded to POST /api/v1/media. It goes at the
+ *       end of the gallery. Videos are transcoded to MP4 and get a poster
+ *       frame, so the upload can take a while. Fails with 409 when the plan's
+ *       media limit is reached.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file: { type: string, format: binary }
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url]
+ *             properties:
+ *               url: { type: string, format: uri }
+ *     responses:
+ *       201:
+ *         description: Added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 media: { $ref: '#/components/schemas/ProviderMedia' }
+ *                 quota: { $ref: '#/components/schemas/MediaQuota' }
+ *       400:
+ *         description: No file or url, or a video longer than allowed
+ *       403:
+ *         description: Providers only
+ *       409:
+ *         description: Media limit reached
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: Not a supported image or video
+ */
+router.post("/me/media", requireAuth, uploadLimiter, singleUpload("file"), addMyMedia);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/media/order:
+ *   put:
+ *     summary: Reorder my gallery
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mediaIds]
+ *             properties:
+ *               mediaIds:
+ *                 type: array
+ *                 description: Every media id, each exactly once, in the new order
+ *                 items: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Reordered; returns the whole gallery
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok: { type: boolean }
+ *                 media:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/ProviderMedia' }
+ *       400:
+ *         description: mediaIds doesn't match the gallery
+ *       403:
+ *         description: Providers only
+ */
+router.put("/me/media/order", requireAuth, reorderMyMedia);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/media/{mediaId}:
+ *   delete:
+ *     summary: Delete a photo or video from my gallery
+ *     description: The current cover or profile picture can't be deleted; set another first.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Deleted; returns the remaining gallery
+ *       404:
+ *         description: Media not found
+ *       409:
+ *         description: It is the current cover or profile picture
+ */
+router.delete("/me/media/:mediaId", requireAuth, deleteMyMedia);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/media/{mediaId}/cover:
+ *   post:
+ *     summary: Make a photo my cover
+ *     description: The previous cover stays in the gallery but is no longer the cover.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Cover changed; returns the whole gallery
+ *       400:
+ *         description: Not an image
+ *       404:
+ *         description: Media not found
+ */
+router.post("/me/media/:mediaId/cover", requireAuth, setMyCover);
+
+/**
+ * @openapi
+ * /api/v1/providers/me/media/{mediaId}/avatar:
+ *   post:
+ *     summary: Make a photo my profile picture
+ *     description: The previous profile picture stays in the gallery.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mediaId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Profile picture changed; returns the whole gallery
+ *       400:
+ *         description: Not an image
+ *       404:
+ *         description: Media not found
+ */
+router.post("/me/media/:mediaId/avatar", requireAuth, setMyAvatar);
+
 /**
  * @openapi
  * /api/v1/providers/me:
@@ -187,7 +834,10 @@ router.get("/me/media", requireAuth, getMyMedia);
  *                   weekend: { type: integer, example: 160000 }
  *               newGalleryImages:
  *                 type: array
- *                 description: New gallery image URLs or data URIs to add
+ *                 description: >
+ *                   New gallery image or video URLs to add, from POST /api/v1/media.
+ *                   Base64 data URIs still work but are deprecated; they are
+ *                   moved into storage before saving.
  *                 items:
  *                   type: string
  *                   example: "https://cdn.example.com/providers/new1.jpg"
@@ -233,4 +883,78 @@ router.get("/me/media", requireAuth, getMyMedia);
  */
 router.patch("/me", requireAuth, updateMyProfile);
 
+/**
+ * @openapi
+ * /api/v1/providers/{providerId}:
+ *   get:
+ *     summary: Public provider profile
+ *     description: >
+ *       Profile page data: sanitized profile, gallery (cover, avatar, then
+ *       gallery images; never the verification selfie), rates, services,
+ *       recent feed posts, rating summary with recent reviews, and whether
+ *       the caller has favourited the provider. Auth is optional and only
+ *       used for isFavorited. Providers that are not approved, suspended
+ *       or without an active subscription return 404, except to the
+ *       provider themselves and admins.
+ *     tags: [Providers]
+ *     parameters:
+ *       - in: path
+ *         name: providerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Provider profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 provider:
+ *                   $ref: '#/components/schemas/PublicProvider'
+ *                 gallery:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: string, format: uuid }
+ *                       url:
+ *                         type: string
+ *                         description: Full rendition (WebP) for processed images; the MP4 for videos
+ *                       type: { type: string, example: "IMAGE" }
+ *                       isCover: { type: boolean }
+ *                       isAvatar: { type: boolean }
+ *                       renditions:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/ImageRenditions'
+ *                         description: For videos, renditions of the poster frame
+ *                       posterUrl: { type: string, nullable: true, description: Videos only }
+ *                       durationSeconds: { type: number, nullable: true, description: Videos only }
+ *                       createdAt: { type: string, format: date-time }
+ *                 rates: { type: object }
+ *                 services:
+ *                   type: array
+ *                   items: { type: string }
+ *                 recentPosts:
+ *                   type: array
+ *                   items: { type: object }
+ *                 rating:
+ *                   type: object
+ *                   properties:
+ *                     average: { type: number, nullable: true, example: 4.5 }
+ *                     count: { type: integer, example: 12 }
+ *                     breakdown: { type: object, example: { "1": 0, "2": 1, "3": 1, "4": 3, "5": 7 } }
+ *                 recentReviews:
+ *                   type: array
+ *                   items: { type: object }
+ *                 isFavorited: { type: boolean }
+ *       400:
+ *         description: Invalid providerId
+ *       404:
+ *         description: Provider not found
+ */
+router.get("/:providerId", optionalAuth, getPublicProvider);
+
 export default router;
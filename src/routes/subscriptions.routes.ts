@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { listPlans } from "../controllers/subscriptions.controllers";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/subscriptions/plans:
+ *   get:
+ *     summary: List subscription plans
+ *     description: Active plans providers can buy. Prices are in minor units (kobo).
+ *     tags: [Subscriptions]
+ *     responses:
+ *       200:
+ *         description: Plans
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 plans:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: string, format: uuid }
+ *                       code: { type: string, example: "monthly" }
+ *                       name: { type: string, example: "Monthly" }
+ *                       description: { type: string, nullable: true }
+ *                       durationDays: { type: integer, example: 30 }
+ *                       price: { type: integer, example: 1000000 }
+ *                       currency: { type: string, example: "NGN" }
+ *                       perks:
+ *                         type: array
+ *                         items: { type: string }
+ *                       kind:
+ *                         type: string
+ *                         enum: [SUBSCRIPTION, FEATURED, BOOST]
+ *                         description: FEATURED and BOOST buy a listing placement instead of subscription time
+ *                       maxMedia:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Photos allowed while on this plan; null for no limit
+ */
+router.get("/plans", listPlans);
+
+export default router;
@@ -0,0 +1,46 @@
+import express, { Router } from "express";
+import { receivePaymentWebhook } from "../controllers/webhooks.controllers";
+
+const router = Router();
+
+// Keep the body as raw bytes: signatures are computed over them
+router.use(express.raw({ type: "*/*", limit: "1mb" }));
+
+/**
+ * @openapi
+ * /api/v1/webhooks/payments/{gateway}:
+ *   post:
+ *     summary: Payment gateway webhook receiver
+ *     description: >
+ *       Called by the payment gateway, not by clients. The HMAC signature
+ *       header (x-paystack-signature, flutterwave-signature or
+ *       x-mock-signature) is verified over the raw body. Every verified
+ *       event is stored in payment_events; redelivered events are
+ *       acknowledged without being applied twice. Successful charges
+ *       activate or renew the subscription, failures mark the payment
+ *       failed and refunds take the purchased time back. Events for a
+ *       payment made through a different gateway are stored but not applied.
+ *       The mock gateway rejects every event unless MOCK_WEBHOOK_SECRET is set.
+ *     tags: [Subscriptions]
+ *     parameters:
+ *       - in: path
+ *         name: gateway
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [paystack, flutterwave, mock]
+ *     responses:
+ *       200:
+ *         description: Event accepted (or already processed)
+ *       400:
+ *         description: Body is not valid JSON
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown or disabled gateway
+ *       500:
+ *         description: Processing failed; the gateway should retry
+ */
+router.post("/payments/:gateway", receivePaymentWebhook);
+
+export default router;
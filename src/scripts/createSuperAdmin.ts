@@ -0,0 +1,98 @@
+import "dotenv/config";
+import bcrypt from "bcrypt";
+import { pool } from "../config/db";
+import { revokeAllSessions } from "../utils/sessions";
+
+/**
+ * Bootstraps the first Super Admin, since every staff-management route
+ * needs one already. Creates the account if the email is new, otherwise
+ * promotes it to ADMIN; either way it gets the Super Admin staff role.
+ *
+ *   npm run build
+ *   SUPER_ADMIN_PASSWORD=... npm run admin:create-super-admin -- <email> [displayName]
+ *
+ * The password is read from the environment (not argv, which shows up in
+ * process lists) and is required for a new account. For an existing one it
+ * is optional; if given it replaces the old password and signs out every
+ * session. Safe to rerun.
+ */
+
+const MIN_PASSWORD_LENGTH = 8;
+
+async function main() {
+  const email = process.argv[2]?.trim().toLowerCase();
+  const displayName = process.argv[3]?.trim() || "Admin";
+  const password = process.env.SUPER_ADMIN_PASSWORD?.trim();
+
+  if (!email) {
+    console.error("Usage: npm run admin:create-super-admin -- <email> [displayName]");
+    process.exitCode = 1;
+    return;
+  }
+  if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`SUPER_ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const roleRes = await client.query(
+      `SELECT id FROM staff_roles WHERE name = 'Super Admin' LIMIT 1`,
+    );
+    const roleId: string | undefined = roleRes.rows[0]?.id;
+    if (!roleId) throw new Error("Super Admin staff role missing; run the migrations first");
+
+    const uRes = await client.query(
+      `SELECT id, role FROM users WHERE email = $1 AND deleted_at IS NULL LIMIT 1 FOR UPDATE`,
+      [email],
+    );
+    let user = uRes.rows[0];
+    let created = false;
+
+    if (!user) {
+      if (!password) throw new Error("SUPER_ADMIN_PASSWORD is required to create a new account");
+      const insRes = await client.query(
+        `INSERT INTO users (email, password_hash, role, display_name, email_verified_at)
+         VALUES ($1, $2, 'ADMIN', $3, now())
+         RETURNING id, role`,
+        [email, await bcrypt.hash(password, 10), displayName],
+      );
+      user = insRes.rows[0];
+      created = true;
+    } else {
+      await client.query(
+        `UPDATE users
+         SET role = 'ADMIN',
+             password_hash = COALESCE($2, password_hash),
+             updated_at = now()
+         WHERE id = $1`,
+        [user.id, password ? await bcrypt.hash(password, 10) : null],
+      );
+      if (password) await revokeAllSessions(user.id, "PASSWORD_RESET", { db: client });
+    }
+
+    await client.query(
+      `INSERT INTO user_staff_roles (user_id, role_id) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [user.id, roleId],
+    );
+
+    await client.query("COMMIT");
+    console.log(`${created ? "Created" : "Promoted"} ${email} as Super Admin`);
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
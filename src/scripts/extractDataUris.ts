@@ -0,0 +1,123 @@
+import "dotenv/config";
+import { pool } from "../config/db";
+import { isDataUri, MediaRejectedError, storeDataUri } from "../utils/storage";
+
+/**
+ * One-off migration: moves base64 data URIs stored in the database into the
+ * configured storage driver and replaces them with URLs.
+ *
+ *   npm run build && npm run media:extract-data-uris
+ *
+ * Safe to rerun: objects are content-addressed and only rows still holding
+ * a data URI are touched. Rows whose data can't be decoded are logged and
+ * left alone. Verification selfies are skipped; media:privatize-selfies
+ * moves those to private storage instead.
+ */
+
+const BATCH_SIZE = 50;
+
+async function extractProviderMedia() {
+  let moved = 0;
+  let failed = 0;
+  // Skipped rows stay as data URIs, so page past them by id
+  let lastId = "00000000-0000-0000-0000-000000000000";
+
+  for (;;) {
+    const r = await pool.query(
+      `SELECT id, url FROM provider_media
+       WHERE url LIKE 'data:%' AND id > $1
+         AND NOT EXISTS (
+           SELECT 1 FROM provider_identity i
+           WHERE i.verification_selfie_media_id = provider_media.id
+         )
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, BATCH_SIZE],
+    );
+    if (r.rows.length === 0) break;
+
+    for (const row of r.rows) {
+      lastId = row.id;
+      try {
+        const stored = await storeDataUri(row.url);
+        await pool.query(
+          `UPDATE provider_media
+           SET url = $2, type = $3, storage_key = $4, mime_type = $5, size_bytes = $6
+           WHERE id = $1 AND url LIKE 'data:%'`,
+          [row.id, stored.url, stored.type, stored.storageKey, stored.mimeType, stored.sizeBytes],
+        );
+        moved++;
+      } catch (e) {
+        if (!(e instanceof MediaRejectedError)) throw e;
+        console.warn(`provider_media ${row.id}: ${e.message}`);
+        failed++;
+      }
+    }
+  }
+
+  return { moved, failed };
+}
+
+/**
+ * text[] columns holding media URLs (feed posts, evidence).
+ */
+async function extractUrlArray(table: string, column: string) {
+  let moved = 0;
+  let failed = 0;
+  let lastId = "00000000-0000-0000-0000-000000000000";
+
+  for (;;) {
+    const r = await pool.query(
+      `SELECT id, ${column} AS urls FROM ${table}
+       WHERE EXISTS (SELECT 1 FROM unnest(${column}) u WHERE u LIKE 'data:%')
+         AND id > $1
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, BATCH_SIZE],
+    );
+    if (r.rows.length === 0) break;
+
+    for (const row of r.rows) {
+      lastId = row.id;
+      const urls: string[] = [];
+      for (const url of row.urls as string[]) {
+        if (!isDataUri(url)) {
+          urls.push(url);
+          continue;
+        }
+        try {
+          urls.push((await storeDataUri(url)).url);
+          moved++;
+        } catch (e) {
+          if (!(e instanceof MediaRejectedError)) throw e;
+          console.warn(`${table} ${row.id}: ${e.message}`);
+          urls.push(url);
+          failed++;
+        }
+      }
+      await pool.query(`UPDATE ${table} SET ${column} = $2 WHERE id = $1`, [row.id, urls]);
+    }
+  }
+
+  return { moved, failed };
+}
+
+async function main() {
+  const results = {
+    provider_media: await extractProviderMedia(),
+    feed_posts: await extractUrlArray("feed_posts", "media_urls"),
+    blacklist_entries: await extractUrlArray("blacklist_entries", "evidence_urls"),
+    reports: await extractUrlArray("reports", "evidence_urls"),
+  };
+
+  for (const [table, { moved, failed }] of Object.entries(results)) {
+    console.log(`${table}: ${moved} moved, ${failed} skipped`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
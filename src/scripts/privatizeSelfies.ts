@@ -0,0 +1,99 @@
+import "dotenv/config";
+import { pool } from "../config/db";
+import {
+  claimPrivateMedia,
+  deleteMediaObjectIfUnused,
+  getStorage,
+  isDataUri,
+  MediaRejectedError,
+  StorageError,
+  storePrivateMedia,
+} from "../utils/storage";
+
+/**
+ * One-off migration: moves verification selfies that were saved as
+ * ordinary provider_media rows into private storage. The provider_media row
+ * is deleted, and so is the public file unless something else uses it.
+ *
+ *   npm run build && npm run media:privatize-selfies
+ *
+ * Safe to rerun; only identities still pointing at provider_media are
+ * picked up. Selfies of approved providers get their purge date on the way.
+ */
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+async function readSelfie(row: { url: string; storage_key: string | null }) {
+  if (isDataUri(row.url)) {
+    const comma = row.url.indexOf(",");
+    return Buffer.from(row.url.slice(comma + 1), "base64");
+  }
+  if (row.storage_key) return getStorage().get(row.storage_key);
+
+  const res = await fetch(row.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new StorageError(`GET ${row.url} failed (${res.status})`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+async function main() {
+  const r = await pool.query(
+    `SELECT i.provider_id, m.id AS media_id, m.url, m.storage_key
+     FROM provider_identity i
+     JOIN provider_media m ON m.id = i.verification_selfie_media_id
+     WHERE i.verification_selfie_private_id IS NULL
+     ORDER BY i.created_at`,
+  );
+
+  let moved = 0;
+  let failed = 0;
+  for (const row of r.rows) {
+    let privateId: string;
+    try {
+      const body = await readSelfie(row);
+      privateId = (await storePrivateMedia(body, { kind: "VERIFICATION_SELFIE" })).id;
+    } catch (e) {
+      if (!(e instanceof MediaRejectedError) && !(e instanceof StorageError) && !(e instanceof TypeError)) {
+        throw e;
+      }
+      console.warn(`provider ${row.provider_id}: ${e.message}`);
+      failed++;
+      continue;
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await claimPrivateMedia(client, privateId, {
+        kind: "VERIFICATION_SELFIE",
+        providerId: row.provider_id,
+      });
+      await client.query(
+        `UPDATE provider_identity
+         SET verification_selfie_private_id = $2,
+             verification_selfie_media_id = NULL,
+             updated_at = now()
+         WHERE provider_id = $1`,
+        [row.provider_id, privateId],
+      );
+      await client.query(`DELETE FROM provider_media WHERE id = $1`, [row.media_id]);
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    if (row.storage_key) await deleteMediaObjectIfUnused(row.storage_key);
+    moved++;
+  }
+
+  console.log(`${moved} moved, ${failed} skipped`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
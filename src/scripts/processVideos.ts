@@ -0,0 +1,62 @@
+import "dotenv/config";
+import { pool } from "../config/db";
+import {
+  MediaRejectedError,
+  reprocessStoredVideo,
+  StorageError,
+} from "../utils/storage";
+
+/**
+ * One-off backfill for videos stored before video processing existed:
+ * transcodes them to MP4, generates poster frames and points every
+ * reference at the transcoded file.
+ *
+ *   npm run build && npm run media:process-videos
+ *
+ * Needs ffmpeg. Safe to rerun; only videos without a poster are picked up.
+ * Slow: each video is transcoded in turn.
+ */
+
+const BATCH_SIZE = 5;
+
+async function main() {
+  let processed = 0;
+  let failed = 0;
+  // Failures keep renditions NULL, so page past them
+  let lastCreatedAt = new Date(0);
+  let lastKey = "";
+
+  for (;;) {
+    const r = await pool.query(
+      `SELECT storage_key, created_at FROM media_objects
+       WHERE media_type = 'VIDEO' AND renditions IS NULL
+         AND (created_at, storage_key) > ($1, $2)
+       ORDER BY created_at, storage_key
+       LIMIT $3`,
+      [lastCreatedAt, lastKey, BATCH_SIZE],
+    );
+    if (r.rows.length === 0) break;
+
+    for (const row of r.rows) {
+      lastCreatedAt = row.created_at;
+      lastKey = row.storage_key;
+      try {
+        await reprocessStoredVideo(row.storage_key);
+        processed++;
+      } catch (e) {
+        if (!(e instanceof MediaRejectedError) && !(e instanceof StorageError)) throw e;
+        console.warn(`${row.storage_key}: ${e.message}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`${processed} processed, ${failed} skipped`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -4,6 +4,8 @@ type AuthUser = {
   id: string;
   role: "GUEST" | "PROVIDER" | "ADMIN";
   email?: string;
+  sessionId?: string;
+  mfa?: boolean;
 };
 
 declare module "express-serve-static-core" {
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import { pool } from "../config/db";
+import { every } from "./scheduler";
+import { deleteMediaObjectsIfUnused, providerMediaKeys } from "./storage";
+
+export const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS || 14);
+
+// Set on provider_profiles.suspension_reason while deletion is pending, so
+// restoring the account only lifts our own suspension
+export const DELETION_SUSPENSION_REASON = "ACCOUNT_DELETION_PENDING";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Irreversibly removes a user's personal data.
+ * - provider profile, media, feed posts, favorites etc. are hard-deleted,
+ *   as are notifications, queued emails and login/email-change records
+ * - payments and subscription events are kept, without the provider
+ * - messages, comments, reviews and reports they wrote are kept for the other
+ *   party but now point at a scrubbed "Deleted user" tombstone
+ */
+export async function purgeAccount(userId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const uRes = await client.query(
+      `SELECT id, email FROM users
+       WHERE id = $1 AND deleted_at IS NULL
+       LIMIT 1
+       FOR UPDATE`,
+      [userId],
+    );
+    const user = uRes.rows[0];
+    if (!user) {
+      await client.query("ROLLBACK");
+      return false;
+    }
+
+    // Files stay in storage (and publicly reachable) unless deleted
+    // explicitly; collect them while the rows still exist
+    const pRes = await client.query(
+      `SELECT id FROM provider_profiles WHERE user_id = $1`,
+      [userId],
+    );
+    const mediaKeys: string[] = [];
+    for (const p of pRes.rows) mediaKeys.push(...(await providerMediaKeys(client, p.id)));
+
+    // Cascades to provider_media, feed_posts, favorites of the provider and
+    // submitted blacklist_entries. private_media rows are detached, and the
+    // private media purge job deletes the files. payments and
+    // subscription_events are detached too: revenue history must not change.
+    await client.query(`DELETE FROM provider_profiles WHERE user_id = $1`, [userId]);
+
+    await client.query(`DELETE FROM favorites WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM feed_likes WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM sessions WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM recovery_codes WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM password_reset_tokens WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM otp_tokens WHERE email = $1`, [user.email]);
+
+    // Every address the account has used, not just the current one
+    const emails: string[] = [user.email];
+    const ecRes = await client.query(
+      `SELECT new_email, previous_email FROM email_change_requests WHERE user_id = $1`,
+      [userId],
+    );
+    for (const r of ecRes.rows) {
+      emails.push(r.new_email);
+      if (r.previous_email) emails.push(r.previous_email);
+    }
+
+    await client.query(`DELETE FROM email_change_requests WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM login_attempts WHERE email = ANY($1::text[])`, [emails]);
+    await client.query(`DELETE FROM email_outbox WHERE to_email = ANY($1::text[])`, [emails]);
+    await client.query(`DELETE FROM notifications WHERE user_id = $1`, [userId]);
+
+    await client.query(
+      `
+      UPDATE users
+      SET
+        email = $2,
+        password_hash = $3,
+        display_name = 'Deleted user',
+        phone = NULL,
+        call_number = NULL,
+        whatsapp_number = NULL,
+        totp_secret = NULL,
+        totp_enabled_at = NULL,
+        totp_last_used_step = NULL,
+        deleted_at = now(),
+        updated_at = now()
+      WHERE id = $1
+      `,
+      [
+        userId,
+        `deleted-${userId}@deleted.invalid`,
+        // Not a bcrypt hash: no password can ever match
+        `!deleted-${crypto.randomBytes(16).toString("hex")}`,
+      ],
+    );
+
+    await client.query("COMMIT");
+
+    await deleteMediaObjectsIfUnused(mediaKeys);
+    return true;
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function purgeDueAccounts() {
+  const r = await pool.query(
+    `SELECT id FROM users
+     WHERE deletion_scheduled_for IS NOT NULL
+       AND deletion_scheduled_for <= now()
+       AND deleted_at IS NULL
+     ORDER BY deletion_scheduled_for
+     LIMIT 50`,
+  );
+
+  for (const row of r.rows) {
+    await purgeAccount(row.id);
+  }
+  return r.rows.length;
+}
+
+export function startAccountPurgeWorker() {
+  return every("account-purge", PURGE_INTERVAL_MS, purgeDueAccounts);
+}
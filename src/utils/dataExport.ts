@@ -0,0 +1,109 @@
+import { pool } from "../config/db";
+
+/**
+ * Everything stored about a user, for GET /auth/me/export.
+ * Secrets (password/TOTP/token hashes) are deliberately left out.
+ */
+export async function buildUserExport(userId: string) {
+  const q = async (sql: string, params: any[] = [userId]) =>
+    (await pool.query(sql, params)).rows;
+
+  const [user] = await q(
+    `SELECT id, email, role, display_name, phone, call_number, whatsapp_number,
+            email_verified_at, totp_enabled_at, created_at, updated_at
+     FROM users WHERE id = $1`,
+  );
+
+  const [providerProfile] = await q(
+    `SELECT * FROM provider_profiles WHERE user_id = $1`,
+  );
+
+  const providerId: string | null = providerProfile?.id ?? null;
+  const byProvider = async (sql: string) => (providerId ? q(sql, [providerId]) : []);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    providerProfile: providerProfile ?? null,
+    providerIdentity: (await byProvider(
+      `SELECT i.real_name, to_char(i.dob, 'YYYY-MM-DD') AS dob, i.referral_code,
+              i.verification_selfie_media_id,
+              pm.created_at AS verification_selfie_uploaded_at,
+              pm.purge_after AS verification_selfie_purge_after,
+              pm.purged_at AS verification_selfie_purged_at,
+              i.verified_at, i.created_at
+       FROM provider_identity i
+       LEFT JOIN private_media pm ON pm.id = i.verification_selfie_private_id
+       WHERE i.provider_id = $1`,
+    ))[0] ?? null,
+    media: await byProvider(
+      `SELECT id, url, type, is_cover, is_avatar, created_at
+       FROM provider_media WHERE provider_id = $1 ORDER BY created_at`,
+    ),
+    feedPosts: await byProvider(
+      `SELECT id, content, media_urls, created_at
+       FROM feed_posts WHERE provider_id = $1 ORDER BY created_at`,
+    ),
+    reviewsReceived: await byProvider(
+      `SELECT id, rating, comment, reply_text, reply_created_at, created_at
+       FROM reviews WHERE provider_id = $1 ORDER BY created_at`,
+    ),
+    blacklistEntriesSubmitted: await byProvider(
+      `SELECT id, phone, name, notes, evidence_urls, created_at
+       FROM blacklist_entries WHERE submitted_by_provider_id = $1 ORDER BY created_at`,
+    ),
+    subscriptionEvents: await byProvider(
+      `SELECT id, event_type, amount, reference, expires_at, created_at
+       FROM subscription_events WHERE provider_id = $1 ORDER BY created_at`,
+    ),
+    payments: await byProvider(
+      `SELECT id, plan_id, kind, duration_days, gateway, reference, amount, list_price,
+              discount_amount, currency, status, paid_at, created_at
+       FROM payments WHERE provider_id = $1 ORDER BY created_at`,
+    ),
+    referrals: await byProvider(
+      `SELECT id, referrer_provider_id, referred_provider_id, status, reward_days,
+              rewarded_at, created_at
+       FROM referrals
+       WHERE referrer_provider_id = $1 OR referred_provider_id = $1
+       ORDER BY created_at`,
+    ),
+    favorites: await q(
+      `SELECT provider_id, created_at FROM favorites WHERE user_id = $1 ORDER BY created_at`,
+    ),
+    notifications: await q(
+      `SELECT id, type, title, body, data, read_at, created_at
+       FROM notifications WHERE user_id = $1 ORDER BY created_at`,
+    ),
+    conversations: await q(
+      `SELECT id, client_user_id, provider_user_id, created_at, last_message_at
+       FROM conversations
+       WHERE client_user_id = $1 OR provider_user_id = $1
+       ORDER BY created_at`,
+    ),
+    messagesSent: await q(
+      `SELECT id, conversation_id, content, created_at
+       FROM messages WHERE sender_user_id = $1 ORDER BY created_at`,
+    ),
+    feedComments: await q(
+      `SELECT id, post_id, comment, created_at
+       FROM feed_comments WHERE user_id = $1 ORDER BY created_at`,
+    ),
+    feedLikes: await q(
+      `SELECT post_id, created_at FROM feed_likes WHERE user_id = $1 ORDER BY created_at`,
+    ),
+    reviewsWritten: await q(
+      `SELECT id, provider_id, rating, comment, created_at
+       FROM reviews WHERE reviewer_user_id = $1 ORDER BY created_at`,
+    ),
+    reportsFiled: await q(
+      `SELECT id, target_type, target_provider_id, target_phone, target_name,
+              reason, evidence_urls, status, created_at
+       FROM reports WHERE reporter_user_id = $1 ORDER BY created_at`,
+    ),
+    sessions: await q(
+      `SELECT id, user_agent, ip, created_at, last_seen_at, revoked_at
+       FROM sessions WHERE user_id = $1 ORDER BY created_at`,
+    ),
+  };
+}
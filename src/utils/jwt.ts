@@ -3,14 +3,20 @@ import jwt, { SignOptions } from "jsonwebtoken";
 export type JwtPayload = {
   sub: string;
   role: "GUEST" | "PROVIDER" | "ADMIN";
+  sid?: string;
+  // true when the session was established with a second factor
+  mfa?: boolean;
 };
 
+const TWO_FACTOR_CHALLENGE_TYP = "2fa_challenge";
+
 export function signAccessToken(payload: JwtPayload): string {
   const secret = process.env.JWT_SECRET;
   if (!secret) throw new Error("JWT_SECRET missing");
 
+  // Short-lived: long-lived access is granted through refresh tokens (see utils/sessions.ts)
   return jwt.sign(payload, secret, {
-    expiresIn: process.env.JWT_EXPIRES_IN || "7d",
+    expiresIn: process.env.JWT_EXPIRES_IN || "15m",
   } as SignOptions);
 }
 
@@ -23,10 +29,40 @@ export function verifyAccessToken(token: string): JwtPayload {
   // jwt.verify can return string | object, so we validate shape:
   if (typeof decoded !== "object" || decoded === null) throw new Error("Invalid token");
 
-  const p = decoded as Partial<JwtPayload>;
+  const p = decoded as Partial<JwtPayload> & { typ?: string };
+  if (p.typ) throw new Error("Not an access token");
   if (!p.sub || !p.role) throw new Error("Invalid token payload");
 
-  return { sub: String(p.sub), role: p.role };
+  return {
+    sub: String(p.sub),
+    role: p.role,
+    sid: p.sid ? String(p.sid) : undefined,
+    mfa: p.mfa === true,
+  };
 }
 
+/**
+ * Issued by login when the password was correct but a TOTP code is still needed.
+ * Can only be exchanged at /auth/2fa/verify-login, never used as an access token.
+ */
+export function signTwoFactorChallenge(userId: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error("JWT_SECRET missing");
 
+  return jwt.sign({ sub: userId, typ: TWO_FACTOR_CHALLENGE_TYP }, secret, {
+    expiresIn: "5m",
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error("JWT_SECRET missing");
+
+  const decoded = jwt.verify(token, secret);
+  if (typeof decoded !== "object" || decoded === null) throw new Error("Invalid token");
+
+  const p = decoded as { sub?: string; typ?: string };
+  if (p.typ !== TWO_FACTOR_CHALLENGE_TYP || !p.sub) throw new Error("Invalid token payload");
+
+  return String(p.sub);
+}
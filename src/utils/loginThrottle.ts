@@ -0,0 +1,109 @@
+import { pool } from "../config/db";
+import { sendAccountLockedEmail } from "./mailer";
+import { every } from "./scheduler";
+
+// After this many consecutive failures each further attempt must wait
+// 2^(n - DELAY_AFTER) seconds, capped at MAX_DELAY_SECONDS.
+const DELAY_AFTER = 3;
+const MAX_DELAY_SECONDS = 60;
+
+// ...and at LOCK_AFTER the email is locked outright.
+const LOCK_AFTER = 10;
+const LOCK_MINUTES = 15;
+
+// Rows for addresses nobody has tried in a day are forgotten
+const PRUNE_AFTER_HOURS = 24;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+type ThrottleRow = {
+  failed_login_count: number;
+  last_failed_login_at: Date | null;
+  locked_until: Date | null;
+};
+
+export type LoginGate =
+  | { ok: true; lockedUntil: Date | null }
+  | { ok: false; retryAfterSeconds: number };
+
+function retryAfterSeconds(row: ThrottleRow | undefined) {
+  const now = Date.now();
+  let until = now;
+
+  if (row?.locked_until) until = Math.max(until, new Date(row.locked_until).getTime());
+
+  if (row && row.failed_login_count >= DELAY_AFTER && row.last_failed_login_at) {
+    const delay = Math.min(2 ** (row.failed_login_count - DELAY_AFTER), MAX_DELAY_SECONDS);
+    until = Math.max(until, new Date(row.last_failed_login_at).getTime() + delay * 1000);
+  }
+
+  return Math.max(1, Math.ceil((until - now) / 1000));
+}
+
+/**
+ * Counts a login attempt against a normalized email, unless the email is
+ * currently throttled. Call it after the password has been checked (against
+ * a dummy hash when there is no account, so timing matches) and before the
+ * result is revealed. Every attempt is counted as a failure up front;
+ * clearFailedLogins() undoes that when the password was right.
+ *
+ * The throttle check and the increment are one statement, so concurrent
+ * attempts can't all get through the same window. lockedUntil is set when
+ * this attempt locked the email.
+ */
+export async function registerLoginAttempt(email: string): Promise<LoginGate> {
+  const r = await pool.query(
+    `INSERT INTO login_attempts AS a (email, failed_login_count, last_failed_login_at)
+     VALUES ($1, 1, now())
+     ON CONFLICT (email) DO UPDATE
+     SET failed_login_count = CASE WHEN a.failed_login_count + 1 >= $4 THEN 0
+                                   ELSE a.failed_login_count + 1 END,
+         last_failed_login_at = now(),
+         locked_until = CASE WHEN a.failed_login_count + 1 >= $4
+                             THEN now() + make_interval(mins => $5) END
+     WHERE (a.locked_until IS NULL OR a.locked_until <= now())
+       AND (a.failed_login_count < $2
+            OR a.last_failed_login_at IS NULL
+            OR a.last_failed_login_at
+                 + make_interval(secs => LEAST(power(2, a.failed_login_count - $2), $3))
+               <= now())
+     RETURNING locked_until`,
+    [email, DELAY_AFTER, MAX_DELAY_SECONDS, LOCK_AFTER, LOCK_MINUTES],
+  );
+
+  if (r.rows[0]) return { ok: true, lockedUntil: r.rows[0].locked_until };
+
+  const cur = await pool.query(
+    `SELECT failed_login_count, last_failed_login_at, locked_until
+     FROM login_attempts WHERE email = $1`,
+    [email],
+  );
+  return { ok: false, retryAfterSeconds: retryAfterSeconds(cur.rows[0]) };
+}
+
+/**
+ * Tells the account owner their login was locked. Not awaited by the
+ * caller: a slower response for registered emails would give them away.
+ */
+export function notifyAccountLocked(to: string, lockedUntil: Date) {
+  sendAccountLockedEmail({ to, lockedUntil }).catch((e) =>
+    console.error("Failed to send account locked email", e),
+  );
+}
+
+export async function clearFailedLogins(email: string) {
+  await pool.query(`DELETE FROM login_attempts WHERE email = $1`, [email]);
+}
+
+export async function pruneLoginAttempts() {
+  const r = await pool.query(
+    `DELETE FROM login_attempts
+     WHERE last_failed_login_at < now() - make_interval(hours => $1)
+       AND (locked_until IS NULL OR locked_until < now())`,
+    [PRUNE_AFTER_HOURS],
+  );
+  return r.rowCount ?? 0;
+}
+
+export function startLoginAttemptPruneWorker() {
+  return every("login-attempt-prune", PRUNE_INTERVAL_MS, pruneLoginAttempts);
+}
@@ -0,0 +1,71 @@
+import { queueEmail } from "./outbox";
+
+export { queueEmail, processOutbox, startOutboxWorker } from "./outbox";
+export type { TemplateData, TemplateName } from "./templates";
+export type { MailMessage, MailTransport } from "./transports";
+
+type SendResetArgs = {
+  to: string;
+  resetLink: string;
+};
+
+export async function sendPasswordResetEmail({ to, resetLink }: SendResetArgs) {
+  await queueEmail(to, "passwordReset", { resetLink });
+}
+
+type SendOtpArgs = {
+  to: string;
+  code: string;
+  expiresInMinutes: number;
+};
+
+export async function sendOtpEmail({ to, code, expiresInMinutes }: SendOtpArgs) {
+  await queueEmail(to, "otp", { code, expiresInMinutes });
+}
+
+type SendEmailChangeArgs = {
+  oldEmail: string;
+  newEmail: string;
+  confirmLink: string;
+  cancelLink: string;
+};
+
+export async function sendEmailChangeEmails({
+  oldEmail,
+  newEmail,
+  confirmLink,
+  cancelLink,
+}: SendEmailChangeArgs) {
+  await queueEmail(newEmail, "emailChangeConfirm", { newEmail, confirmLink });
+  await queueEmail(oldEmail, "emailChangeNotice", { newEmail, cancelLink });
+}
+
+type SendAccountLockedArgs = {
+  to: string;
+  lockedUntil: Date;
+};
+
+export async function sendAccountLockedEmail({ to, lockedUntil }: SendAccountLockedArgs) {
+  await queueEmail(to, "accountLocked", { lockedUntil: lockedUntil.toISOString() });
+}
+
+type SendProviderReviewedArgs = {
+  to: string;
+  displayName: string;
+};
+
+export async function sendProviderApprovedEmail({
+  to,
+  displayName,
+  note,
+}: SendProviderReviewedArgs & { note?: string | null }) {
+  await queueEmail(to, "providerApproved", { displayName, note });
+}
+
+export async function sendProviderRejectedEmail({
+  to,
+  displayName,
+  reason,
+}: SendProviderReviewedArgs & { reason: string }) {
+  await queueEmail(to, "providerRejected", { displayName, reason });
+}
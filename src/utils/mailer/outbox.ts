@@ -0,0 +1,133 @@
+import { PoolClient } from "pg";
+import { pool } from "../../config/db";
+import { every } from "../scheduler";
+import { getTransport } from "./transports";
+import {
+  isTemplateName,
+  renderTemplate,
+  TemplateData,
+  TemplateName,
+} from "./templates";
+
+const MAX_ATTEMPTS = 8;
+const MAX_BACKOFF_MINUTES = 6 * 60;
+// Everything is sent from here, including OTPs, so poll often
+const POLL_INTERVAL_MS = 5_000;
+const BATCH_SIZE = 20;
+
+// A claimed row is hidden from other workers for this long; if the process dies
+// mid-send the row becomes due again after the lease.
+const LEASE_MINUTES = 5;
+
+type OutboxRow = {
+  id: string;
+  to_email: string;
+  template: string;
+  payload: any;
+  attempts: number;
+};
+
+function backoffMinutes(attempts: number) {
+  return Math.min(2 ** attempts, MAX_BACKOFF_MINUTES);
+}
+
+async function claim(limit: number) {
+  const r = await pool.query(
+    `
+    UPDATE email_outbox
+    SET attempts = attempts + 1,
+        next_attempt_at = now() + interval '${LEASE_MINUTES} minutes'
+    WHERE id IN (
+      SELECT id FROM email_outbox
+      WHERE status = 'PENDING' AND next_attempt_at <= now()
+      ORDER BY next_attempt_at
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, to_email, template, payload, attempts
+    `,
+  );
+  return r.rows as OutboxRow[];
+}
+
+// Payloads hold one-time links and codes; only kept while a send can still happen
+async function deliver(row: OutboxRow) {
+  let transportName: string | null = null;
+
+  try {
+    const transport = getTransport();
+    transportName = transport.name;
+
+    if (!isTemplateName(row.template)) {
+      throw new Error(`Unknown email template: ${row.template}`);
+    }
+
+    const rendered = renderTemplate(row.template, row.payload);
+    await transport.send({ to: row.to_email, ...rendered });
+
+    await pool.query(
+      `UPDATE email_outbox
+       SET status = 'SENT', sent_at = now(), payload = '{}'::jsonb,
+           transport = $2, last_error = NULL
+       WHERE id = $1`,
+      [row.id, transport.name],
+    );
+  } catch (e: any) {
+    const giveUp = row.attempts >= MAX_ATTEMPTS;
+    console.error(`Email ${row.id} (${row.template}) failed`, e?.message ?? e);
+
+    await pool.query(
+      `UPDATE email_outbox
+       SET status = $2,
+           next_attempt_at = now() + ($3 || ' minutes')::interval,
+           last_error = $4,
+           transport = $5,
+           payload = CASE WHEN $2 = 'FAILED' THEN '{}'::jsonb ELSE payload END
+       WHERE id = $1`,
+      [
+        row.id,
+        giveUp ? "FAILED" : "PENDING",
+        String(backoffMinutes(row.attempts)),
+        String(e?.message ?? e).slice(0, 1000),
+        transportName,
+      ],
+    );
+  }
+}
+
+/**
+ * Persists the email; the worker sends it on its next poll. Never waits on
+ * the transport, so a request that queues an email takes as long as one
+ * that doesn't (forgotPassword relies on this to not reveal which emails
+ * have accounts). Failures are retried with exponential backoff.
+ *
+ * Pass db to queue inside an open transaction: the email is then only sent
+ * if that transaction commits.
+ */
+export async function queueEmail<T extends TemplateName>(
+  to: string,
+  template: T,
+  data: TemplateData[T],
+  db?: PoolClient,
+) {
+  await (db ?? pool).query(
+    `INSERT INTO email_outbox (to_email, template, payload)
+     VALUES ($1, $2, $3::jsonb)`,
+    [to, template, JSON.stringify(data)],
+  );
+}
+
+export async function processOutbox() {
+  const rows = await claim(BATCH_SIZE);
+  for (const row of rows) {
+    await deliver(row);
+  }
+  return rows.length;
+}
+
+/**
+ * Polls for due emails. Returns a function that stops the worker.
+ */
+export function startOutboxWorker() {
+  return every("email-outbox", POLL_INTERVAL_MS, processOutbox);
+}
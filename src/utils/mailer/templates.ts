@@ -0,0 +1,258 @@
+/**
+ * Transactional email templates. Each one renders to a subject plus HTML and
+ * plain text bodies. Data is JSON-serialisable because it is persisted in the
+ * outbox and rendered at send time (dates travel as ISO strings).
+ */
+
+export type TemplateData = {
+  passwordReset: { resetLink: string };
+  otp: { code: string; expiresInMinutes: number };
+  accountLocked: { lockedUntil: string };
+  emailChangeConfirm: { newEmail: string; confirmLink: string };
+  emailChangeNotice: { newEmail: string; cancelLink: string };
+  providerApproved: { displayName: string; note?: string | null };
+  providerRejected: { displayName: string; reason: string };
+  subscriptionExpiring: {
+    displayName: string;
+    expiresAt: string;
+    daysLeft: number;
+  };
+  subscriptionExpired: {
+    displayName: string;
+    expiredAt: string;
+    graceDays: number;
+  };
+  subscriptionRenewed: {
+    displayName: string;
+    planName: string;
+    expiresAt: string;
+  };
+  newMessageDigest: {
+    displayName: string;
+    conversations: Array<{ fromName: string; unreadCount: number }>;
+  };
+};
+
+export type TemplateName = keyof TemplateData;
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function frontendUrl(pathAndQuery = "") {
+  const base = (process.env.FRONTEND_URL || "http://127.0.0.1:5500").replace(/\/+$/, "");
+  return `${base}/${pathAndQuery}`;
+}
+
+function layout(body: string) {
+  return `<!doctype html>
+<html>
+  <body style="font-family:Arial,sans-serif;color:#222;line-height:1.5">
+    ${body}
+    <p style="color:#888;font-size:12px">Verbose</p>
+  </body>
+</html>`;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toUTCString();
+}
+
+type Renderers = {
+  [K in TemplateName]: (data: TemplateData[K]) => RenderedEmail;
+};
+
+const renderers: Renderers = {
+  passwordReset: ({ resetLink }) => ({
+    subject: "Reset your password",
+    html: layout(`
+      <p>You requested a password reset.</p>
+      <p><a href="${escapeHtml(resetLink)}">Reset Your Password</a></p>
+      <p>If you didn’t request this, you can ignore this email.</p>`),
+    text: [
+      "You requested a password reset.",
+      `Reset your password: ${resetLink}`,
+      "If you didn’t request this, you can ignore this email.",
+    ].join("\n\n"),
+  }),
+
+  otp: ({ code, expiresInMinutes }) => ({
+    subject: `Your verification code: ${code}`,
+    html: layout(`
+      <p>Your verification code is:</p>
+      <p style="font-size:24px;letter-spacing:4px"><strong>${escapeHtml(code)}</strong></p>
+      <p>This code expires in ${expiresInMinutes} minutes.</p>
+      <p>If you didn’t create an account, you can ignore this email.</p>`),
+    text: [
+      `Your verification code is: ${code}`,
+      `This code expires in ${expiresInMinutes} minutes.`,
+      "If you didn’t create an account, you can ignore this email.",
+    ].join("\n\n"),
+  }),
+
+  accountLocked: ({ lockedUntil }) => ({
+    subject: "Your account was temporarily locked",
+    html: layout(`
+      <p>We temporarily locked your account after several failed sign-in attempts.</p>
+      <p>You can try again after ${escapeHtml(formatDate(lockedUntil))}.</p>
+      <p>If this wasn’t you, we recommend resetting your password.</p>`),
+    text: [
+      "We temporarily locked your account after several failed sign-in attempts.",
+      `You can try again after ${formatDate(lockedUntil)}.`,
+      "If this wasn’t you, we recommend resetting your password.",
+    ].join("\n\n"),
+  }),
+
+  emailChangeConfirm: ({ newEmail, confirmLink }) => ({
+    subject: "Confirm your new email address",
+    html: layout(`
+      <p>Confirm that you want to use ${escapeHtml(newEmail)} to sign in.</p>
+      <p><a href="${escapeHtml(confirmLink)}">Confirm email change</a></p>
+      <p>If you didn’t request this, you can ignore this email.</p>`),
+    text: [
+      `Confirm that you want to use ${newEmail} to sign in.`,
+      `Confirm email change: ${confirmLink}`,
+      "If you didn’t request this, you can ignore this email.",
+    ].join("\n\n"),
+  }),
+
+  emailChangeNotice: ({ newEmail, cancelLink }) => ({
+    subject: "Your email address is being changed",
+    html: layout(`
+      <p>Someone asked to change the email on your account to ${escapeHtml(newEmail)}.</p>
+      <p>If this wasn’t you, <a href="${escapeHtml(cancelLink)}">cancel the change</a>.
+      This also signs out every device.</p>
+      <p>The link keeps working for a few days after the change goes through. If it
+      already has, your old email is restored and we send you a link to set a new password.</p>`),
+    text: [
+      `Someone asked to change the email on your account to ${newEmail}.`,
+      `If this wasn’t you, cancel the change (this also signs out every device): ${cancelLink}`,
+      "The link keeps working for a few days after the change goes through. If it already has, your old email is restored and we send you a link to set a new password.",
+    ].join("\n\n"),
+  }),
+
+  providerApproved: ({ displayName, note }) => ({
+    subject: "Your profile has been approved",
+    html: layout(`
+      <p>Hi ${escapeHtml(displayName)},</p>
+      <p>Your profile passed verification and is now approved.</p>
+      ${note ? `<p>Note from our team: ${escapeHtml(note)}</p>` : ""}
+      <p><a href="${escapeHtml(frontendUrl())}">Go to your dashboard</a></p>`),
+    text: [
+      `Hi ${displayName},`,
+      "Your profile passed verification and is now approved.",
+      ...(note ? [`Note from our team: ${note}`] : []),
+      `Go to your dashboard: ${frontendUrl()}`,
+    ].join("\n\n"),
+  }),
+
+  providerRejected: ({ displayName, reason }) => ({
+    subject: "Your profile needs changes",
+    html: layout(`
+      <p>Hi ${escapeHtml(displayName)},</p>
+      <p>We couldn’t approve your profile yet. Reason:</p>
+      <blockquote>${escapeHtml(reason)}</blockquote>
+      <p>Please update your profile and we’ll review it again.</p>`),
+    text: [
+      `Hi ${displayName},`,
+      "We couldn’t approve your profile yet. Reason:",
+      reason,
+      "Please update your profile and we’ll review it again.",
+    ].join("\n\n"),
+  }),
+
+  subscriptionExpiring: ({ displayName, expiresAt, daysLeft }) => {
+    const when = daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`;
+    return {
+      subject: `Your subscription expires ${when}`,
+      html: layout(`
+        <p>Hi ${escapeHtml(displayName)},</p>
+        <p>Your subscription expires ${when} (${escapeHtml(formatDate(expiresAt))}).
+        After that your profile is hidden from listings.</p>
+        <p><a href="${escapeHtml(frontendUrl("?action=renew"))}">Renew now</a></p>`),
+      text: [
+        `Hi ${displayName},`,
+        `Your subscription expires ${when} (${formatDate(expiresAt)}). After that your profile is hidden from listings.`,
+        `Renew now: ${frontendUrl("?action=renew")}`,
+      ].join("\n\n"),
+    };
+  },
+
+  subscriptionExpired: ({ displayName, expiredAt, graceDays }) => ({
+    subject: "Your subscription has expired",
+    html: layout(`
+      <p>Hi ${escapeHtml(displayName)},</p>
+      <p>Your subscription expired on ${escapeHtml(formatDate(expiredAt))}, so your
+      profile is no longer shown in listings or the feed.</p>
+      ${graceDays > 0 ? `<p>People who already know you can still open your profile for ${graceDays} more day${graceDays === 1 ? "" : "s"}.</p>` : ""}
+      <p><a href="${escapeHtml(frontendUrl("?action=renew"))}">Renew now</a></p>`),
+    text: [
+      `Hi ${displayName},`,
+      `Your subscription expired on ${formatDate(expiredAt)}, so your profile is no longer shown in listings or the feed.`,
+      ...(graceDays > 0
+        ? [`People who already know you can still open your profile for ${graceDays} more day${graceDays === 1 ? "" : "s"}.`]
+        : []),
+      `Renew now: ${frontendUrl("?action=renew")}`,
+    ].join("\n\n"),
+  }),
+
+  subscriptionRenewed: ({ displayName, planName, expiresAt }) => ({
+    subject: "Payment received – your subscription is active",
+    html: layout(`
+      <p>Hi ${escapeHtml(displayName)},</p>
+      <p>Thanks for your payment for ${escapeHtml(planName)}. Your subscription is
+      active until ${escapeHtml(formatDate(expiresAt))}.</p>
+      <p><a href="${escapeHtml(frontendUrl())}">Go to your dashboard</a></p>`),
+    text: [
+      `Hi ${displayName},`,
+      `Thanks for your payment for ${planName}. Your subscription is active until ${formatDate(expiresAt)}.`,
+      `Go to your dashboard: ${frontendUrl()}`,
+    ].join("\n\n"),
+  }),
+
+  newMessageDigest: ({ displayName, conversations }) => {
+    const total = conversations.reduce((sum, c) => sum + c.unreadCount, 0);
+    return {
+      subject: `You have ${total} unread message${total === 1 ? "" : "s"}`,
+      html: layout(`
+        <p>Hi ${escapeHtml(displayName)},</p>
+        <ul>
+          ${conversations
+            .map(
+              (c) =>
+                `<li>${escapeHtml(c.fromName)}: ${c.unreadCount} new</li>`,
+            )
+            .join("")}
+        </ul>
+        <p><a href="${escapeHtml(frontendUrl("?action=chats"))}">Open your inbox</a></p>`),
+      text: [
+        `Hi ${displayName},`,
+        conversations.map((c) => `- ${c.fromName}: ${c.unreadCount} new`).join("\n"),
+        `Open your inbox: ${frontendUrl("?action=chats")}`,
+      ].join("\n\n"),
+    };
+  },
+};
+
+export function renderTemplate<T extends TemplateName>(
+  name: T,
+  data: TemplateData[T],
+): RenderedEmail {
+  const render = renderers[name] as (d: TemplateData[T]) => RenderedEmail;
+  return render(data);
+}
+
+export function isTemplateName(name: string): name is TemplateName {
+  return name in renderers;
+}
@@ -0,0 +1,105 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import sgMail from "@sendgrid/mail";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function mailFrom() {
+  return process.env.MAIL_FROM || "Verbose <no-reply@verbose.local>";
+}
+
+export class SmtpTransport implements MailTransport {
+  name = "smtp";
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: mailFrom(), ...message });
+  }
+}
+
+export class SendGridTransport implements MailTransport {
+  name = "sendgrid";
+
+  constructor() {
+    const apiKey = process.env.SENDGRID_API_KEY;
+    if (!apiKey) throw new Error("SENDGRID_API_KEY missing");
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage) {
+    await sgMail.send({ from: mailFrom(), ...message });
+  }
+}
+
+/**
+ * Local development: logs the recipient and subject of every email and, when
+ * MAIL_OUTPUT_DIR is set, writes the HTML and text bodies there so links can
+ * be clicked. Bodies are never logged: they hold one-time codes and links.
+ */
+export class ConsoleTransport implements MailTransport {
+  name = "console";
+
+  async send(message: MailMessage) {
+    console.log("[EMAIL]", { to: message.to, subject: message.subject });
+
+    const dir = process.env.MAIL_OUTPUT_DIR;
+    if (!dir) return;
+
+    await fs.mkdir(dir, { recursive: true });
+    const base = path.join(
+      dir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}`,
+    );
+    await fs.writeFile(`${base}.html`, message.html);
+    await fs.writeFile(`${base}.txt`, `Subject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * MAIL_TRANSPORT=smtp|sendgrid|console (default console).
+ * The console transport is refused in production.
+ */
+export function getTransport(): MailTransport {
+  if (transport) return transport;
+
+  const name = process.env.MAIL_TRANSPORT || "console";
+  if (name === "console" && process.env.NODE_ENV === "production") {
+    throw new Error("The console mail transport is disabled in production; set MAIL_TRANSPORT");
+  }
+
+  switch (name) {
+    case "smtp":
+      transport = new SmtpTransport();
+      break;
+    case "sendgrid":
+      transport = new SendGridTransport();
+      break;
+    case "console":
+      transport = new ConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+
+  return transport;
+}
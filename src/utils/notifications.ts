@@ -0,0 +1,39 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+
+export type NotificationInput = {
+  userId: string;
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  // Same key twice is a no-op, so jobs can rerun safely
+  dedupeKey?: string;
+};
+
+/**
+ * Inserts an in-app notification. Returns its id, or null when one with the
+ * same dedupeKey already exists.
+ */
+export async function notify(db: PoolClient | typeof pool, n: NotificationInput) {
+  const r = await db.query(
+    `INSERT INTO notifications (user_id, type, title, body, data, dedupe_key)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+     ON CONFLICT (dedupe_key) DO NOTHING
+     RETURNING id`,
+    [n.userId, n.type, n.title, n.body, JSON.stringify(n.data ?? {}), n.dedupeKey ?? null],
+  );
+  return (r.rows[0]?.id as string | undefined) ?? null;
+}
+
+export function toNotificationDto(row: any) {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    body: row.body,
+    data: row.data,
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  };
+}
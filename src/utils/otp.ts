@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { pool } from "../config/db";
+import { sendOtpEmail } from "./mailer";
+
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+export type OtpType = "guest" | "provider";
+
+export type IssueOtpResult =
+  | { ok: true }
+  | { ok: false; reason: "COOLDOWN"; retryAfterSeconds: number };
+
+export type VerifyOtpResult =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: "NOT_FOUND" | "EXPIRED" | "TOO_MANY_ATTEMPTS" | "MISMATCH";
+      attemptsRemaining?: number;
+    };
+
+function hashCode(code: string) {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+export function otpTypeForRole(role: string): OtpType {
+  return role === "PROVIDER" ? "provider" : "guest";
+}
+
+/**
+ * Issues a fresh 6-digit code for the email and mails it.
+ * Any previous unverified code for that email stops working.
+ */
+export async function issueOtp(
+  email: string,
+  type: OtpType,
+): Promise<IssueOtpResult> {
+  const lastRes = await pool.query(
+    `SELECT created_at FROM otp_tokens
+     WHERE email = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [email],
+  );
+
+  const last = lastRes.rows[0];
+  if (last) {
+    const elapsed = (Date.now() - new Date(last.created_at).getTime()) / 1000;
+    if (elapsed < OTP_RESEND_COOLDOWN_SECONDS) {
+      return {
+        ok: false,
+        reason: "COOLDOWN",
+        retryAfterSeconds: Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - elapsed),
+      };
+    }
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    await client.query(
+      `UPDATE otp_tokens SET invalidated_at = now()
+       WHERE email = $1 AND verified_at IS NULL AND invalidated_at IS NULL`,
+      [email],
+    );
+
+    await client.query(
+      `INSERT INTO otp_tokens (email, code, type, expires_at)
+       VALUES ($1, $2, $3, $4)`,
+      [email, hashCode(code), type, expiresAt],
+    );
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  await sendOtpEmail({ to: email, code, expiresInMinutes: OTP_TTL_MINUTES });
+
+  return { ok: true };
+}
+
+/**
+ * Checks a code against the latest active token for the email.
+ * On success marks both the token and users.email_verified_at.
+ */
+export async function verifyOtp(
+  email: string,
+  code: string,
+): Promise<VerifyOtpResult> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const tokRes = await client.query(
+      `SELECT id, code, attempts, expires_at
+       FROM otp_tokens
+       WHERE email = $1 AND verified_at IS NULL AND invalidated_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [email],
+    );
+
+    const row = tokRes.rows[0];
+    if (!row) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "NOT_FOUND" };
+    }
+
+    if (new Date(row.expires_at).getTime() < Date.now()) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "EXPIRED" };
+    }
+
+    if (row.attempts >= OTP_MAX_ATTEMPTS) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "TOO_MANY_ATTEMPTS" };
+    }
+
+    const matches = crypto.timingSafeEqual(
+      Buffer.from(hashCode(code)),
+      Buffer.from(row.code),
+    );
+
+    if (!matches) {
+      await client.query(
+        `UPDATE otp_tokens SET attempts = attempts + 1 WHERE id = $1`,
+        [row.id],
+      );
+      await client.query("COMMIT");
+      return {
+        ok: false,
+        reason: "MISMATCH",
+        attemptsRemaining: Math.max(0, OTP_MAX_ATTEMPTS - row.attempts - 1),
+      };
+    }
+
+    await client.query(
+      `UPDATE otp_tokens SET verified_at = now() WHERE id = $1`,
+      [row.id],
+    );
+
+    await client.query(
+      `UPDATE users
+       SET email_verified_at = COALESCE(email_verified_at, now()), updated_at = now()
+       WHERE email = $1`,
+      [email],
+    );
+
+    await client.query("COMMIT");
+    return { ok: true };
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
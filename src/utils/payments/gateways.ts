@@ -0,0 +1,382 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+
+export const GATEWAY_NAMES = ["paystack", "flutterwave", "mock"] as const;
+export type GatewayName = (typeof GATEWAY_NAMES)[number];
+
+export type PaymentIntentInput = {
+  reference: string;
+  // Minor units (kobo for NGN)
+  amount: number;
+  currency: string;
+  email: string;
+  callbackUrl: string;
+  metadata: Record<string, unknown>;
+};
+
+export type PaymentIntent = {
+  checkoutUrl: string;
+};
+
+export type PaymentVerification = {
+  status: "SUCCEEDED" | "FAILED" | "PENDING";
+  // Minor units, as charged by the gateway
+  amount: number;
+  currency: string;
+  paidAt: Date | null;
+};
+
+export type WebhookEventType =
+  | "PAYMENT_SUCCEEDED"
+  | "PAYMENT_FAILED"
+  | "PAYMENT_REFUNDED"
+  | "IGNORED";
+
+export type WebhookEvent = {
+  // Unique per gateway; used to drop redelivered events
+  eventKey: string;
+  type: WebhookEventType;
+  // Our payment reference
+  reference: string | null;
+  amount: number;
+  currency: string;
+  occurredAt: Date | null;
+};
+
+export interface PaymentGateway {
+  name: GatewayName;
+  createPaymentIntent(input: PaymentIntentInput): Promise<PaymentIntent>;
+  verifyPayment(reference: string): Promise<PaymentVerification>;
+  // rawBody must be the exact bytes received, not re-serialized JSON
+  verifyWebhookSignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  parseWebhookEvent(body: any): WebhookEvent;
+}
+
+export class PaymentGatewayError extends Error {}
+
+function header(headers: IncomingHttpHeaders, name: string) {
+  const v = headers[name];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function hmacMatches(
+  algorithm: "sha256" | "sha512",
+  secret: string,
+  rawBody: Buffer,
+  signature: string | undefined,
+  encoding: "hex" | "base64",
+) {
+  if (!signature) return false;
+  const expected = crypto.createHmac(algorithm, secret).update(rawBody).digest();
+  const given = Buffer.from(signature, encoding);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// A slow gateway must not hold checkout or verify requests open forever
+const GATEWAY_TIMEOUT_MS = Number(process.env.PAYMENT_GATEWAY_TIMEOUT_MS || 15_000);
+
+async function requestJson(url: string, init: RequestInit) {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS) });
+  } catch (e: any) {
+    if (e?.name === "TimeoutError") throw new PaymentGatewayError("Gateway request timed out");
+    throw e;
+  }
+  const body: any = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new PaymentGatewayError(
+      `Gateway request failed (${res.status}): ${body?.message ?? res.statusText}`,
+    );
+  }
+  return body;
+}
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} missing`);
+  return value;
+}
+
+/**
+ * https://paystack.com/docs/api/transaction
+ * Amounts are already in kobo.
+ */
+export class PaystackGateway implements PaymentGateway {
+  name = "paystack" as const;
+  private baseUrl = process.env.PAYSTACK_BASE_URL || "https://api.paystack.co";
+  private secretKey = requireEnv("PAYSTACK_SECRET_KEY");
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  async createPaymentIntent(input: PaymentIntentInput) {
+    const body = await requestJson(`${this.baseUrl}/transaction/initialize`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        email: input.email,
+        amount: input.amount,
+        currency: input.currency,
+        reference: input.reference,
+        callback_url: input.callbackUrl,
+        metadata: input.metadata,
+      }),
+    });
+    return { checkoutUrl: body.data.authorization_url as string };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const body = await requestJson(
+      `${this.baseUrl}/transaction/verify/${encodeURIComponent(reference)}`,
+      { headers: this.headers() },
+    );
+    const data = body.data;
+    return {
+      status:
+        data.status === "success"
+          ? "SUCCEEDED"
+          : data.status === "failed" || data.status === "abandoned"
+            ? "FAILED"
+            : "PENDING",
+      amount: Number(data.amount),
+      currency: data.currency,
+      paidAt: data.paid_at ? new Date(data.paid_at) : null,
+    };
+  }
+
+  // x-paystack-signature: HMAC-SHA512 of the body with the secret key
+  verifyWebhookSignature(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    return hmacMatches(
+      "sha512",
+      this.secretKey,
+      rawBody,
+      header(headers, "x-paystack-signature"),
+      "hex",
+    );
+  }
+
+  parseWebhookEvent(body: any): WebhookEvent {
+    const data = body?.data ?? {};
+    const base = {
+      amount: Number(data.amount ?? 0),
+      currency: data.currency ?? "NGN",
+    };
+
+    switch (body?.event) {
+      case "charge.success":
+        return {
+          ...base,
+          eventKey: `charge.success:${data.id ?? data.reference}`,
+          type: "PAYMENT_SUCCEEDED",
+          reference: data.reference ?? null,
+          occurredAt: data.paid_at ? new Date(data.paid_at) : null,
+        };
+      case "refund.processed":
+        return {
+          ...base,
+          eventKey: `refund.processed:${data.id ?? data.transaction_reference}`,
+          type: "PAYMENT_REFUNDED",
+          reference: data.transaction_reference ?? null,
+          occurredAt: data.refunded_at ? new Date(data.refunded_at) : null,
+        };
+      default:
+        return {
+          ...base,
+          eventKey: `${body?.event}:${data.id ?? data.reference}`,
+          type: "IGNORED",
+          reference: data.reference ?? null,
+          occurredAt: null,
+        };
+    }
+  }
+}
+
+/**
+ * https://developer.flutterwave.com/docs/collecting-payments/standard
+ * Flutterwave works in major units, so amounts are converted both ways.
+ */
+export class FlutterwaveGateway implements PaymentGateway {
+  name = "flutterwave" as const;
+  private baseUrl = process.env.FLUTTERWAVE_BASE_URL || "https://api.flutterwave.com/v3";
+  private secretKey = requireEnv("FLUTTERWAVE_SECRET_KEY");
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  async createPaymentIntent(input: PaymentIntentInput) {
+    const body = await requestJson(`${this.baseUrl}/payments`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        tx_ref: input.reference,
+        amount: input.amount / 100,
+        currency: input.currency,
+        redirect_url: input.callbackUrl,
+        customer: { email: input.email },
+        meta: input.metadata,
+      }),
+    });
+    return { checkoutUrl: body.data.link as string };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const body = await requestJson(
+      `${this.baseUrl}/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+      { headers: this.headers() },
+    );
+    const data = body.data;
+    return {
+      status:
+        data.status === "successful"
+          ? "SUCCEEDED"
+          : data.status === "failed"
+            ? "FAILED"
+            : "PENDING",
+      amount: Math.round(Number(data.amount) * 100),
+      currency: data.currency,
+      paidAt: data.created_at ? new Date(data.created_at) : null,
+    };
+  }
+
+  // flutterwave-signature: base64 HMAC-SHA256 of the body with the secret hash
+  verifyWebhookSignature(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    const secret = process.env.FLUTTERWAVE_WEBHOOK_SECRET;
+    if (!secret) return false;
+    return hmacMatches(
+      "sha256",
+      secret,
+      rawBody,
+      header(headers, "flutterwave-signature"),
+      "base64",
+    );
+  }
+
+  parseWebhookEvent(body: any): WebhookEvent {
+    const data = body?.data ?? {};
+    const base = {
+      amount: Math.round(Number(data.amount ?? 0) * 100),
+      currency: data.currency ?? "NGN",
+      reference: data.tx_ref ?? null,
+      occurredAt: data.created_at ? new Date(data.created_at) : null,
+    };
+
+    if (body?.event === "charge.completed") {
+      return {
+        ...base,
+        eventKey: `charge.completed:${data.id}:${data.status}`,
+        type: data.status === "successful" ? "PAYMENT_SUCCEEDED" : "PAYMENT_FAILED",
+      };
+    }
+    if (body?.event === "refund.completed") {
+      return { ...base, eventKey: `refund.completed:${data.id}`, type: "PAYMENT_REFUNDED" };
+    }
+    return { ...base, eventKey: `${body?.event}:${data.id}`, type: "IGNORED" };
+  }
+}
+
+/**
+ * Local development: no money moves. The checkout URL goes straight back to
+ * the callback and every payment verifies as successful.
+ */
+export class MockGateway implements PaymentGateway {
+  name = "mock" as const;
+  private intents = new Map<string, PaymentIntentInput>();
+
+  async createPaymentIntent(input: PaymentIntentInput) {
+    this.intents.set(input.reference, input);
+    const url = new URL(input.callbackUrl);
+    url.searchParams.set("reference", input.reference);
+    return { checkoutUrl: url.toString() };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const intent = this.intents.get(reference);
+    if (!intent) {
+      return { status: "FAILED", amount: 0, currency: "NGN", paidAt: null };
+    }
+    return {
+      status: "SUCCEEDED",
+      amount: intent.amount,
+      currency: intent.currency,
+      paidAt: new Date(),
+    };
+  }
+
+  /**
+   * x-mock-signature: hex HMAC-SHA256 with MOCK_WEBHOOK_SECRET. Lets the
+   * webhook flow be exercised locally with curl. Every event is rejected
+   * unless the secret is set.
+   * Body: { id, event: "payment.succeeded" | "payment.failed" | "payment.refunded",
+   *         reference, amount, currency }
+   */
+  verifyWebhookSignature(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    const secret = process.env.MOCK_WEBHOOK_SECRET;
+    if (!secret) return false;
+    return hmacMatches("sha256", secret, rawBody, header(headers, "x-mock-signature"), "hex");
+  }
+
+  parseWebhookEvent(body: any): WebhookEvent {
+    const types: Record<string, WebhookEventType> = {
+      "payment.succeeded": "PAYMENT_SUCCEEDED",
+      "payment.failed": "PAYMENT_FAILED",
+      "payment.refunded": "PAYMENT_REFUNDED",
+    };
+    return {
+      eventKey: `${body?.event}:${body?.id}`,
+      type: types[body?.event] ?? "IGNORED",
+      reference: body?.reference ?? null,
+      amount: Number(body?.amount ?? 0),
+      currency: body?.currency ?? "NGN",
+      occurredAt: new Date(),
+    };
+  }
+}
+
+export function isGatewayName(name: string): name is GatewayName {
+  return (GATEWAY_NAMES as readonly string[]).includes(name);
+}
+
+const gateways = new Map<GatewayName, PaymentGateway>();
+
+/**
+ * PAYMENT_GATEWAY=paystack|flutterwave|mock picks the default.
+ * The mock gateway is refused in production.
+ */
+export function getGateway(name?: GatewayName): PaymentGateway {
+  const resolved =
+    name ?? (process.env.PAYMENT_GATEWAY as GatewayName | undefined) ?? "mock";
+
+  if (resolved === "mock" && process.env.NODE_ENV === "production") {
+    throw new PaymentGatewayError("The mock payment gateway is disabled in production");
+  }
+
+  const cached = gateways.get(resolved);
+  if (cached) return cached;
+
+  let gateway: PaymentGateway;
+  switch (resolved) {
+    case "paystack":
+      gateway = new PaystackGateway();
+      break;
+    case "flutterwave":
+      gateway = new FlutterwaveGateway();
+      break;
+    case "mock":
+      gateway = new MockGateway();
+      break;
+    default:
+      throw new PaymentGatewayError(`Unknown payment gateway: ${resolved}`);
+  }
+
+  gateways.set(resolved, gateway);
+  return gateway;
+}
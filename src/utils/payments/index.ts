@@ -0,0 +1,32 @@
+export {
+  getGateway,
+  isGatewayName,
+  GATEWAY_NAMES,
+  PaymentGatewayError,
+} from "./gateways";
+export type {
+  GatewayName,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentIntentInput,
+  PaymentVerification,
+  WebhookEvent,
+  WebhookEventType,
+} from "./gateways";
+export {
+  createCheckout,
+  activatePayment,
+  confirmPayment,
+  failPayment,
+  refundPayment,
+} from "./subscriptions";
+export type {
+  SubscriptionPlan,
+  PlanKind,
+  ActivationResult,
+  RefundResult,
+} from "./subscriptions";
+export { quotePromoCode, PromoCodeError } from "./promoCodes";
+export type { PromoQuote } from "./promoCodes";
+export { handlePaymentWebhook } from "./webhooks";
+export type { WebhookResult } from "./webhooks";
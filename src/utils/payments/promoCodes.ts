@@ -0,0 +1,94 @@
+import { PoolClient } from "pg";
+import type { SubscriptionPlan } from "./subscriptions";
+
+export class PromoCodeError extends Error {}
+
+export type PromoQuote = {
+  promoCodeId: string;
+  code: string;
+  listPrice: number;
+  discount: number;
+  amount: number;
+};
+
+// A pending checkout holds its redemption this long; after that it no
+// longer counts against the limits
+const PENDING_HOLD_MINUTES = 60;
+
+/**
+ * Checks a promo code against the plan and provider and works out the
+ * discounted price. Locks the promo row, so run it in the same transaction
+ * that inserts the payment, otherwise concurrent checkouts can overshoot
+ * max_redemptions.
+ */
+export async function quotePromoCode(
+  db: PoolClient,
+  code: string,
+  plan: SubscriptionPlan,
+  providerId: string,
+): Promise<PromoQuote> {
+  const r = await db.query(
+    `SELECT *
+     FROM promo_codes
+     WHERE code = $1
+     LIMIT 1
+     FOR UPDATE`,
+    [code.trim().toUpperCase()],
+  );
+  const promo = r.rows[0];
+
+  if (!promo || !promo.is_active) throw new PromoCodeError("Invalid promo code");
+
+  const now = Date.now();
+  if (promo.starts_at && new Date(promo.starts_at).getTime() > now) {
+    throw new PromoCodeError("Promo code is not active yet");
+  }
+  if (promo.expires_at && new Date(promo.expires_at).getTime() <= now) {
+    throw new PromoCodeError("Promo code has expired");
+  }
+  if (promo.plan_codes && !promo.plan_codes.includes(plan.code)) {
+    throw new PromoCodeError("Promo code doesn't apply to this plan");
+  }
+  if (promo.discount_type === "FIXED" && promo.currency !== plan.currency) {
+    throw new PromoCodeError("Promo code doesn't apply to this plan");
+  }
+
+  const usageRes = await db.query(
+    `SELECT
+       COUNT(*)::int AS total,
+       COUNT(*) FILTER (WHERE provider_id = $2)::int AS by_provider
+     FROM payments
+     WHERE promo_code_id = $1
+       AND (status = 'SUCCEEDED'
+            OR (status = 'PENDING' AND created_at > now() - make_interval(mins => $3)))`,
+    [promo.id, providerId, PENDING_HOLD_MINUTES],
+  );
+  const usage = usageRes.rows[0];
+
+  if (promo.max_redemptions !== null && usage.total >= promo.max_redemptions) {
+    throw new PromoCodeError("Promo code has been fully redeemed");
+  }
+  if (usage.by_provider >= promo.max_redemptions_per_provider) {
+    throw new PromoCodeError("You have already used this promo code");
+  }
+
+  const listPrice = Number(plan.price);
+  const value = Number(promo.discount_value);
+  const discount =
+    promo.discount_type === "PERCENT"
+      ? Math.floor((listPrice * value) / 100)
+      : Math.min(value, listPrice);
+
+  // Gateways can't charge nothing; full waivers aren't supported
+  if (listPrice - discount <= 0) {
+    throw new PromoCodeError("Promo code doesn't apply to this plan");
+  }
+
+  return {
+    promoCodeId: promo.id,
+    code: promo.code,
+    listPrice,
+    discount,
+    amount: listPrice - discount,
+  };
+}
@@ -0,0 +1,374 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { pool } from "../../config/db";
+import { getGateway, GatewayName } from "./gateways";
+import { PromoQuote, quotePromoCode } from "./promoCodes";
+import { reverseReferralReward, rewardReferral } from "../referrals";
+import { createPromotion } from "../promotions";
+import { notifySubscriptionPaid } from "../subscriptionNotices";
+
+export type SubscriptionPlan = {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  duration_days: number;
+  price: string;
+  currency: string;
+  perks: string[];
+  kind: PlanKind;
+};
+
+export type PlanKind = "SUBSCRIPTION" | "FEATURED" | "BOOST";
+
+function newReference() {
+  return `sub_${crypto.randomBytes(12).toString("hex")}`;
+}
+
+function paymentCallbackUrl() {
+  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
+  return `${frontendUrl}/?action=payment-callback`;
+}
+
+/**
+ * Creates a PENDING payment and asks the gateway for a checkout URL.
+ * Nothing is activated until the gateway confirms the payment.
+ * A promo code, if given, is checked and applied here; PromoCodeError is
+ * thrown when it can't be used.
+ */
+export async function createCheckout(opts: {
+  providerId: string;
+  email: string;
+  plan: SubscriptionPlan;
+  gateway?: GatewayName;
+  promoCode?: string;
+}) {
+  const gateway = getGateway(opts.gateway);
+  const reference = newReference();
+  const listPrice = Number(opts.plan.price);
+
+  const client = await pool.connect();
+  let paymentId: string;
+  let promo: PromoQuote | null = null;
+  try {
+    await client.query("BEGIN");
+
+    if (opts.promoCode) {
+      promo = await quotePromoCode(client, opts.promoCode, opts.plan, opts.providerId);
+    }
+
+    const payRes = await client.query(
+      `INSERT INTO payments
+         (provider_id, plan_id, gateway, reference, amount, currency,
+          list_price, discount_amount, promo_code_id, duration_days, kind)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING id`,
+      [
+        opts.providerId,
+        opts.plan.id,
+        gateway.name,
+        reference,
+        promo?.amount ?? listPrice,
+        opts.plan.currency,
+        listPrice,
+        promo?.discount ?? 0,
+        promo?.promoCodeId ?? null,
+        opts.plan.duration_days,
+        opts.plan.kind,
+      ],
+    );
+    paymentId = payRes.rows[0].id;
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  const amount = promo?.amount ?? listPrice;
+  const pricing = {
+    listPrice,
+    discount: promo?.discount ?? 0,
+    amount,
+    currency: opts.plan.currency,
+    promoCode: promo?.code ?? null,
+  };
+
+  try {
+    const intent = await gateway.createPaymentIntent({
+      reference,
+      amount,
+      currency: opts.plan.currency,
+      email: opts.email,
+      callbackUrl: paymentCallbackUrl(),
+      metadata: {
+        paymentId,
+        providerId: opts.providerId,
+        plan: opts.plan.code,
+        promoCode: promo?.code ?? null,
+      },
+    });
+
+    await pool.query(
+      `UPDATE payments SET checkout_url = $2, updated_at = now() WHERE id = $1`,
+      [paymentId, intent.checkoutUrl],
+    );
+
+    return {
+      paymentId,
+      reference,
+      gateway: gateway.name,
+      checkoutUrl: intent.checkoutUrl,
+      pricing,
+    };
+  } catch (e) {
+    await pool.query(
+      `UPDATE payments SET status = 'FAILED', updated_at = now() WHERE id = $1`,
+      [paymentId],
+    );
+    throw e;
+  }
+}
+
+export type ActivationResult =
+  | {
+      status: "ACTIVATED" | "RENEWED" | "PROMOTION_PURCHASED" | "ALREADY_PROCESSED";
+      // Subscription expiry, or the end of the promotion for FEATURED/BOOST plans
+      expiresAt: Date;
+    }
+  | { status: "NOT_FOUND" | "AMOUNT_MISMATCH" | "NOT_PAYABLE" };
+
+/**
+ * Marks a payment SUCCEEDED, extends the provider's subscription by the
+ * duration bought at checkout and records the subscription event, all in one
+ * transaction. Safe to call more than once for the same payment.
+ *
+ * Time is added on top of any remaining subscription, so renewing early
+ * doesn't lose days. FEATURED and BOOST plans start a promotion instead.
+ */
+export async function activatePayment(
+  reference: string,
+  charged: { amount: number; currency: string; paidAt: Date | null },
+  db?: PoolClient,
+): Promise<ActivationResult> {
+  const client = db ?? (await pool.connect());
+  try {
+    if (!db) await client.query("BEGIN");
+
+    const payRes = await client.query(
+      `SELECT p.id, p.provider_id, p.plan_id, p.amount, p.currency, p.status,
+              p.duration_days, p.kind, pp.city
+       FROM payments p
+       JOIN provider_profiles pp ON pp.id = p.provider_id
+       WHERE p.reference = $1
+       LIMIT 1
+       FOR UPDATE OF p`,
+      [reference],
+    );
+    const payment = payRes.rows[0];
+
+    const finish = async (result: ActivationResult) => {
+      if (!db) await client.query("COMMIT");
+      return result;
+    };
+
+    if (!payment) return finish({ status: "NOT_FOUND" });
+
+    if (payment.status === "SUCCEEDED") {
+      const cur =
+        payment.kind === "SUBSCRIPTION"
+          ? await client.query(
+              `SELECT subscription_expires_at AS expires_at FROM provider_profiles WHERE id = $1`,
+              [payment.provider_id],
+            )
+          : await client.query(
+              `SELECT ends_at AS expires_at FROM provider_promotions WHERE payment_id = $1`,
+              [payment.id],
+            );
+      return finish({
+        status: "ALREADY_PROCESSED",
+        expiresAt: cur.rows[0]?.expires_at,
+      });
+    }
+
+    if (payment.status !== "PENDING" && payment.status !== "FAILED") {
+      return finish({ status: "NOT_PAYABLE" });
+    }
+
+    if (
+      charged.amount < Number(payment.amount) ||
+      charged.currency.toUpperCase() !== String(payment.currency).toUpperCase()
+    ) {
+      return finish({ status: "AMOUNT_MISMATCH" });
+    }
+
+    let eventType: "ACTIVATED" | "RENEWED" | "PROMOTION_PURCHASED";
+    let expiresAt: Date;
+
+    if (payment.kind === "SUBSCRIPTION") {
+      const provRes = await client.query(
+        `SELECT subscription_expires_at
+         FROM provider_profiles
+         WHERE id = $1
+         FOR UPDATE`,
+        [payment.provider_id],
+      );
+      const current: Date | null = provRes.rows[0]?.subscription_expires_at ?? null;
+      const isRenewal = !!current && current.getTime() > Date.now();
+
+      const updRes = await client.query(
+        `UPDATE provider_profiles
+         SET subscription_expires_at = GREATEST(now(), COALESCE(subscription_expires_at, now()))
+                                       + make_interval(days => $2),
+             updated_at = now()
+         WHERE id = $1
+         RETURNING subscription_expires_at`,
+        [payment.provider_id, payment.duration_days],
+      );
+      expiresAt = updRes.rows[0].subscription_expires_at;
+      eventType = isRenewal ? "RENEWED" : "ACTIVATED";
+
+      await notifySubscriptionPaid(client, {
+        providerId: payment.provider_id,
+        paymentId: payment.id,
+        expiresAt,
+      });
+    } else {
+      // Featured placements are for the city on the profile at purchase time
+      const promotion = await createPromotion(client, {
+        providerId: payment.provider_id,
+        type: payment.kind,
+        city: payment.city,
+        days: payment.duration_days,
+        paymentId: payment.id,
+      });
+      expiresAt = promotion.ends_at;
+      eventType = "PROMOTION_PURCHASED";
+    }
+
+    await client.query(
+      `UPDATE payments
+       SET status = 'SUCCEEDED',
+           paid_at = COALESCE($2, now()),
+           receipt_number = COALESCE(
+             receipt_number,
+             'VRB-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('payment_receipt_seq')::text, 6, '0')
+           ),
+           updated_at = now()
+       WHERE id = $1`,
+      [payment.id, charged.paidAt],
+    );
+
+    await client.query(
+      `INSERT INTO subscription_events
+         (provider_id, event_type, amount, reference, payment_id, plan_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [payment.provider_id, eventType, payment.amount, reference, payment.id, payment.plan_id, expiresAt],
+    );
+
+    // No-op unless this provider was referred and it's their first payment
+    await rewardReferral(client, payment.provider_id, payment.id);
+
+    return finish({ status: eventType, expiresAt });
+  } catch (e) {
+    if (!db) await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    if (!db) client.release();
+  }
+}
+
+export async function failPayment(reference: string, db: PoolClient | typeof pool = pool) {
+  const r = await db.query(
+    `UPDATE payments SET status = 'FAILED', updated_at = now()
+     WHERE reference = $1 AND status = 'PENDING'
+     RETURNING id`,
+    [reference],
+  );
+  return r.rows.length > 0;
+}
+
+export type RefundResult =
+  | { status: "REFUNDED"; expiresAt: Date | null }
+  | { status: "NOT_FOUND" | "NOT_REFUNDABLE" | "ALREADY_PROCESSED" };
+
+/**
+ * Takes back the time a refunded payment bought (or ends the promotion it
+ * bought), along with any referral credit it earned the referrer. Must run
+ * inside the caller's transaction.
+ */
+export async function refundPayment(reference: string, db: PoolClient): Promise<RefundResult> {
+  const payRes = await db.query(
+    `SELECT id, provider_id, plan_id, amount, status, duration_days, kind
+     FROM payments
+     WHERE reference = $1
+     LIMIT 1
+     FOR UPDATE`,
+    [reference],
+  );
+  const payment = payRes.rows[0];
+  if (!payment) return { status: "NOT_FOUND" };
+  if (payment.status === "REFUNDED") return { status: "ALREADY_PROCESSED" };
+  if (payment.status !== "SUCCEEDED") return { status: "NOT_REFUNDABLE" };
+
+  let expiresAt: Date | null = null;
+  if (payment.kind === "SUBSCRIPTION") {
+    const updRes = await db.query(
+      `UPDATE provider_profiles
+       SET subscription_expires_at = subscription_expires_at - make_interval(days => $2),
+           updated_at = now()
+       WHERE id = $1
+       RETURNING subscription_expires_at`,
+      [payment.provider_id, payment.duration_days],
+    );
+    expiresAt = updRes.rows[0]?.subscription_expires_at ?? null;
+  } else {
+    await db.query(
+      `UPDATE provider_promotions SET cancelled_at = now()
+       WHERE payment_id = $1 AND cancelled_at IS NULL`,
+      [payment.id],
+    );
+  }
+
+  await db.query(
+    `UPDATE payments SET status = 'REFUNDED', updated_at = now() WHERE id = $1`,
+    [payment.id],
+  );
+
+  await db.query(
+    `INSERT INTO subscription_events
+       (provider_id, event_type, amount, reference, payment_id, plan_id, expires_at)
+     VALUES ($1, 'REFUNDED', $2, $3, $4, $5, $6)`,
+    [payment.provider_id, payment.amount, reference, payment.id, payment.plan_id, expiresAt],
+  );
+
+  // No-op unless this was the payment that rewarded a referral
+  await reverseReferralReward(db, payment.id);
+
+  return { status: "REFUNDED", expiresAt };
+}
+
+/**
+ * Asks the payment's gateway whether it was paid and activates it if so.
+ */
+export async function confirmPayment(reference: string) {
+  const r = await pool.query(
+    `SELECT gateway FROM payments WHERE reference = $1 LIMIT 1`,
+    [reference],
+  );
+  const payment = r.rows[0];
+  if (!payment) return { status: "NOT_FOUND" as const };
+
+  const verification = await getGateway(payment.gateway).verifyPayment(reference);
+
+  if (verification.status === "PENDING") return { status: "PENDING" as const };
+
+  if (verification.status === "FAILED") {
+    await failPayment(reference);
+    return { status: "FAILED" as const };
+  }
+
+  return activatePayment(reference, verification);
+}
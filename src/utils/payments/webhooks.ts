@@ -0,0 +1,109 @@
+import { IncomingHttpHeaders } from "http";
+import { pool } from "../../config/db";
+import { GatewayName, getGateway } from "./gateways";
+import { activatePayment, failPayment, refundPayment } from "./subscriptions";
+
+export type WebhookResult =
+  | { status: "INVALID_SIGNATURE" | "INVALID_PAYLOAD" }
+  | { status: "DUPLICATE"; eventId: string }
+  | { status: "PROCESSED"; eventId: string; outcome: string };
+
+/**
+ * Verifies, stores and applies one gateway webhook delivery.
+ *
+ * The event row and the subscription change commit together, so a
+ * redelivery after a crash is processed again, while a redelivery after
+ * success hits the (gateway, event_key) unique key and is skipped.
+ */
+export async function handlePaymentWebhook(
+  gatewayName: GatewayName,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders,
+): Promise<WebhookResult> {
+  const gateway = getGateway(gatewayName);
+
+  if (!gateway.verifyWebhookSignature(rawBody, headers)) {
+    return { status: "INVALID_SIGNATURE" };
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    return { status: "INVALID_PAYLOAD" };
+  }
+
+  const event = gateway.parseWebhookEvent(body);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const insRes = await client.query(
+      `INSERT INTO payment_events (gateway, event_key, event_type, reference, amount, currency, payload)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+       ON CONFLICT (gateway, event_key) DO NOTHING
+       RETURNING id`,
+      [
+        gateway.name,
+        event.eventKey,
+        event.type,
+        event.reference,
+        event.amount,
+        event.currency,
+        JSON.stringify(body),
+      ],
+    );
+
+    if (!insRes.rows[0]) {
+      await client.query("ROLLBACK");
+      const existing = await pool.query(
+        `SELECT id FROM payment_events WHERE gateway = $1 AND event_key = $2`,
+        [gateway.name, event.eventKey],
+      );
+      return { status: "DUPLICATE", eventId: existing.rows[0]?.id };
+    }
+
+    const eventId: string = insRes.rows[0].id;
+    let outcome: string;
+
+    // A gateway may only settle its own payments; otherwise a forged event on
+    // one gateway's endpoint could activate or refund another gateway's payment
+    const payRes = event.reference
+      ? await client.query(`SELECT gateway FROM payments WHERE reference = $1 LIMIT 1`, [
+          event.reference,
+        ])
+      : null;
+    const paymentGateway: string | undefined = payRes?.rows[0]?.gateway;
+
+    if (!event.reference || event.type === "IGNORED") {
+      outcome = "IGNORED";
+    } else if (paymentGateway && paymentGateway !== gateway.name) {
+      outcome = "GATEWAY_MISMATCH";
+    } else if (event.type === "PAYMENT_SUCCEEDED") {
+      const r = await activatePayment(
+        event.reference,
+        { amount: event.amount, currency: event.currency, paidAt: event.occurredAt },
+        client,
+      );
+      outcome = r.status;
+    } else if (event.type === "PAYMENT_FAILED") {
+      outcome = (await failPayment(event.reference, client)) ? "FAILED" : "IGNORED";
+    } else {
+      outcome = (await refundPayment(event.reference, client)).status;
+    }
+
+    await client.query(
+      `UPDATE payment_events SET outcome = $2, processed_at = now() WHERE id = $1`,
+      [eventId, outcome],
+    );
+
+    await client.query("COMMIT");
+    return { status: "PROCESSED", eventId, outcome };
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,31 @@
+import { pool } from "../config/db";
+
+// Must match the rows seeded in the migrations (013_staff_permissions.sql onwards)
+export const PERMISSIONS = [
+  "providers.read",
+  "providers.approve",
+  "blacklist.verify",
+  "users.read",
+  "users.manage",
+  "staff.manage",
+  "billing.manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted to a user through their staff roles.
+ * Resolved per request (not embedded in the token) so revoking a role
+ * takes effect immediately.
+ */
+export async function getUserPermissions(userId: string): Promise<Permission[]> {
+  const r = await pool.query(
+    `SELECT DISTINCT rp.permission_key
+     FROM user_staff_roles ur
+     JOIN staff_role_permissions rp ON rp.role_id = ur.role_id
+     WHERE ur.user_id = $1
+     ORDER BY rp.permission_key`,
+    [userId],
+  );
+  return r.rows.map((row) => row.permission_key);
+}
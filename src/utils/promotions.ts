@@ -0,0 +1,105 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+
+/**
+ * Featured and boosted placements in the public listing.
+ *
+ * FEATURED providers are pinned above everyone else when their promotion's
+ * city is the city on their profile; BOOST providers come next. Within each
+ * group the order is shuffled by a seed that changes every few minutes, so
+ * concurrently promoted providers take turns at the top while a page-through
+ * stays stable.
+ */
+export const PROMOTION_TYPES = ["FEATURED", "BOOST"] as const;
+export type PromotionType = (typeof PROMOTION_TYPES)[number];
+
+export const PROMOTION_ROTATION_MINUTES = Number(process.env.PROMOTION_ROTATION_MINUTES || 10);
+
+/**
+ * SQL condition that is true while the provider row aliased as `alias` has a
+ * live promotion of the given type.
+ */
+export function activePromotionExpr(type: PromotionType, alias = "p") {
+  const cityMatch = type === "FEATURED" ? `AND lower(pr.city) = lower(${alias}.city)` : "";
+  return `EXISTS (
+        SELECT 1 FROM provider_promotions pr
+        WHERE pr.provider_id = ${alias}.id
+          AND pr.type = '${type}'
+          AND pr.cancelled_at IS NULL
+          AND pr.starts_at <= now()
+          AND pr.ends_at > now()
+          ${cityMatch}
+      )`;
+}
+
+/**
+ * Current rotation window; feed it to md5(p.id::text || seed) to order
+ * promoted providers.
+ */
+export function rotationSeed(now = Date.now()) {
+  return String(Math.floor(now / (PROMOTION_ROTATION_MINUTES * 60 * 1000)));
+}
+
+/**
+ * Adds a promotion. Without an explicit start it queues after any live
+ * promotion of the same type (and city), so buying twice doesn't overlap.
+ */
+export async function createPromotion(
+  db: PoolClient | typeof pool,
+  opts: {
+    providerId: string;
+    type: PromotionType;
+    city: string | null;
+    days: number;
+    startsAt?: Date;
+    paymentId?: string;
+    grantedBy?: string;
+    note?: string;
+  },
+) {
+  const r = await db.query(
+    `
+    WITH start AS (
+      SELECT COALESCE($5::timestamptz, GREATEST(now(), (
+        SELECT MAX(ends_at) FROM provider_promotions
+        WHERE provider_id = $1
+          AND type = $2
+          AND cancelled_at IS NULL
+          AND ($2 <> 'FEATURED' OR lower(city) = lower($3))
+      ), now())) AS at
+    )
+    INSERT INTO provider_promotions
+      (provider_id, type, city, starts_at, ends_at, payment_id, granted_by, note)
+    SELECT $1, $2, $3, start.at, start.at + make_interval(days => $4), $6, $7, $8
+    FROM start
+    RETURNING *
+    `,
+    [
+      opts.providerId,
+      opts.type,
+      opts.type === "FEATURED" ? opts.city : null,
+      opts.days,
+      opts.startsAt ?? null,
+      opts.paymentId ?? null,
+      opts.grantedBy ?? null,
+      opts.note ?? null,
+    ],
+  );
+  return r.rows[0];
+}
+
+export function toPromotionDto(row: any) {
+  return {
+    id: row.id,
+    providerId: row.provider_id,
+    type: row.type,
+    city: row.city,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    source: row.payment_id ? "PAID" : "GRANTED",
+    paymentId: row.payment_id,
+    note: row.note ?? null,
+    cancelledAt: row.cancelled_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,103 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+
+/**
+ * Per-plan media limits. The limit comes from the plan of the provider's
+ * latest paid subscription while it is active; without one (new, lapsed,
+ * or time given through an admin subscription grant) DEFAULT_MEDIA_LIMIT
+ * applies. Cover and avatar count.
+ */
+export const DEFAULT_MEDIA_LIMIT = Number(process.env.DEFAULT_MEDIA_LIMIT || 8);
+
+export type MediaQuota = {
+  // null: no limit
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  planCode: string | null;
+};
+
+// Verification selfies of older accounts are still provider_media rows;
+// they are never shown or managed, so they don't count either
+export function managedMediaFilter(alias = "m") {
+  return `NOT EXISTS (
+      SELECT 1 FROM provider_identity i
+      WHERE i.provider_id = ${alias}.provider_id
+        AND i.verification_selfie_media_id = ${alias}.id
+    )`;
+}
+
+export async function getMediaQuota(
+  db: PoolClient | typeof pool,
+  providerId: string,
+): Promise<MediaQuota> {
+  const r = await db.query(
+    `
+    SELECT
+      (SELECT COUNT(*)::int FROM provider_media m
+        WHERE m.provider_id = p.id AND ${managedMediaFilter("m")}) AS used,
+      plan.code AS plan_code,
+      plan.max_media
+    FROM provider_profiles p
+    LEFT JOIN LATERAL (
+      SELECT pl.code, pl.max_media
+      FROM payments pay
+      JOIN subscription_plans pl ON pl.id = pay.plan_id
+      WHERE pay.provider_id = p.id
+        AND pay.status = 'SUCCEEDED'
+        AND pay.kind = 'SUBSCRIPTION'
+        AND p.subscription_expires_at > now()
+      ORDER BY pay.paid_at DESC
+      LIMIT 1
+    ) plan ON true
+    WHERE p.id = $1
+    `,
+    [providerId],
+  );
+  const row = r.rows[0];
+  const used: number = row?.used ?? 0;
+
+  // A paid plan with max_media NULL is unlimited
+  const limit: number | null = row?.plan_code ? row.max_media : DEFAULT_MEDIA_LIMIT;
+
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+    planCode: row?.plan_code ?? null,
+  };
+}
+
+/**
+ * Renumbers positions 0..n-1 in their current order, after deletions.
+ */
+export async function compactMediaPositions(db: PoolClient, providerId: string) {
+  await db.query(
+    `UPDATE provider_media m
+     SET position = o.rn - 1
+     FROM (
+       SELECT id, row_number() OVER (ORDER BY position, created_at, id) AS rn
+       FROM provider_media
+       WHERE provider_id = $1
+     ) o
+     WHERE o.id = m.id AND m.position <> o.rn - 1`,
+    [providerId],
+  );
+}
+
+export function toProviderMediaDto(row: any) {
+  return {
+    id: row.id,
+    url: row.url,
+    type: row.type,
+    isCover: row.is_cover,
+    isAvatar: row.is_avatar,
+    position: row.position,
+    renditions: row.renditions ?? null,
+    posterUrl: row.poster_url ?? null,
+    durationSeconds: row.duration_seconds === null || row.duration_seconds === undefined
+      ? null
+      : Number(row.duration_seconds),
+    createdAt: row.created_at,
+  };
+}
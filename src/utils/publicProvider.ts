@@ -0,0 +1,187 @@
+/**
+ * Public projection of provider profiles.
+ *
+ * Anything shown to guests or other users goes through these helpers, so
+ * a new column or stats key is private until it is added here on purpose.
+ * Identity data (real name, DOB, selfie, referral code) lives in
+ * provider_identity and is never selected by these queries.
+ */
+
+import type { ImageRenditions, RenditionName } from "./storage";
+
+// stats keys that are safe to show publicly
+export const PUBLIC_STATS_FIELDS = [
+  "age",
+  "gender",
+  "ethnicity",
+  "height",
+  "weight",
+  "bustSize",
+  "build",
+  "hairColor",
+  "eyeColor",
+] as const;
+
+export type PublicStats = Partial<Record<(typeof PUBLIC_STATS_FIELDS)[number], unknown>>;
+
+export type PublicProvider = {
+  id: string;
+  userId: string;
+  displayName: string;
+  bio: string | null;
+  state: string | null;
+  city: string | null;
+  verificationStatus: string;
+  verificationLevel: VerificationLevel;
+  services: string[];
+  rates: Record<string, number>;
+  stats: PublicStats;
+  callNumber: string | null;
+  whatsappNumber: string | null;
+  // card and thumb renditions (WebP) where processed, else the original
+  coverUrl: string | null;
+  avatarUrl: string | null;
+  // Every rendition, for <picture> with a JPEG fallback; null for media
+  // that isn't in our storage
+  coverImage: ImageRenditions | null;
+  avatarImage: ImageRenditions | null;
+  // At least one video in the gallery
+  hasVideo: boolean;
+  createdAt: Date;
+};
+
+// ID_VERIFIED: an admin reviewed the identity details and selfie submitted at
+// registration and approved the provider (provider_identity.verified_at).
+// BASIC: approved without that review (accounts from before it was required).
+export const VERIFICATION_LEVELS = ["BASIC", "ID_VERIFIED"] as const;
+export type VerificationLevel = (typeof VERIFICATION_LEVELS)[number];
+
+export type ProviderSummary = {
+  id: string;
+  userId: string;
+  displayName: string;
+  avatarUrl: string | null;
+};
+
+export function verificationLevelExpr(alias = "p") {
+  return `(CASE WHEN EXISTS (
+      SELECT 1 FROM provider_identity i
+      WHERE i.provider_id = ${alias}.id AND i.verified_at IS NOT NULL
+    ) THEN 'ID_VERIFIED' ELSE 'BASIC' END)`;
+}
+
+// Newest cover/avatar, joined to its storage object for the renditions
+function coverOrAvatar(alias: string, flag: "is_cover" | "is_avatar", select: string) {
+  return `(SELECT ${select} FROM provider_media m
+      LEFT JOIN media_objects o ON o.storage_key = m.storage_key
+      WHERE m.provider_id = ${alias}.id AND m.${flag} = true
+      ORDER BY m.created_at DESC
+      LIMIT 1)`;
+}
+
+/**
+ * SQL for the URL of a rendition, falling back to the original for media
+ * without renditions (external URLs, not yet processed).
+ */
+export function renditionUrlExpr(rendition: RenditionName, media = "m", object = "o") {
+  return `COALESCE(${object}.renditions->'${rendition}'->>'webp', ${media}.url)`;
+}
+
+function mediaUrl(alias: string, flag: "is_cover" | "is_avatar") {
+  return coverOrAvatar(alias, flag, renditionUrlExpr(flag === "is_cover" ? "card" : "thumb"));
+}
+
+function mediaRenditions(alias: string, flag: "is_cover" | "is_avatar") {
+  return coverOrAvatar(alias, flag, "o.renditions");
+}
+
+/**
+ * SELECT list for toPublicProvider(). Columns are prefixed with "provider_"
+ * so the fragment can be joined with other tables without clashes.
+ */
+export function publicProviderColumns(alias = "p") {
+  return `
+    ${alias}.id AS provider_id,
+    ${alias}.user_id AS provider_user_id,
+    ${alias}.display_name AS provider_display_name,
+    ${alias}.bio AS provider_bio,
+    ${alias}.state AS provider_state,
+    ${alias}.city AS provider_city,
+    ${alias}.verification_status AS provider_verification_status,
+    ${verificationLevelExpr(alias)} AS provider_verification_level,
+    ${alias}.services AS provider_services,
+    ${alias}.rates AS provider_rates,
+    ${alias}.stats AS provider_stats,
+    ${alias}.created_at AS provider_created_at,
+    ${mediaUrl(alias, "is_cover")} AS provider_cover_url,
+    ${mediaUrl(alias, "is_avatar")} AS provider_avatar_url,
+    ${mediaRenditions(alias, "is_cover")} AS provider_cover_renditions,
+    ${mediaRenditions(alias, "is_avatar")} AS provider_avatar_renditions,
+    EXISTS (
+      SELECT 1 FROM provider_media v WHERE v.provider_id = ${alias}.id AND v.type = 'VIDEO'
+    ) AS provider_has_video`;
+}
+
+/**
+ * SELECT list for toProviderSummary() (feed authors, chat participants).
+ */
+export function providerSummaryColumns(alias = "p") {
+  return `
+    ${alias}.id AS provider_id,
+    ${alias}.user_id AS provider_user_id,
+    ${alias}.display_name AS provider_display_name,
+    ${mediaUrl(alias, "is_avatar")} AS provider_avatar_url`;
+}
+
+function parseJson(v: unknown) {
+  if (typeof v === "string") return JSON.parse(v || "{}");
+  return (v as Record<string, any>) || {};
+}
+
+export function pickPublicStats(stats: unknown): PublicStats {
+  const src = parseJson(stats);
+  const out: PublicStats = {};
+  for (const key of PUBLIC_STATS_FIELDS) {
+    if (src[key] !== undefined && src[key] !== null) out[key] = src[key];
+  }
+  return out;
+}
+
+export function toPublicProvider(row: any): PublicProvider {
+  const stats = parseJson(row.provider_stats);
+  return {
+    id: row.provider_id,
+    userId: row.provider_user_id,
+    displayName: row.provider_display_name,
+    bio: row.provider_bio ?? stats.bio ?? null,
+    state: row.provider_state ?? null,
+    city: row.provider_city ?? null,
+    verificationStatus: row.provider_verification_status,
+    verificationLevel: row.provider_verification_level,
+    services: row.provider_services ?? [],
+    rates: parseJson(row.provider_rates),
+    stats: pickPublicStats(stats),
+    // Contact numbers are published on purpose so guests can reach providers
+    callNumber: stats.callNumber ?? stats.call_number ?? null,
+    whatsappNumber: stats.whatsappNumber ?? stats.whatsapp_number ?? null,
+    coverUrl: row.provider_cover_url ?? null,
+    avatarUrl: row.provider_avatar_url ?? null,
+    coverImage: row.provider_cover_renditions ?? null,
+    avatarImage: row.provider_avatar_renditions ?? null,
+    hasVideo: row.provider_has_video ?? false,
+    createdAt: row.provider_created_at,
+  };
+}
+
+/**
+ * Returns null when the row has no provider (e.g. a guest in a chat).
+ */
+export function toProviderSummary(row: any): ProviderSummary | null {
+  if (!row.provider_id) return null;
+  return {
+    id: row.provider_id,
+    userId: row.provider_user_id,
+    displayName: row.provider_display_name,
+    avatarUrl: row.provider_avatar_url ?? null,
+  };
+}
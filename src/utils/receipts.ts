@@ -0,0 +1,222 @@
+import { pool } from "../config/db";
+import { escapeHtml } from "./mailer/templates";
+
+export type Receipt = {
+  receiptNumber: string;
+  status: "PAID" | "REFUNDED";
+  paidAt: Date;
+  billedTo: { name: string; email: string };
+  planName: string;
+  planKind: "SUBSCRIPTION" | "FEATURED" | "BOOST";
+  durationDays: number;
+  // Before discount; amount is what was actually charged
+  listPrice: number;
+  discount: number;
+  promoCode: string | null;
+  amount: number;
+  currency: string;
+  gateway: string;
+  reference: string;
+  // Subscription expiry after this payment, or the promotion's end
+  subscriptionExpiresAt: Date | null;
+};
+
+function businessName() {
+  return process.env.BUSINESS_NAME || "Verbose";
+}
+
+/**
+ * Loads the receipt for a paid (or since refunded) payment. Pass providerId
+ * to make sure the payment belongs to that provider.
+ */
+export async function loadReceipt(paymentId: string, providerId?: string): Promise<Receipt | null> {
+  const r = await pool.query(
+    `
+    SELECT
+      p.receipt_number,
+      p.status,
+      p.paid_at,
+      p.amount,
+      p.list_price,
+      p.discount_amount,
+      p.currency,
+      pc.code AS promo_code,
+      p.gateway,
+      p.reference,
+      pl.name AS plan_name,
+      p.duration_days,
+      p.kind AS plan_kind,
+      pp.display_name,
+      u.email,
+      (SELECT e.expires_at FROM subscription_events e
+        WHERE e.payment_id = p.id AND e.event_type IN ('ACTIVATED', 'RENEWED', 'PROMOTION_PURCHASED')
+        ORDER BY e.created_at DESC
+        LIMIT 1) AS subscription_expires_at
+    FROM payments p
+    JOIN subscription_plans pl ON pl.id = p.plan_id
+    -- The provider's account may have been deleted since
+    LEFT JOIN provider_profiles pp ON pp.id = p.provider_id
+    LEFT JOIN users u ON u.id = pp.user_id
+    LEFT JOIN promo_codes pc ON pc.id = p.promo_code_id
+    WHERE p.id = $1
+      AND ($2::uuid IS NULL OR p.provider_id = $2)
+      AND p.status IN ('SUCCEEDED', 'REFUNDED')
+    LIMIT 1
+    `,
+    [paymentId, providerId ?? null],
+  );
+
+  const row = r.rows[0];
+  if (!row) return null;
+
+  return {
+    receiptNumber: row.receipt_number,
+    status: row.status === "REFUNDED" ? "REFUNDED" : "PAID",
+    paidAt: row.paid_at,
+    billedTo: { name: row.display_name ?? "Deleted user", email: row.email ?? "-" },
+    planName: row.plan_name,
+    planKind: row.plan_kind,
+    durationDays: row.duration_days,
+    listPrice: Number(row.list_price ?? row.amount),
+    discount: Number(row.discount_amount),
+    promoCode: row.promo_code ?? null,
+    amount: Number(row.amount),
+    currency: row.currency,
+    gateway: row.gateway,
+    reference: row.reference,
+    subscriptionExpiresAt: row.subscription_expires_at,
+  };
+}
+
+// Amounts are stored in minor units
+export function formatMoney(amount: number, currency: string) {
+  const major = (amount / 100).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${currency} ${major}`;
+}
+
+function formatDay(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function receiptLines(receipt: Receipt): Array<[string, string]> {
+  const pricing: Array<[string, string]> =
+    receipt.discount > 0
+      ? [
+          ["Plan price", formatMoney(receipt.listPrice, receipt.currency)],
+          [
+            receipt.promoCode ? `Discount (${receipt.promoCode})` : "Discount",
+            `-${formatMoney(receipt.discount, receipt.currency)}`,
+          ],
+        ]
+      : [];
+
+  return [
+    ["Receipt number", receipt.receiptNumber],
+    ["Date paid", formatDay(receipt.paidAt)],
+    ["Billed to", `${receipt.billedTo.name} <${receipt.billedTo.email}>`],
+    ["Plan", `${receipt.planName} (${receipt.durationDays} days)`],
+    [
+      receipt.planKind === "SUBSCRIPTION" ? "Subscription active until" : "Placement runs until",
+      receipt.subscriptionExpiresAt ? formatDay(receipt.subscriptionExpiresAt) : "-",
+    ],
+    ...pricing,
+    ["Paid via", receipt.gateway],
+    ["Payment reference", receipt.reference],
+    ["Status", receipt.status],
+  ];
+}
+
+export function renderReceiptHtml(receipt: Receipt) {
+  const rows = receiptLines(receipt)
+    .map(
+      ([label, value]) =>
+        `<tr><th style="text-align:left;padding:4px 16px 4px 0;color:#555">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+    )
+    .join("\n        ");
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Receipt ${escapeHtml(receipt.receiptNumber)}</title>
+  </head>
+  <body style="font-family:Arial,sans-serif;color:#222;line-height:1.5;max-width:640px;margin:32px auto">
+    <h1 style="margin-bottom:0">${escapeHtml(businessName())}</h1>
+    <h2 style="margin-top:4px;color:#555">Receipt</h2>
+    <table>
+        ${rows}
+    </table>
+    <p style="font-size:20px"><strong>Total: ${escapeHtml(formatMoney(receipt.amount, receipt.currency))}</strong></p>
+    ${receipt.status === "REFUNDED" ? `<p style="color:#b00">This payment has been refunded.</p>` : ""}
+  </body>
+</html>`;
+}
+
+// PDF text strings: escape delimiters, and keep to ASCII since the built-in
+// Helvetica font has no glyphs beyond Latin-1
+function pdfText(value: string) {
+  return value
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/**
+ * Single-page A4 PDF using the standard Helvetica fonts, so no PDF library
+ * or font files are needed.
+ */
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+  const ops: string[] = [];
+  const text = (font: "F1" | "F2", size: number, x: number, y: number, value: string) =>
+    ops.push(`BT /${font} ${size} Tf ${x} ${y} Td (${pdfText(value)}) Tj ET`);
+
+  let y = 780;
+  text("F2", 22, 56, y, businessName());
+  y -= 28;
+  text("F1", 16, 56, y, "Receipt");
+  y -= 40;
+
+  for (const [label, value] of receiptLines(receipt)) {
+    text("F2", 11, 56, y, label);
+    text("F1", 11, 230, y, value);
+    y -= 20;
+  }
+
+  y -= 16;
+  text("F2", 16, 56, y, `Total: ${formatMoney(receipt.amount, receipt.currency)}`);
+  if (receipt.status === "REFUNDED") {
+    y -= 28;
+    text("F1", 11, 56, y, "This payment has been refunded.");
+  }
+
+  const content = ops.join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] " +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>",
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
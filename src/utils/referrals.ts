@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+
+/**
+ * Provider referrals. Every provider has a code to share; a provider who
+ * registers with someone's code is attributed to them, and once the new
+ * provider's first payment clears the referrer is credited free days.
+ */
+export const REFERRAL_REWARD_DAYS = Number(process.env.REFERRAL_REWARD_DAYS || 7);
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateReferralCode(length = 8) {
+  const bytes = crypto.randomBytes(length);
+  let code = "";
+  for (const b of bytes) code += CODE_ALPHABET[b % CODE_ALPHABET.length];
+  return code;
+}
+
+export function normalizeReferralCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function referralShareUrl(code: string) {
+  const frontendUrl = process.env.FRONTEND_URL || "http://127.0.0.1:5500/";
+  return `${frontendUrl}/?action=register-provider&ref=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Provider id owning the code, or null when no provider has it.
+ */
+export async function findReferrer(code: string, db: PoolClient | typeof pool = pool) {
+  const r = await db.query(
+    `SELECT id FROM provider_profiles WHERE referral_code = $1 LIMIT 1`,
+    [normalizeReferralCode(code)],
+  );
+  return (r.rows[0]?.id as string | undefined) ?? null;
+}
+
+/**
+ * Credits the referrer of `providerId`, if any and not already credited.
+ * Called from inside the transaction that marks the provider's payment
+ * SUCCEEDED, so it runs at most once per referral.
+ */
+export async function rewardReferral(db: PoolClient, providerId: string, paymentId: string) {
+  const refRes = await db.query(
+    `SELECT id, referrer_provider_id
+     FROM referrals
+     WHERE referred_provider_id = $1 AND status = 'PENDING'
+     LIMIT 1
+     FOR UPDATE`,
+    [providerId],
+  );
+  const referral = refRes.rows[0];
+  if (!referral || REFERRAL_REWARD_DAYS <= 0) return null;
+
+  const updRes = await db.query(
+    `UPDATE provider_profiles
+     SET subscription_expires_at = GREATEST(now(), COALESCE(subscription_expires_at, now()))
+                                   + make_interval(days => $2),
+         updated_at = now()
+     WHERE id = $1
+     RETURNING subscription_expires_at`,
+    [referral.referrer_provider_id, REFERRAL_REWARD_DAYS],
+  );
+  // Referrer's profile is gone
+  if (!updRes.rows[0]) return null;
+  const expiresAt: Date = updRes.rows[0].subscription_expires_at;
+
+  await db.query(
+    `UPDATE referrals
+     SET status = 'REWARDED', reward_days = $2, payment_id = $3, rewarded_at = now()
+     WHERE id = $1`,
+    [referral.id, REFERRAL_REWARD_DAYS, paymentId],
+  );
+
+  await db.query(
+    `INSERT INTO subscription_events (provider_id, event_type, reference, expires_at)
+     VALUES ($1, 'REFERRAL_CREDIT', $2, $3)`,
+    [referral.referrer_provider_id, `referral:${referral.id}`, expiresAt],
+  );
+
+  return { referrerProviderId: referral.referrer_provider_id as string, expiresAt };
+}
+
+/**
+ * Takes back the credit a referral earned from `paymentId`, if any. Called
+ * from inside the transaction that refunds the payment. The referral goes
+ * back to PENDING, so the referred provider's next payment earns it again.
+ */
+export async function reverseReferralReward(db: PoolClient, paymentId: string) {
+  const refRes = await db.query(
+    `SELECT id, referrer_provider_id, reward_days
+     FROM referrals
+     WHERE payment_id = $1 AND status = 'REWARDED'
+     LIMIT 1
+     FOR UPDATE`,
+    [paymentId],
+  );
+  const referral = refRes.rows[0];
+  if (!referral) return null;
+
+  const updRes = await db.query(
+    `UPDATE provider_profiles
+     SET subscription_expires_at = subscription_expires_at - make_interval(days => $2),
+         updated_at = now()
+     WHERE id = $1
+     RETURNING subscription_expires_at`,
+    [referral.referrer_provider_id, referral.reward_days ?? 0],
+  );
+
+  await db.query(
+    `UPDATE referrals
+     SET status = 'PENDING', reward_days = NULL, payment_id = NULL, rewarded_at = NULL
+     WHERE id = $1`,
+    [referral.id],
+  );
+
+  // Referrer's profile is gone; nothing to take back from
+  if (!updRes.rows[0]) return null;
+  const expiresAt: Date | null = updRes.rows[0].subscription_expires_at;
+
+  await db.query(
+    `INSERT INTO subscription_events (provider_id, event_type, reference, expires_at)
+     VALUES ($1, 'REFERRAL_REVERSED', $2, $3)`,
+    [referral.referrer_provider_id, `referral:${referral.id}`, expiresAt],
+  );
+
+  return { referrerProviderId: referral.referrer_provider_id as string, expiresAt };
+}
@@ -0,0 +1,28 @@
+/**
+ * Minimal in-process job runner: runs fn every intervalMs, never overlapping
+ * with itself. Returns a function that stops the job.
+ * Jobs must be safe to run concurrently from several instances (use
+ * row locks / idempotent updates), since every instance runs them.
+ */
+export function every(
+  name: string,
+  intervalMs: number,
+  fn: () => Promise<unknown>,
+) {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await fn();
+    } catch (e) {
+      console.error(`Job ${name} failed`, e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { Pool, PoolClient } from "pg";
+import { pool } from "../config/db";
+import { signAccessToken, JwtPayload } from "./jwt";
+import type { AuthTokens } from "../types";
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+// Avoid writing to sessions on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+type SessionUser = { id: string; role: JwtPayload["role"] };
+
+export type RefreshResult =
+  | { ok: true; tokens: AuthTokens; userId: string; sessionId: string }
+  | { ok: false; reason: "INVALID" | "REVOKED" | "EXPIRED" | "REUSED" };
+
+export function hashToken(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+function newRefreshToken() {
+  return crypto.randomBytes(48).toString("hex");
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function clientInfo(req: Request) {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+    ip: req.ip ?? null,
+  };
+}
+
+/**
+ * Starts a new device session and returns its first token pair.
+ * Only the SHA-256 of the refresh token is persisted.
+ */
+export async function createSession(
+  req: Request,
+  user: SessionUser,
+  options: { mfa?: boolean } = {},
+): Promise<AuthTokens & { sessionId: string }> {
+  const refreshToken = newRefreshToken();
+  const { userAgent, ip } = clientInfo(req);
+  const mfa = options.mfa === true;
+
+  const r = await pool.query(
+    `
+    WITH s AS (
+      INSERT INTO sessions (user_id, user_agent, ip, expires_at, mfa_verified_at)
+      VALUES ($1, $2, $3, $4, CASE WHEN $6::boolean THEN now() END)
+      RETURNING id
+    )
+    INSERT INTO refresh_tokens (session_id, token_hash)
+    SELECT id, $5 FROM s
+    RETURNING session_id
+    `,
+    [user.id, userAgent, ip, refreshExpiry(), hashToken(refreshToken), mfa],
+  );
+
+  const sessionId: string = r.rows[0].session_id;
+  const accessToken = signAccessToken({
+    sub: user.id,
+    role: user.role,
+    sid: sessionId,
+    mfa,
+  });
+
+  return { accessToken, refreshToken, sessionId };
+}
+
+/**
+ * Exchanges a refresh token for a new pair (rotation).
+ * Presenting a token that was already rotated means it leaked:
+ * the whole session (token family) is revoked.
+ */
+export async function rotateRefreshToken(
+  req: Request,
+  rawToken: string,
+): Promise<RefreshResult> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const tRes = await client.query(
+      `
+      SELECT
+        t.id,
+        t.session_id,
+        t.rotated_at,
+        s.user_id,
+        s.expires_at,
+        s.revoked_at,
+        s.mfa_verified_at,
+        u.role,
+        u.disabled_at
+      FROM refresh_tokens t
+      JOIN sessions s ON s.id = t.session_id
+      JOIN users u ON u.id = s.user_id
+      WHERE t.token_hash = $1
+      LIMIT 1
+      FOR UPDATE OF t, s
+      `,
+      [hashToken(rawToken)],
+    );
+
+    const row = tRes.rows[0];
+    if (!row) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "INVALID" };
+    }
+
+    if (row.revoked_at || row.disabled_at) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "REVOKED" };
+    }
+
+    if (row.rotated_at) {
+      await client.query(
+        `UPDATE sessions
+         SET revoked_at = now(), revoked_reason = 'REFRESH_TOKEN_REUSE'
+         WHERE id = $1`,
+        [row.session_id],
+      );
+      await client.query("COMMIT");
+      return { ok: false, reason: "REUSED" };
+    }
+
+    if (new Date(row.expires_at).getTime() < Date.now()) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "EXPIRED" };
+    }
+
+    const refreshToken = newRefreshToken();
+    const { userAgent, ip } = clientInfo(req);
+
+    await client.query(
+      `UPDATE refresh_tokens SET rotated_at = now() WHERE id = $1`,
+      [row.id],
+    );
+
+    await client.query(
+      `INSERT INTO refresh_tokens (session_id, token_hash) VALUES ($1, $2)`,
+      [row.session_id, hashToken(refreshToken)],
+    );
+
+    await client.query(
+      `UPDATE sessions
+       SET last_seen_at = now(), expires_at = $2, user_agent = $3, ip = $4
+       WHERE id = $1`,
+      [row.session_id, refreshExpiry(), userAgent, ip],
+    );
+
+    await client.query("COMMIT");
+
+    const accessToken = signAccessToken({
+      sub: row.user_id,
+      role: row.role,
+      sid: row.session_id,
+      mfa: row.mfa_verified_at !== null,
+    });
+
+    return {
+      ok: true,
+      tokens: { accessToken, refreshToken },
+      userId: row.user_id,
+      sessionId: row.session_id,
+    };
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function revokeSession(
+  sessionId: string,
+  userId: string,
+  reason: string,
+) {
+  const r = await pool.query(
+    `UPDATE sessions
+     SET revoked_at = now(), revoked_reason = $3
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [sessionId, userId, reason],
+  );
+  return (r.rowCount ?? 0) > 0;
+}
+
+/**
+ * Revokes every active session of a user, optionally keeping one
+ * (e.g. the device that just changed the password).
+ * Pass a client to run inside an existing transaction.
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: string,
+  options: { exceptSessionId?: string; db?: Pool | PoolClient } = {},
+) {
+  const db = options.db ?? pool;
+  const r = await db.query(
+    `UPDATE sessions
+     SET revoked_at = now(), revoked_reason = $2
+     WHERE user_id = $1
+       AND revoked_at IS NULL
+       AND ($3::uuid IS NULL OR id <> $3::uuid)`,
+    [userId, reason, options.exceptSessionId ?? null],
+  );
+  return r.rowCount ?? 0;
+}
+
+/**
+ * Used by requireAuth: a session is usable until revoked or expired.
+ * Also bumps last_seen_at (at most once a minute).
+ */
+export async function touchSession(sessionId: string, userId: string) {
+  const r = await pool.query(
+    `SELECT last_seen_at, expires_at, revoked_at
+     FROM sessions
+     WHERE id = $1 AND user_id = $2
+     LIMIT 1`,
+    [sessionId, userId],
+  );
+
+  const row = r.rows[0];
+  if (!row || row.revoked_at) return false;
+  if (new Date(row.expires_at).getTime() < Date.now()) return false;
+
+  if (Date.now() - new Date(row.last_seen_at).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await pool.query(`UPDATE sessions SET last_seen_at = now() WHERE id = $1`, [
+      sessionId,
+    ]);
+  }
+
+  return true;
+}
+
+export async function listActiveSessions(userId: string) {
+  const r = await pool.query(
+    `SELECT id, user_agent, ip, created_at, last_seen_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > now()
+     ORDER BY last_seen_at DESC`,
+    [userId],
+  );
+  return r.rows;
+}
+
+/**
+ * Marks an existing session as second-factor verified (e.g. right after
+ * enrolling TOTP) and returns an access token carrying the mfa claim.
+ */
+export async function elevateSession(sessionId: string, user: SessionUser) {
+  await pool.query(
+    `UPDATE sessions SET mfa_verified_at = now() WHERE id = $1 AND user_id = $2`,
+    [sessionId, user.id],
+  );
+
+  return signAccessToken({
+    sub: user.id,
+    role: user.role,
+    sid: sessionId,
+    mfa: true,
+  });
+}
@@ -0,0 +1,359 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export const STORAGE_DRIVER_NAMES = ["local", "s3"] as const;
+export type StorageDriverName = (typeof STORAGE_DRIVER_NAMES)[number];
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // URL clients load the object from
+  publicUrl(key: string): string;
+  // Time-limited URL for objects that aren't public
+  signedUrl(key: string, expiresInSeconds: number): string;
+}
+
+export class StorageError extends Error {}
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} missing`);
+  return value;
+}
+
+// Keys are generated by us, but never let one climb out of the root
+function assertSafeKey(key: string) {
+  if (!/^[a-z0-9][a-z0-9/_.-]*$/i.test(key) || key.includes("..")) {
+    throw new StorageError(`Invalid storage key: ${key}`);
+  }
+}
+
+export const LOCAL_UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+// Never served statically; files only go out through signed URLs
+export const LOCAL_PRIVATE_UPLOAD_DIR = path.resolve(
+  process.env.PRIVATE_UPLOAD_DIR || "uploads-private",
+);
+
+const API_PUBLIC_URL = (
+  process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 4000}`
+).replace(/\/+$/, "");
+
+// Falls back to JWT_SECRET so development setups work without extra config
+function mediaSigningSecret() {
+  const secret = process.env.MEDIA_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error("MEDIA_SIGNING_SECRET missing");
+  return secret;
+}
+
+/**
+ * Files under a local directory. The public instance (UPLOAD_DIR) is served
+ * by the app itself at /media; the private one (PRIVATE_UPLOAD_DIR) through
+ * GET /api/v1/media/private with an HMAC-signed, expiring query string (see
+ * app.ts and media.routes.ts). Fine for development and single-instance
+ * deployments.
+ */
+export class LocalDiskStorage implements StorageDriver {
+  name = "local" as const;
+
+  constructor(
+    private root = LOCAL_UPLOAD_DIR,
+    private baseUrl = (process.env.MEDIA_PUBLIC_URL || `${API_PUBLIC_URL}/media`).replace(/\/+$/, ""),
+  ) {}
+
+  private filePath(key: string) {
+    assertSafeKey(key);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, body: Buffer) {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so readers never see a half-written file
+    const tmp = `${file}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    await fs.writeFile(tmp, body);
+    await fs.rename(tmp, file);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") throw new StorageError(`${key} not found`);
+      throw e;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await fs.access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  private signature(key: string, expires: number) {
+    return crypto
+      .createHmac("sha256", mediaSigningSecret())
+      .update(`${key}:${expires}`)
+      .digest("hex");
+  }
+
+  signedUrl(key: string, expiresInSeconds: number) {
+    assertSafeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.baseUrl}/${key}?expires=${expires}&signature=${this.signature(key, expires)}`;
+  }
+
+  verifySignedUrl(key: string, expires: number, signature: string) {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.signature(key, expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+}
+
+function sha256Hex(data: string | Buffer) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding, as SigV4 expects for each path segment
+function encodeSegment(segment: string) {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Any S3-compatible bucket (AWS, Cloudflare R2, MinIO, DigitalOcean Spaces).
+ * Requests are signed with AWS Signature V4 by hand, so no SDK is needed.
+ *
+ * S3_ENDPOINT is only needed for non-AWS providers; they usually also need
+ * S3_FORCE_PATH_STYLE=true. S3_PUBLIC_URL is the CDN or public bucket URL
+ * objects are served from. Private media goes to S3_PRIVATE_BUCKET, which
+ * must not allow public reads.
+ */
+export class S3Storage implements StorageDriver {
+  name = "s3" as const;
+
+  constructor(private bucket = requireEnv("S3_BUCKET")) {}
+
+  private region = process.env.S3_REGION || "us-east-1";
+  private accessKeyId = requireEnv("S3_ACCESS_KEY_ID");
+  private secretAccessKey = requireEnv("S3_SECRET_ACCESS_KEY");
+  private pathStyle = process.env.S3_FORCE_PATH_STYLE === "true";
+  private endpoint = (
+    process.env.S3_ENDPOINT || `https://s3.${this.region}.amazonaws.com`
+  ).replace(/\/+$/, "");
+  private publicBaseUrl = (
+    process.env.S3_PUBLIC_URL || this.objectUrl("").replace(/\/$/, "")
+  ).replace(/\/+$/, "");
+
+  private objectUrl(key: string) {
+    const encodedKey = key.split("/").map(encodeSegment).join("/");
+    if (this.pathStyle) return `${this.endpoint}/${this.bucket}/${encodedKey}`;
+    const endpoint = new URL(this.endpoint);
+    return `${endpoint.protocol}//${this.bucket}.${endpoint.host}/${encodedKey}`;
+  }
+
+  private signingKey(dateStamp: string) {
+    return hmac(
+      hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), "s3"),
+      "aws4_request",
+    );
+  }
+
+  private async request(method: "PUT" | "GET" | "HEAD" | "DELETE", key: string, body?: Buffer, contentType?: string) {
+    assertSafeKey(key);
+    const url = new URL(this.objectUrl(key));
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map((h) => `${h}:${headers[h]}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const signature = crypto
+      .createHmac("sha256", this.signingKey(dateStamp))
+      .update(stringToSign)
+      .digest("hex");
+
+    const { host: _host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    const res = await this.request("PUT", key, body, contentType);
+    if (!res.ok) {
+      throw new StorageError(`S3 PUT ${key} failed (${res.status}): ${await res.text()}`);
+    }
+  }
+
+  async get(key: string) {
+    const res = await this.request("GET", key);
+    if (!res.ok) throw new StorageError(`S3 GET ${key} failed (${res.status})`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async exists(key: string) {
+    const res = await this.request("HEAD", key);
+    if (res.status === 404) return false;
+    if (!res.ok) throw new StorageError(`S3 HEAD ${key} failed (${res.status})`);
+    return true;
+  }
+
+  async delete(key: string) {
+    const res = await this.request("DELETE", key);
+    if (!res.ok && res.status !== 404) {
+      throw new StorageError(`S3 DELETE ${key} failed (${res.status})`);
+    }
+  }
+
+  publicUrl(key: string) {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  // Presigned GET (SigV4 query string auth)
+  signedUrl(key: string, expiresInSeconds: number) {
+    assertSafeKey(key);
+    const url = new URL(this.objectUrl(key));
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+
+    const params: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresInSeconds),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const query = Object.keys(params)
+      .sort()
+      .map((k) => `${encodeSegment(k)}=${encodeSegment(params[k])}`)
+      .join("&");
+
+    const canonicalRequest = [
+      "GET",
+      url.pathname,
+      query,
+      `host:${url.host}`,
+      "",
+      "host",
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signature = crypto
+      .createHmac("sha256", this.signingKey(dateStamp))
+      .update(stringToSign)
+      .digest("hex");
+
+    return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+  }
+}
+
+export function isStorageDriverName(name: string): name is StorageDriverName {
+  return (STORAGE_DRIVER_NAMES as readonly string[]).includes(name);
+}
+
+let storage: StorageDriver | null = null;
+
+/**
+ * STORAGE_DRIVER=local|s3 (default local).
+ */
+export function getStorage(): StorageDriver {
+  if (storage) return storage;
+
+  const name = process.env.STORAGE_DRIVER || "local";
+  switch (name) {
+    case "local":
+      storage = new LocalDiskStorage();
+      break;
+    case "s3":
+      storage = new S3Storage();
+      break;
+    default:
+      throw new StorageError(`Unknown storage driver: ${name}`);
+  }
+  return storage;
+}
+
+let privateStorage: StorageDriver | null = null;
+
+/**
+ * Storage for identity documents, kept apart from public media: a separate
+ * directory or bucket, read only through signed URLs. Same STORAGE_DRIVER.
+ */
+export function getPrivateStorage(): StorageDriver {
+  if (privateStorage) return privateStorage;
+
+  const name = process.env.STORAGE_DRIVER || "local";
+  switch (name) {
+    case "local":
+      privateStorage = new LocalDiskStorage(
+        LOCAL_PRIVATE_UPLOAD_DIR,
+        `${API_PUBLIC_URL}/api/v1/media/private`,
+      );
+      break;
+    case "s3":
+      privateStorage = new S3Storage(requireEnv("S3_PRIVATE_BUCKET"));
+      break;
+    default:
+      throw new StorageError(`Unknown storage driver: ${name}`);
+  }
+  return privateStorage;
+}
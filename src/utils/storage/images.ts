@@ -0,0 +1,145 @@
+import sharp from "sharp";
+import { StorageDriver } from "./drivers";
+
+/**
+ * Image processing for uploads: the stored original is re-encoded without
+ * metadata (EXIF can carry GPS coordinates), and resized renditions are
+ * generated for listings and profile pages.
+ */
+
+export const RENDITION_NAMES = ["thumb", "card", "full"] as const;
+export type RenditionName = (typeof RENDITION_NAMES)[number];
+
+type RenditionSpec = { width: number; height: number; crop: boolean };
+
+// thumb: avatars and chat lists. card: listing and favourites cards
+// (portrait). full: profile gallery, never upscaled.
+const RENDITION_SPECS: Record<RenditionName, RenditionSpec> = {
+  thumb: { width: 240, height: 240, crop: true },
+  card: { width: 600, height: 800, crop: true },
+  full: { width: 1600, height: 1600, crop: false },
+};
+
+const WEBP_QUALITY = 80;
+const JPEG_QUALITY = 82;
+
+export type Rendition = {
+  webp: string;
+  jpeg: string;
+  width: number;
+  height: number;
+};
+
+// Stored as media_objects.renditions
+export type ImageRenditions = Record<RenditionName, Rendition>;
+
+export type ProcessedImage = {
+  // Original with orientation applied and metadata removed
+  original: Buffer;
+  width: number;
+  height: number;
+  renditions: {
+    name: RenditionName;
+    width: number;
+    height: number;
+    webp: Buffer;
+    jpeg: Buffer;
+  }[];
+};
+
+export class ImageProcessingError extends Error {}
+
+/**
+ * Re-encodes an image in its own format without metadata. Orientation from
+ * EXIF is applied to the pixels first, since the tag itself is dropped.
+ */
+export async function stripImageMetadata(body: Buffer, mimeType: string) {
+  try {
+    // GIFs can hide data in comment and application extensions; every frame
+    // is re-encoded so the animation survives
+    if (mimeType === "image/gif") return await sharp(body, { animated: true }).gif().toBuffer();
+    const img = sharp(body).rotate().keepIccProfile();
+    if (mimeType === "image/png") return await img.png().toBuffer();
+    if (mimeType === "image/webp") return await img.webp({ quality: 90 }).toBuffer();
+    return await img.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+  } catch (e) {
+    throw new ImageProcessingError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+/**
+ * Strips metadata and builds every rendition.
+ */
+export async function processImage(body: Buffer, mimeType: string): Promise<ProcessedImage> {
+  const original = await stripImageMetadata(body, mimeType);
+  try {
+    const meta = await sharp(original).metadata();
+
+    const renditions: ProcessedImage["renditions"] = [];
+    for (const name of RENDITION_NAMES) {
+      const spec = RENDITION_SPECS[name];
+      // Renditions are sRGB with no metadata at all (sharp's default)
+      const resized = sharp(original).resize(spec.width, spec.height, {
+        fit: spec.crop ? "cover" : "inside",
+        position: spec.crop ? sharp.strategy.attention : undefined,
+        withoutEnlargement: true,
+      });
+
+      const webp = await resized
+        .clone()
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+      const jpeg = await resized
+        .clone()
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+        .toBuffer();
+
+      renditions.push({
+        name,
+        width: webp.info.width,
+        height: webp.info.height,
+        webp: webp.data,
+        jpeg,
+      });
+    }
+
+    return {
+      original,
+      width: meta.width ?? 0,
+      height: meta.height ?? 0,
+      renditions,
+    };
+  } catch (e) {
+    throw new ImageProcessingError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export function renditionKey(sha256: string, name: RenditionName, ext: "webp" | "jpg") {
+  return `renditions/${sha256.slice(0, 2)}/${sha256}/${name}.${ext}`;
+}
+
+/**
+ * Writes the renditions of an original stored under sha256 and returns what
+ * goes in media_objects.renditions.
+ */
+export async function storeRenditions(
+  storage: StorageDriver,
+  sha256: string,
+  processed: ProcessedImage,
+): Promise<ImageRenditions> {
+  const out = {} as ImageRenditions;
+  for (const r of processed.renditions) {
+    const webpKey = renditionKey(sha256, r.name, "webp");
+    const jpegKey = renditionKey(sha256, r.name, "jpg");
+    await storage.put(webpKey, r.webp, "image/webp");
+    await storage.put(jpegKey, r.jpeg, "image/jpeg");
+    out[r.name] = {
+      webp: storage.publicUrl(webpKey),
+      jpeg: storage.publicUrl(jpegKey),
+      width: r.width,
+      height: r.height,
+    };
+  }
+  return out;
+}
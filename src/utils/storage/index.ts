@@ -0,0 +1,63 @@
+export {
+  getPrivateStorage,
+  getStorage,
+  isStorageDriverName,
+  LocalDiskStorage,
+  LOCAL_PRIVATE_UPLOAD_DIR,
+  LOCAL_UPLOAD_DIR,
+  S3Storage,
+  StorageError,
+  STORAGE_DRIVER_NAMES,
+} from "./drivers";
+export type { StorageDriver, StorageDriverName } from "./drivers";
+export {
+  insertProviderMedia,
+  isDataUri,
+  deleteMediaObjectIfUnused,
+  deleteMediaObjectsIfUnused,
+  MAX_UPLOAD_BYTES,
+  MAX_VIDEO_SECONDS,
+  MEDIA_SIZE_LIMITS,
+  MediaRejectedError,
+  providerMediaKeys,
+  purgeUnusedMedia,
+  reprocessStoredImage,
+  reprocessStoredVideo,
+  resolveMediaInput,
+  resolveMediaUrls,
+  sniffMediaType,
+  storeDataUri,
+  startUnusedMediaPurgeWorker,
+  storeMedia,
+} from "./media";
+export type { MediaType, ResolvedMedia, StoredMedia } from "./media";
+export {
+  ImageProcessingError,
+  processImage,
+  RENDITION_NAMES,
+  storeRenditions,
+  stripImageMetadata,
+} from "./images";
+export type { ImageRenditions, Rendition, RenditionName } from "./images";
+export {
+  DisabledVideoProcessor,
+  FfmpegVideoProcessor,
+  getVideoProcessor,
+  VIDEO_PROCESSOR_NAMES,
+  VideoProcessingError,
+} from "./videos";
+export type { ProcessedVideo, VideoInfo, VideoProcessor, VideoProcessorName } from "./videos";
+export {
+  claimPrivateMedia,
+  PRIVATE_MEDIA_KINDS,
+  privateMediaRef,
+  purgePrivateMedia,
+  resolvePrivateMediaInput,
+  schedulePrivateMediaPurge,
+  signPrivateMedia,
+  SIGNED_URL_TTL_SECONDS,
+  startPrivateMediaPurgeWorker,
+  storePrivateMedia,
+  VERIFICATION_MEDIA_RETENTION_DAYS,
+} from "./private";
+export type { PrivateMediaKind } from "./private";
@@ -0,0 +1,615 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { pool } from "../../config/db";
+import { every } from "../scheduler";
+import { getStorage, StorageDriver } from "./drivers";
+import {
+  ImageProcessingError,
+  ImageRenditions,
+  processImage,
+  RENDITION_NAMES,
+  renditionKey,
+  storeRenditions,
+} from "./images";
+import { getVideoProcessor, VideoProcessingError, videoKey } from "./videos";
+
+export type MediaType = "IMAGE" | "VIDEO";
+
+type SniffedType = { mimeType: string; ext: string; type: MediaType };
+
+export type StoredMedia = {
+  storageKey: string;
+  url: string;
+  mimeType: string;
+  type: MediaType;
+  sizeBytes: number;
+  sha256: string;
+  width: number | null;
+  height: number | null;
+  // For videos, renditions of the poster frame
+  renditions: ImageRenditions | null;
+  // Videos only
+  durationSeconds: number | null;
+  posterUrl: string | null;
+};
+
+// A media reference ready to insert: either something we stored, or an
+// external URL we know nothing about
+export type ResolvedMedia = {
+  url: string;
+  type: MediaType;
+  storageKey: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+};
+
+/**
+ * Rejected uploads. status is the HTTP status to answer with.
+ */
+export class MediaRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 | 415,
+  ) {
+    super(message);
+  }
+}
+
+const MB = 1024 * 1024;
+
+export const MEDIA_SIZE_LIMITS: Record<MediaType, number> = {
+  IMAGE: Number(process.env.MEDIA_MAX_IMAGE_MB || 10) * MB,
+  VIDEO: Number(process.env.MEDIA_MAX_VIDEO_MB || 50) * MB,
+};
+
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(MEDIA_SIZE_LIMITS));
+
+export const MAX_VIDEO_SECONDS = Number(process.env.MEDIA_MAX_VIDEO_SECONDS || 60);
+
+/**
+ * Identifies the file from its first bytes. The client's declared type and
+ * file name are never trusted.
+ */
+export function sniffMediaType(buf: Buffer): SniffedType | null {
+  const ascii = (start: number, end: number) => buf.subarray(start, end).toString("latin1");
+
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
+    return { mimeType: "image/jpeg", ext: "jpg", type: "IMAGE" };
+  }
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { mimeType: "image/png", ext: "png", type: "IMAGE" };
+  }
+  if (buf.length >= 6 && (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a")) {
+    return { mimeType: "image/gif", ext: "gif", type: "IMAGE" };
+  }
+  if (buf.length >= 12 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return { mimeType: "image/webp", ext: "webp", type: "IMAGE" };
+  }
+  if (buf.length >= 4 && buf.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))) {
+    return { mimeType: "video/webm", ext: "webm", type: "VIDEO" };
+  }
+  if (buf.length >= 12 && ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "qt  ") return { mimeType: "video/quicktime", ext: "mov", type: "VIDEO" };
+    // HEIC/AVIF stills also use ftyp boxes; browsers can't show HEIC
+    if (/^(heic|heix|mif1|msf1|avif)$/.test(brand)) return null;
+    return { mimeType: "video/mp4", ext: "mp4", type: "VIDEO" };
+  }
+  return null;
+}
+
+function formatLimit(bytes: number) {
+  return `${Math.round(bytes / MB)} MB`;
+}
+
+function rejectUnprocessable(e: unknown, what: "Image" | "Video"): never {
+  if (e instanceof ImageProcessingError || e instanceof VideoProcessingError) {
+    throw new MediaRejectedError(`${what} could not be processed`, 415);
+  }
+  throw e;
+}
+
+type ProcessedMedia = Pick<
+  StoredMedia,
+  "mimeType" | "width" | "height" | "renditions" | "durationSeconds" | "posterUrl"
+> & { body: Buffer };
+
+/**
+ * Images: metadata stripped, renditions stored.
+ */
+async function processImageUpload(
+  storage: StorageDriver,
+  sha256: string,
+  sniffed: SniffedType,
+  body: Buffer,
+): Promise<ProcessedMedia> {
+  let processed;
+  try {
+    processed = await processImage(body, sniffed.mimeType);
+  } catch (e) {
+    rejectUnprocessable(e, "Image");
+  }
+  return {
+    body: processed.original,
+    mimeType: sniffed.mimeType,
+    width: processed.width,
+    height: processed.height,
+    renditions: await storeRenditions(storage, sha256, processed),
+    durationSeconds: null,
+    posterUrl: null,
+  };
+}
+
+/**
+ * Videos: length checked, transcoded to MP4, poster frame stored with the
+ * same renditions as an image.
+ */
+async function processVideoUpload(
+  storage: StorageDriver,
+  sha256: string,
+  body: Buffer,
+): Promise<ProcessedMedia> {
+  const processor = getVideoProcessor();
+
+  let video;
+  try {
+    const info = await processor.probe(body);
+    if (info.durationSeconds > MAX_VIDEO_SECONDS + 0.5) {
+      throw new MediaRejectedError(`Videos can be at most ${MAX_VIDEO_SECONDS} seconds long`, 400);
+    }
+    video = await processor.transcode(body, { maxSeconds: MAX_VIDEO_SECONDS });
+    // The probe reads the container header; this is what was actually encoded
+    if (video.durationSeconds > MAX_VIDEO_SECONDS + 0.5) {
+      throw new MediaRejectedError(`Videos can be at most ${MAX_VIDEO_SECONDS} seconds long`, 400);
+    }
+  } catch (e) {
+    rejectUnprocessable(e, "Video");
+  }
+
+  let poster;
+  try {
+    poster = await processImage(video.poster, "image/jpeg");
+  } catch (e) {
+    rejectUnprocessable(e, "Video");
+  }
+  const renditions = await storeRenditions(storage, sha256, poster);
+
+  return {
+    body: video.video,
+    mimeType: video.mimeType,
+    width: video.width,
+    height: video.height,
+    renditions,
+    durationSeconds: Math.round(video.durationSeconds * 100) / 100,
+    posterUrl: renditions.full.jpeg,
+  };
+}
+
+/**
+ * Writes an object and its media_objects row. Files are processed first,
+ * so the stored object has no metadata and the renditions exist before
+ * anyone gets the URL.
+ */
+async function writeMediaObject(
+  storage: StorageDriver,
+  opts: {
+    storageKey: string;
+    sha256: string;
+    sniffed: SniffedType;
+    body: Buffer;
+    uploadedBy: string | null;
+  },
+): Promise<StoredMedia> {
+  const { storageKey, sha256, sniffed } = opts;
+
+  const { body, ...processed } =
+    sniffed.type === "VIDEO"
+      ? await processVideoUpload(storage, sha256, opts.body)
+      : await processImageUpload(storage, sha256, sniffed, opts.body);
+
+  await storage.put(storageKey, body, processed.mimeType);
+  const url = storage.publicUrl(storageKey);
+
+  await pool.query(
+    `INSERT INTO media_objects
+       (storage_key, driver, url, sha256, mime_type, media_type, size_bytes,
+        uploaded_by, width, height, renditions, duration_seconds, poster_url)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::jsonb, $12, $13)
+     ON CONFLICT (storage_key) DO UPDATE
+       SET mime_type = EXCLUDED.mime_type,
+           size_bytes = EXCLUDED.size_bytes,
+           width = EXCLUDED.width,
+           height = EXCLUDED.height,
+           renditions = EXCLUDED.renditions,
+           duration_seconds = EXCLUDED.duration_seconds,
+           poster_url = EXCLUDED.poster_url,
+           last_used_at = now()`,
+    [
+      storageKey,
+      storage.name,
+      url,
+      sha256,
+      processed.mimeType,
+      sniffed.type,
+      body.length,
+      opts.uploadedBy,
+      processed.width,
+      processed.height,
+      processed.renditions ? JSON.stringify(processed.renditions) : null,
+      processed.durationSeconds,
+      processed.posterUrl,
+    ],
+  );
+
+  return {
+    storageKey,
+    url,
+    type: sniffed.type,
+    sizeBytes: body.length,
+    sha256,
+    ...processed,
+  };
+}
+
+function toStoredMedia(row: any): StoredMedia {
+  return {
+    storageKey: row.storage_key,
+    url: row.url,
+    mimeType: row.mime_type,
+    type: row.media_type,
+    sizeBytes: Number(row.size_bytes),
+    sha256: row.sha256,
+    width: row.width,
+    height: row.height,
+    renditions: row.renditions,
+    durationSeconds: row.duration_seconds === null ? null : Number(row.duration_seconds),
+    posterUrl: row.poster_url,
+  };
+}
+
+/**
+ * Sniffs, size-checks and stores a file. Objects are named by the SHA-256
+ * of the bytes as uploaded, so uploading the same file twice stores (and
+ * processes) it once.
+ */
+export async function storeMedia(
+  body: Buffer,
+  opts: { allow?: MediaType[]; uploadedBy?: string | null } = {},
+): Promise<StoredMedia> {
+  const sniffed = sniffMediaType(body);
+  if (!sniffed) {
+    throw new MediaRejectedError("Unsupported file type. Use JPEG, PNG, WebP, GIF, MP4, MOV or WebM", 415);
+  }
+  if (opts.allow && !opts.allow.includes(sniffed.type)) {
+    throw new MediaRejectedError(`${sniffed.type === "VIDEO" ? "Videos" : "Images"} are not allowed here`, 415);
+  }
+
+  const limit = MEDIA_SIZE_LIMITS[sniffed.type];
+  if (body.length > limit) {
+    throw new MediaRejectedError(
+      `${sniffed.type === "VIDEO" ? "Videos" : "Images"} can be at most ${formatLimit(limit)}`,
+      413,
+    );
+  }
+
+  const sha256 = crypto.createHash("sha256").update(body).digest("hex");
+  const storageKey =
+    sniffed.type === "VIDEO"
+      ? videoKey(sha256)
+      : `images/${sha256.slice(0, 2)}/${sha256}.${sniffed.ext}`;
+
+  // Media stored before processing existed has no renditions yet; it is
+  // redone as if new. Reuse counts as a fresh upload for the unused media
+  // purge, which would otherwise delete an old orphan about to be referenced.
+  const existing = await pool.query(
+    `UPDATE media_objects SET last_used_at = now() WHERE storage_key = $1 RETURNING *`,
+    [storageKey],
+  );
+  const row = existing.rows[0];
+  if (row?.renditions) {
+    return toStoredMedia(row);
+  }
+
+  return writeMediaObject(getStorage(), {
+    storageKey,
+    sha256,
+    sniffed,
+    body,
+    uploadedBy: opts.uploadedBy ?? null,
+  });
+}
+
+// Uploads nothing has referenced after this long are deleted. Registration
+// uploads files before the account exists, so this must cover the time
+// someone takes to fill in the form.
+const UNUSED_MEDIA_TTL_HOURS = Number(process.env.UNUSED_MEDIA_TTL_HOURS || 24);
+const UNUSED_MEDIA_INTERVAL_MS = 60 * 60 * 1000;
+
+// Every place that can hold a media URL or key
+function unreferencedCondition(alias: string) {
+  return `NOT EXISTS (SELECT 1 FROM provider_media m WHERE m.storage_key = ${alias}.storage_key OR m.url = ${alias}.url)
+       AND NOT EXISTS (SELECT 1 FROM feed_posts f WHERE ${alias}.url = ANY(f.media_urls))
+       AND NOT EXISTS (SELECT 1 FROM blacklist_entries b WHERE ${alias}.url = ANY(b.evidence_urls))
+       AND NOT EXISTS (SELECT 1 FROM reports rp WHERE ${alias}.url = ANY(rp.evidence_urls))`;
+}
+
+/**
+ * Deletes a stored object, its renditions and its row unless something
+ * still points at it. Objects are shared by content, so a single reference
+ * going away doesn't mean the file can go. With unusedForHours, an object
+ * uploaded or reused more recently than that is kept too. Returns whether
+ * it was deleted.
+ */
+export async function deleteMediaObjectIfUnused(storageKey: string, unusedForHours = 0) {
+  const r = await pool.query(
+    `DELETE FROM media_objects o
+     WHERE o.storage_key = $1
+       AND o.last_used_at <= now() - make_interval(hours => $2)
+       AND ${unreferencedCondition("o")}
+     RETURNING o.sha256, o.renditions`,
+    [storageKey, unusedForHours],
+  );
+  const row = r.rows[0];
+  if (!row) return false;
+
+  const storage = getStorage();
+  await storage.delete(storageKey);
+  if (row.renditions) {
+    for (const name of RENDITION_NAMES) {
+      await storage.delete(renditionKey(row.sha256, name, "webp"));
+      await storage.delete(renditionKey(row.sha256, name, "jpg"));
+    }
+  }
+  return true;
+}
+
+/**
+ * Best effort deletion after a commit that dropped references: a file that
+ * can't be deleted now is only wasted space, and the unused media job
+ * retries it later.
+ */
+export async function deleteMediaObjectsIfUnused(storageKeys: Iterable<string>) {
+  for (const key of new Set(storageKeys)) {
+    try {
+      await deleteMediaObjectIfUnused(key);
+    } catch (e) {
+      console.error(`Failed to delete media object ${key}`, e);
+    }
+  }
+}
+
+/**
+ * Storage keys of everything a provider's rows point at (gallery, feed
+ * posts, blacklist evidence). Collected before the provider is deleted,
+ * since the rows go with it.
+ */
+export async function providerMediaKeys(db: PoolClient | typeof pool, providerId: string) {
+  const r = await db.query(
+    `SELECT o.storage_key FROM media_objects o
+     WHERE o.storage_key IN (
+         SELECT m.storage_key FROM provider_media m WHERE m.provider_id = $1
+       )
+       OR o.url IN (SELECT m.url FROM provider_media m WHERE m.provider_id = $1)
+       OR o.url IN (SELECT unnest(f.media_urls) FROM feed_posts f WHERE f.provider_id = $1)
+       OR o.url IN (
+         SELECT unnest(b.evidence_urls) FROM blacklist_entries b
+         WHERE b.submitted_by_provider_id = $1
+       )`,
+    [providerId],
+  );
+  return r.rows.map((row) => row.storage_key as string);
+}
+
+/**
+ * Deletes uploads that nothing has referenced since they were last uploaded
+ * or pointed at, UNUSED_MEDIA_TTL_HOURS ago:
+ * anonymous uploads never used in a registration, files whose last
+ * reference was removed while a cleanup failed, and so on.
+ */
+export async function purgeUnusedMedia() {
+  const r = await pool.query(
+    `SELECT o.storage_key FROM media_objects o
+     WHERE o.last_used_at < now() - make_interval(hours => $1)
+       AND ${unreferencedCondition("o")}
+     ORDER BY o.last_used_at
+     LIMIT 200`,
+    [UNUSED_MEDIA_TTL_HOURS],
+  );
+
+  let deleted = 0;
+  for (const row of r.rows) {
+    // Rechecked in the DELETE, in case it was referenced or reused since
+    if (await deleteMediaObjectIfUnused(row.storage_key, UNUSED_MEDIA_TTL_HOURS)) deleted++;
+  }
+  return deleted;
+}
+
+export function startUnusedMediaPurgeWorker() {
+  return every("unused-media-purge", UNUSED_MEDIA_INTERVAL_MS, purgeUnusedMedia);
+}
+
+/**
+ * Processes an image already in storage: the original is rewritten without
+ * metadata (same key) and renditions are generated. For objects stored
+ * before image processing existed.
+ */
+export async function reprocessStoredImage(storageKey: string) {
+  const r = await pool.query(
+    `SELECT * FROM media_objects WHERE storage_key = $1 AND media_type = 'IMAGE'`,
+    [storageKey],
+  );
+  const row = r.rows[0];
+  if (!row) return null;
+
+  const storage = getStorage();
+  const body = await storage.get(storageKey);
+  const sniffed = sniffMediaType(body);
+  if (!sniffed || sniffed.type !== "IMAGE") {
+    throw new MediaRejectedError(`${storageKey} is not an image`, 415);
+  }
+
+  return writeMediaObject(storage, {
+    storageKey,
+    sha256: row.sha256,
+    sniffed,
+    body,
+    uploadedBy: row.uploaded_by,
+  });
+}
+
+/**
+ * Transcodes a video stored before video processing existed. The result is
+ * always MP4, so a MOV or WebM original ends up under a new key; every
+ * reference is moved to it and the original is deleted.
+ */
+export async function reprocessStoredVideo(storageKey: string) {
+  const r = await pool.query(
+    `SELECT * FROM media_objects WHERE storage_key = $1 AND media_type = 'VIDEO'`,
+    [storageKey],
+  );
+  const row = r.rows[0];
+  if (!row) return null;
+
+  const storage = getStorage();
+  const body = await storage.get(storageKey);
+  const sniffed = sniffMediaType(body);
+  if (!sniffed || sniffed.type !== "VIDEO") {
+    throw new MediaRejectedError(`${storageKey} is not a video`, 415);
+  }
+
+  const stored = await writeMediaObject(storage, {
+    storageKey: videoKey(row.sha256),
+    sha256: row.sha256,
+    sniffed,
+    body,
+    uploadedBy: row.uploaded_by,
+  });
+
+  await pool.query(
+    `UPDATE provider_media
+     SET url = $3, storage_key = $4, mime_type = $5, size_bytes = $6
+     WHERE storage_key = $1 OR url = $2`,
+    [storageKey, row.url, stored.url, stored.storageKey, stored.mimeType, stored.sizeBytes],
+  );
+  if (stored.storageKey !== storageKey) {
+    for (const [table, column] of [
+      ["feed_posts", "media_urls"],
+      ["blacklist_entries", "evidence_urls"],
+      ["reports", "evidence_urls"],
+    ]) {
+      await pool.query(
+        `UPDATE ${table} SET ${column} = array_replace(${column}, $1, $2) WHERE $1 = ANY(${column})`,
+        [row.url, stored.url],
+      );
+    }
+    await deleteMediaObjectIfUnused(storageKey);
+  }
+
+  return stored;
+}
+
+const DATA_URI_RE = /^data:([\w.+-]+\/[\w.+-]+)?(;[\w-]+=[^;,]*)*;base64,/i;
+
+export function isDataUri(value: string) {
+  return value.startsWith("data:");
+}
+
+/**
+ * Decodes a base64 data URI and stores it like an upload.
+ */
+export async function storeDataUri(
+  uri: string,
+  opts: { allow?: MediaType[]; uploadedBy?: string | null } = {},
+) {
+  const match = DATA_URI_RE.exec(uri);
+  if (!match) throw new MediaRejectedError("Only base64 data URIs are supported", 400);
+  const body = Buffer.from(uri.slice(match[0].length), "base64");
+  return storeMedia(body, opts);
+}
+
+/**
+ * Turns a media string from a JSON body (URL or legacy data URI) into
+ * something insertable. Data URIs are moved into storage, so they never
+ * reach the database; URLs of our own uploads pick up their metadata.
+ */
+export async function resolveMediaInput(
+  input: string,
+  opts: { allow?: MediaType[]; uploadedBy?: string | null; db?: PoolClient } = {},
+): Promise<ResolvedMedia> {
+  if (isDataUri(input)) {
+    const stored = await storeDataUri(input, opts);
+    return {
+      url: stored.url,
+      type: stored.type,
+      storageKey: stored.storageKey,
+      mimeType: stored.mimeType,
+      sizeBytes: stored.sizeBytes,
+    };
+  }
+
+  // Touched so the unused media purge leaves it alone while the caller
+  // stores the reference
+  const r = await (opts.db ?? pool).query(
+    `UPDATE media_objects SET last_used_at = now()
+     WHERE url = $1
+     RETURNING storage_key, mime_type, media_type, size_bytes`,
+    [input],
+  );
+  const known = r.rows[0];
+  if (known && opts.allow && !opts.allow.includes(known.media_type)) {
+    throw new MediaRejectedError(`${known.media_type === "VIDEO" ? "Videos" : "Images"} are not allowed here`, 415);
+  }
+
+  return {
+    url: input,
+    type: known?.media_type ?? "IMAGE",
+    storageKey: known?.storage_key ?? null,
+    mimeType: known?.mime_type ?? null,
+    sizeBytes: known ? Number(known.size_bytes) : null,
+  };
+}
+
+/**
+ * For plain URL arrays (feed posts, evidence): data URIs are stored and
+ * replaced by their URL, everything else passes through.
+ */
+export async function resolveMediaUrls(
+  inputs: string[],
+  opts: { allow?: MediaType[]; uploadedBy?: string | null } = {},
+) {
+  const urls: string[] = [];
+  for (const input of inputs) {
+    urls.push(isDataUri(input) ? (await storeDataUri(input, opts)).url : input);
+  }
+  return urls;
+}
+
+/**
+ * Inserts a provider_media row for resolved media, at the end of the
+ * gallery. Returns the new id.
+ */
+export async function insertProviderMedia(
+  db: PoolClient,
+  providerId: string,
+  media: ResolvedMedia,
+  flags: { isCover?: boolean; isAvatar?: boolean } = {},
+) {
+  const r = await db.query(
+    `INSERT INTO provider_media
+       (provider_id, url, type, is_cover, is_avatar, storage_key, mime_type, size_bytes, position)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8,
+       (SELECT COALESCE(MAX(position) + 1, 0) FROM provider_media WHERE provider_id = $1))
+     RETURNING id`,
+    [
+      providerId,
+      media.url,
+      media.type,
+      flags.isCover ?? false,
+      flags.isAvatar ?? false,
+      media.storageKey,
+      media.mimeType,
+      media.sizeBytes,
+    ],
+  );
+  return r.rows[0].id as string;
+}
@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { pool } from "../../config/db";
+import { every } from "../scheduler";
+import { getPrivateStorage } from "./drivers";
+import { ImageProcessingError, stripImageMetadata } from "./images";
+import { MediaRejectedError, MEDIA_SIZE_LIMITS, sniffMediaType } from "./media";
+
+/**
+ * Identity and verification documents (currently the registration selfie).
+ * Kept out of provider_media and public storage: files live in a separate
+ * directory or bucket, admins read them through short-lived signed URLs,
+ * and they are deleted a retention window after the provider is approved.
+ *
+ * Uploads start unclaimed (provider_id NULL) and are claimed by the
+ * registration that references them. Anything left unclaimed, including
+ * files of deleted accounts, is removed by the purge worker.
+ */
+
+export const PRIVATE_MEDIA_KINDS = ["VERIFICATION_SELFIE"] as const;
+export type PrivateMediaKind = (typeof PRIVATE_MEDIA_KINDS)[number];
+
+// How long documents are kept once the provider is approved
+export const VERIFICATION_MEDIA_RETENTION_DAYS = Number(
+  process.env.VERIFICATION_MEDIA_RETENTION_DAYS || 30,
+);
+
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.SIGNED_URL_TTL_SECONDS || 300);
+
+const UNCLAIMED_TTL_HOURS = 24;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// What clients send back to reference a private upload: "private:<id>"
+const PRIVATE_REF_RE = /^private:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export function privateMediaRef(id: string) {
+  return `private:${id}`;
+}
+
+/**
+ * Stores an image privately (metadata stripped) and records it unclaimed.
+ * Keys are random rather than content-addressed, so each upload is its own
+ * object and can be deleted on its own.
+ */
+export async function storePrivateMedia(
+  body: Buffer,
+  opts: { kind: PrivateMediaKind; uploadedBy?: string | null },
+) {
+  const sniffed = sniffMediaType(body);
+  if (!sniffed || sniffed.type !== "IMAGE") {
+    throw new MediaRejectedError("Verification documents must be JPEG, PNG, WebP or GIF images", 415);
+  }
+  if (body.length > MEDIA_SIZE_LIMITS.IMAGE) {
+    throw new MediaRejectedError(
+      `Images can be at most ${Math.round(MEDIA_SIZE_LIMITS.IMAGE / (1024 * 1024))} MB`,
+      413,
+    );
+  }
+
+  let stripped: Buffer;
+  try {
+    stripped = await stripImageMetadata(body, sniffed.mimeType);
+  } catch (e) {
+    if (e instanceof ImageProcessingError) {
+      throw new MediaRejectedError("Image could not be processed", 415);
+    }
+    throw e;
+  }
+
+  const storageKey = `${opts.kind.toLowerCase().replace(/_/g, "-")}/${crypto.randomUUID()}.${sniffed.ext}`;
+  await getPrivateStorage().put(storageKey, stripped, sniffed.mimeType);
+
+  const r = await pool.query(
+    `INSERT INTO private_media (kind, storage_key, mime_type, size_bytes, uploaded_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id, kind, mime_type, size_bytes, created_at`,
+    [opts.kind, storageKey, sniffed.mimeType, stripped.length, opts.uploadedBy ?? null],
+  );
+  return r.rows[0] as {
+    id: string;
+    kind: PrivateMediaKind;
+    mime_type: string;
+    size_bytes: string;
+    created_at: Date;
+  };
+}
+
+/**
+ * Turns a JSON media string into an unclaimed private_media id: either a
+ * "private:<id>" reference from POST /api/v1/media/private or a legacy
+ * base64 data URI, which is stored here. Public URLs are refused; a
+ * document already on a public URL can't be made private.
+ */
+export async function resolvePrivateMediaInput(
+  input: string,
+  opts: { kind: PrivateMediaKind; uploadedBy?: string | null },
+) {
+  const ref = PRIVATE_REF_RE.exec(input);
+  if (ref) return ref[1];
+
+  const dataUri = /^data:[^,]*;base64,/i.exec(input);
+  if (dataUri) {
+    const body = Buffer.from(input.slice(dataUri[0].length), "base64");
+    return (await storePrivateMedia(body, opts)).id;
+  }
+
+  throw new MediaRejectedError(
+    "Upload verification documents with POST /api/v1/media/private",
+    400,
+  );
+}
+
+/**
+ * Attaches an unclaimed upload to a provider. Returns false when it doesn't
+ * exist, has the wrong kind or was already claimed. Documents of providers
+ * who are already approved get their purge date right away.
+ */
+export async function claimPrivateMedia(
+  db: PoolClient,
+  id: string,
+  opts: { kind: PrivateMediaKind; providerId: string },
+) {
+  const r = await db.query(
+    `UPDATE private_media pm
+     SET provider_id = p.id,
+         purge_after = CASE WHEN p.verification_status = 'APPROVED'
+                            THEN now() + make_interval(days => $4) END
+     FROM provider_profiles p
+     WHERE pm.id = $1
+       AND pm.kind = $2
+       AND pm.provider_id IS NULL
+       AND pm.purged_at IS NULL
+       AND p.id = $3
+     RETURNING pm.id`,
+    [id, opts.kind, opts.providerId, VERIFICATION_MEDIA_RETENTION_DAYS],
+  );
+  return r.rows.length > 0;
+}
+
+/**
+ * Starts the retention window. Called in the approval transaction; a later
+ * re-approval doesn't push the date back.
+ */
+export async function schedulePrivateMediaPurge(db: PoolClient, providerId: string) {
+  await db.query(
+    `UPDATE private_media
+     SET purge_after = now() + make_interval(days => $2)
+     WHERE provider_id = $1 AND purge_after IS NULL AND purged_at IS NULL`,
+    [providerId, VERIFICATION_MEDIA_RETENTION_DAYS],
+  );
+}
+
+/**
+ * Signed URL for an admin to view a document, or null once purged.
+ */
+export function signPrivateMedia(row: { storage_key: string; purged_at: Date | null }) {
+  if (row.purged_at) return null;
+  return {
+    url: getPrivateStorage().signedUrl(row.storage_key, SIGNED_URL_TTL_SECONDS),
+    expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000),
+  };
+}
+
+/**
+ * Deletes documents past their retention date (the row stays, marked
+ * purged, as a record that verification happened) and unclaimed uploads
+ * (row and all).
+ */
+export async function purgePrivateMedia() {
+  const storage = getPrivateStorage();
+
+  const due = await pool.query(
+    `SELECT id, storage_key FROM private_media
+     WHERE purge_after <= now() AND purged_at IS NULL
+     ORDER BY purge_after
+     LIMIT 500`,
+  );
+  for (const row of due.rows) {
+    await storage.delete(row.storage_key);
+    await pool.query(`UPDATE private_media SET purged_at = now() WHERE id = $1`, [row.id]);
+  }
+
+  // Row first, so a registration can't claim a file that's being deleted
+  const unclaimed = await pool.query(
+    `DELETE FROM private_media
+     WHERE id IN (
+       SELECT id FROM private_media
+       WHERE provider_id IS NULL
+         AND created_at < now() - make_interval(hours => $1)
+       ORDER BY created_at
+       LIMIT 500
+     )
+     AND provider_id IS NULL
+     RETURNING storage_key, purged_at`,
+    [UNCLAIMED_TTL_HOURS],
+  );
+  for (const row of unclaimed.rows) {
+    if (!row.purged_at) await storage.delete(row.storage_key);
+  }
+
+  return { purged: due.rows.length, unclaimed: unclaimed.rows.length };
+}
+
+export function startPrivateMediaPurgeWorker() {
+  return every("private-media-purge", PURGE_INTERVAL_MS, purgePrivateMedia);
+}
@@ -0,0 +1,239 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+/**
+ * Video processing for uploads. Whatever the upload format (MP4, MOV,
+ * WebM), the stored file is H.264/AAC MP4 with the index at the front
+ * (plays in every browser and starts before it has fully downloaded), no
+ * metadata (phones record GPS here too), and at most 1280px on the long
+ * side. A poster frame is taken from the result.
+ *
+ * VIDEO_PROCESSOR=ffmpeg|disabled (default ffmpeg). With "disabled" video
+ * uploads are refused, for hosts without ffmpeg.
+ */
+
+export const VIDEO_PROCESSOR_NAMES = ["ffmpeg", "disabled"] as const;
+export type VideoProcessorName = (typeof VIDEO_PROCESSOR_NAMES)[number];
+
+export type VideoInfo = {
+  durationSeconds: number;
+  width: number;
+  height: number;
+};
+
+export type ProcessedVideo = VideoInfo & {
+  video: Buffer;
+  mimeType: "video/mp4";
+  // JPEG, full size
+  poster: Buffer;
+};
+
+export interface VideoProcessor {
+  name: VideoProcessorName;
+  // Cheap check before transcoding; throws VideoProcessingError if the file
+  // isn't a readable video
+  probe(body: Buffer): Promise<VideoInfo>;
+  // maxSeconds: the output is cut off there, whatever the container claims
+  transcode(body: Buffer, opts: { maxSeconds: number }): Promise<ProcessedVideo>;
+}
+
+export class VideoProcessingError extends Error {}
+
+const run = promisify(execFile);
+
+const MAX_DIMENSION = 1280;
+const CRF = 23;
+const AUDIO_BITRATE = "128k";
+// Encoding is slow; give up rather than hold the request forever
+const TRANSCODE_TIMEOUT_MS = Number(process.env.VIDEO_TRANSCODE_TIMEOUT_MS || 120_000);
+const PROBE_TIMEOUT_MS = 15_000;
+// Each encode takes a full core; more at once just makes all of them time out
+const MAX_CONCURRENT_TRANSCODES = Math.max(1, Number(process.env.VIDEO_MAX_CONCURRENT_TRANSCODES || 2));
+// Cut a little past the limit so a clip that is just within it isn't trimmed
+const DURATION_MARGIN_SECONDS = 1;
+
+/**
+ * Runs the local ffmpeg/ffprobe binaries (FFMPEG_PATH and FFPROBE_PATH,
+ * default from PATH) on a temporary copy of the upload.
+ */
+export class FfmpegVideoProcessor implements VideoProcessor {
+  name = "ffmpeg" as const;
+
+  constructor(
+    private ffmpeg = process.env.FFMPEG_PATH || "ffmpeg",
+    private ffprobe = process.env.FFPROBE_PATH || "ffprobe",
+  ) {}
+
+  private running = 0;
+  private waiting: (() => void)[] = [];
+
+  private async withSlot<T>(fn: () => Promise<T>) {
+    if (this.running >= MAX_CONCURRENT_TRANSCODES) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+    try {
+      return await fn();
+    } finally {
+      // Hand the slot straight to the next in line, or give it back
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.running--;
+    }
+  }
+
+  private async withTempDir<T>(fn: (dir: string) => Promise<T>) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "video-"));
+    try {
+      return await fn(dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async exec(bin: string, args: string[], timeout: number) {
+    try {
+      const { stdout } = await run(bin, args, { timeout, maxBuffer: 1024 * 1024 });
+      return stdout;
+    } catch (e: any) {
+      if (e?.code === "ENOENT") throw new Error(`${bin} not found; install ffmpeg or set VIDEO_PROCESSOR=disabled`);
+      if (e?.killed) throw new VideoProcessingError("Video took too long to process");
+      // Last line of stderr is usually the reason
+      const reason = String(e?.stderr ?? e?.message ?? "").trim().split("\n").pop();
+      throw new VideoProcessingError(reason || "Video could not be processed");
+    }
+  }
+
+  private async probeFile(file: string): Promise<VideoInfo> {
+    const out = await this.exec(
+      this.ffprobe,
+      [
+        "-v", "error",
+        "-select_streams", "v:0",
+        "-show_entries", "stream=width,height:stream_tags=rotate:stream_side_data=rotation:format=duration",
+        "-of", "json",
+        file,
+      ],
+      PROBE_TIMEOUT_MS,
+    );
+
+    let info: any;
+    try {
+      info = JSON.parse(out);
+    } catch {
+      throw new VideoProcessingError("Video could not be read");
+    }
+    const stream = info.streams?.[0];
+    const durationSeconds = Number(info.format?.duration);
+    if (!stream || !stream.width || !stream.height || !Number.isFinite(durationSeconds)) {
+      throw new VideoProcessingError("No video stream found");
+    }
+
+    // Phone videos are often stored sideways with a rotation flag
+    const rotation = Math.abs(
+      Number(stream.tags?.rotate ?? stream.side_data_list?.find((d: any) => d.rotation !== undefined)?.rotation ?? 0),
+    );
+    const sideways = rotation === 90 || rotation === 270;
+    return {
+      durationSeconds,
+      width: sideways ? stream.height : stream.width,
+      height: sideways ? stream.width : stream.height,
+    };
+  }
+
+  async probe(body: Buffer) {
+    return this.withTempDir(async (dir) => {
+      const input = path.join(dir, "input");
+      await fs.writeFile(input, body);
+      return this.probeFile(input);
+    });
+  }
+
+  async transcode(body: Buffer, opts: { maxSeconds: number }): Promise<ProcessedVideo> {
+    return this.withSlot(() => this.withTempDir(async (dir) => {
+      const input = path.join(dir, "input");
+      const output = path.join(dir, "output.mp4");
+      const poster = path.join(dir, "poster.jpg");
+      await fs.writeFile(input, body);
+
+      // Rotation is applied by ffmpeg (autorotate), so the output is upright
+      await this.exec(
+        this.ffmpeg,
+        [
+          "-y", "-v", "error",
+          "-i", input,
+          "-map", "0:v:0", "-map", "0:a:0?",
+          "-map_metadata", "-1",
+          "-vf",
+          // Fit the box without upscaling, then round to even sizes for H.264
+          `scale='min(${MAX_DIMENSION},iw)':'min(${MAX_DIMENSION},ih)':force_original_aspect_ratio=decrease,` +
+            "scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p",
+          "-c:v", "libx264", "-preset", "veryfast", "-crf", String(CRF),
+          "-c:a", "aac", "-b:a", AUDIO_BITRATE, "-ac", "2",
+          "-movflags", "+faststart",
+          // The probed duration comes from the container and can be faked
+          "-t", String(opts.maxSeconds + DURATION_MARGIN_SECONDS),
+          output,
+        ],
+        TRANSCODE_TIMEOUT_MS,
+      );
+
+      const info = await this.probeFile(output);
+
+      // A second in, so it isn't the black first frame many clips start with
+      const at = Math.min(1, info.durationSeconds / 2);
+      await this.exec(
+        this.ffmpeg,
+        ["-y", "-v", "error", "-ss", at.toFixed(2), "-i", output, "-frames:v", "1", "-q:v", "2", poster],
+        PROBE_TIMEOUT_MS,
+      );
+
+      return {
+        ...info,
+        video: await fs.readFile(output),
+        mimeType: "video/mp4",
+        poster: await fs.readFile(poster),
+      };
+    }));
+  }
+}
+
+export class DisabledVideoProcessor implements VideoProcessor {
+  name = "disabled" as const;
+
+  async probe(): Promise<VideoInfo> {
+    throw new VideoProcessingError("Video uploads are not available");
+  }
+
+  async transcode(): Promise<ProcessedVideo> {
+    throw new VideoProcessingError("Video uploads are not available");
+  }
+}
+
+let processor: VideoProcessor | null = null;
+
+export function getVideoProcessor(): VideoProcessor {
+  if (processor) return processor;
+
+  const name = process.env.VIDEO_PROCESSOR || "ffmpeg";
+  switch (name) {
+    case "ffmpeg":
+      processor = new FfmpegVideoProcessor();
+      break;
+    case "disabled":
+      processor = new DisabledVideoProcessor();
+      break;
+    default:
+      throw new Error(`Unknown video processor: ${name}`);
+  }
+  return processor;
+}
+
+// Transcoded videos are always MP4, whatever was uploaded
+export function videoKey(sha256: string) {
+  return `videos/${sha256.slice(0, 2)}/${sha256}.mp4`;
+}
@@ -0,0 +1,195 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/db";
+import { every } from "./scheduler";
+import { notify } from "./notifications";
+import { queueEmail } from "./mailer";
+import { SUBSCRIPTION_GRACE_DAYS } from "./visibility";
+
+/**
+ * Subscription lifecycle notices: reminders before expiry, a notice once it
+ * lapses and a confirmation when a payment activates or renews it. Each goes
+ * out as an in-app notification plus an email.
+ *
+ * Deduplication rides on notifications.dedupe_key, which includes the
+ * expiry timestamp: renewing moves the expiry, so the next period gets its
+ * own set of reminders.
+ */
+export const REMINDER_DAYS = [7, 3, 1];
+
+const REMINDER_INTERVAL_MS = 15 * 60 * 1000;
+
+// How far back the job looks for expiries it hasn't announced yet, so a
+// few hours of downtime don't lose notices
+const EXPIRED_LOOKBACK_HOURS = 48;
+
+type ProviderContact = {
+  provider_id: string;
+  user_id: string;
+  email: string;
+  display_name: string;
+  subscription_expires_at: Date;
+};
+
+async function inTransaction(fn: (client: PoolClient) => Promise<boolean>) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const sent = await fn(client);
+    await client.query("COMMIT");
+    return sent;
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Smallest reminder threshold the remaining time falls under, e.g. 2.5 days
+ * left -> 3. A reminder skipped while the job was down isn't sent late.
+ */
+function reminderBucket(expiresAt: Date, now = Date.now()) {
+  const daysLeft = Math.ceil((expiresAt.getTime() - now) / (24 * 60 * 60 * 1000));
+  const buckets = [...REMINDER_DAYS].sort((a, b) => a - b);
+  return buckets.find((d) => daysLeft <= d) ?? null;
+}
+
+export async function sendExpiryReminders() {
+  const maxDays = Math.max(...REMINDER_DAYS);
+  const r = await pool.query(
+    `
+    SELECT p.id AS provider_id, u.id AS user_id, u.email, p.display_name,
+           p.subscription_expires_at
+    FROM provider_profiles p
+    JOIN users u ON u.id = p.user_id
+    WHERE p.subscription_expires_at > now()
+      AND p.subscription_expires_at <= now() + make_interval(days => $1)
+      AND p.verification_status = 'APPROVED'
+      AND p.is_suspended = false
+    `,
+    [maxDays],
+  );
+
+  let sent = 0;
+  for (const p of r.rows as ProviderContact[]) {
+    const bucket = reminderBucket(p.subscription_expires_at);
+    if (bucket === null) continue;
+
+    const expiresAt = p.subscription_expires_at.toISOString();
+    const when = bucket <= 1 ? "tomorrow" : `in ${bucket} days`;
+
+    const ok = await inTransaction(async (client) => {
+      const id = await notify(client, {
+        userId: p.user_id,
+        type: "SUBSCRIPTION_EXPIRING",
+        title: `Your subscription expires ${when}`,
+        body: "Renew to stay in listings and the feed.",
+        data: { providerId: p.provider_id, expiresAt, daysLeft: bucket },
+        dedupeKey: `subscription-expiring:${p.provider_id}:${expiresAt}:${bucket}`,
+      });
+      if (!id) return false;
+
+      await queueEmail(
+        p.email,
+        "subscriptionExpiring",
+        { displayName: p.display_name, expiresAt, daysLeft: bucket },
+        client,
+      );
+      return true;
+    });
+    if (ok) sent++;
+  }
+  return sent;
+}
+
+export async function sendExpiryNotices() {
+  const r = await pool.query(
+    `
+    SELECT p.id AS provider_id, u.id AS user_id, u.email, p.display_name,
+           p.subscription_expires_at
+    FROM provider_profiles p
+    JOIN users u ON u.id = p.user_id
+    WHERE p.subscription_expires_at <= now()
+      AND p.subscription_expires_at > now() - make_interval(hours => $1)
+      AND p.is_suspended = false
+    `,
+    [EXPIRED_LOOKBACK_HOURS],
+  );
+
+  let sent = 0;
+  for (const p of r.rows as ProviderContact[]) {
+    const expiredAt = p.subscription_expires_at.toISOString();
+
+    const ok = await inTransaction(async (client) => {
+      const id = await notify(client, {
+        userId: p.user_id,
+        type: "SUBSCRIPTION_EXPIRED",
+        title: "Your subscription has expired",
+        body: "Your profile is hidden from listings until you renew.",
+        data: { providerId: p.provider_id, expiredAt },
+        dedupeKey: `subscription-expired:${p.provider_id}:${expiredAt}`,
+      });
+      if (!id) return false;
+
+      await queueEmail(
+        p.email,
+        "subscriptionExpired",
+        { displayName: p.display_name, expiredAt, graceDays: SUBSCRIPTION_GRACE_DAYS },
+        client,
+      );
+      return true;
+    });
+    if (ok) sent++;
+  }
+  return sent;
+}
+
+/**
+ * Called from inside the transaction that activates a payment, so the
+ * notice exists if and only if the payment went through.
+ */
+export async function notifySubscriptionPaid(
+  db: PoolClient,
+  opts: { providerId: string; paymentId: string; expiresAt: Date },
+) {
+  const r = await db.query(
+    `SELECT u.id AS user_id, u.email, p.display_name, pl.name AS plan_name
+     FROM provider_profiles p
+     JOIN users u ON u.id = p.user_id
+     JOIN payments pay ON pay.id = $2
+     JOIN subscription_plans pl ON pl.id = pay.plan_id
+     WHERE p.id = $1`,
+    [opts.providerId, opts.paymentId],
+  );
+  const row = r.rows[0];
+  if (!row) return;
+
+  const expiresAt = opts.expiresAt.toISOString();
+  const id = await notify(db, {
+    userId: row.user_id,
+    type: "SUBSCRIPTION_RENEWED",
+    title: "Payment received",
+    body: `Your subscription is active until ${expiresAt.slice(0, 10)}.`,
+    data: { providerId: opts.providerId, paymentId: opts.paymentId, expiresAt },
+    dedupeKey: `subscription-paid:${opts.paymentId}`,
+  });
+  if (!id) return;
+
+  await queueEmail(
+    row.email,
+    "subscriptionRenewed",
+    { displayName: row.display_name, planName: row.plan_name, expiresAt },
+    db,
+  );
+}
+
+export async function sendSubscriptionNotices() {
+  const reminders = await sendExpiryReminders();
+  const expired = await sendExpiryNotices();
+  return { reminders, expired };
+}
+
+export function startSubscriptionNoticeWorker() {
+  return every("subscription-notices", REMINDER_INTERVAL_MS, sendSubscriptionNotices);
+}
@@ -0,0 +1,145 @@
+import { pool } from "../config/db";
+import { every } from "./scheduler";
+import { DELETION_SUSPENSION_REASON } from "./accountDeletion";
+
+/**
+ * Subscription-based visibility policy for providers.
+ *
+ * A provider is visible when approved, not suspended and subscribed.
+ * After the subscription lapses they drop out of discovery (listing, feed)
+ * straight away, but people who already know them can still open the
+ * profile or find them in favorites for a grace period while they renew.
+ */
+export type VisibilitySurface = "listing" | "detail" | "feed" | "favorites";
+
+export const SUBSCRIPTION_GRACE_DAYS = Number(process.env.SUBSCRIPTION_GRACE_DAYS || 3);
+
+const GRACE_DAYS: Record<VisibilitySurface, number> = {
+  listing: 0,
+  feed: 0,
+  detail: SUBSCRIPTION_GRACE_DAYS,
+  favorites: SUBSCRIPTION_GRACE_DAYS,
+};
+
+const EXPIRY_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * SQL condition that is true when the provider row aliased as `alias` may be
+ * shown on the given surface.
+ */
+export function visibleOn(surface: VisibilitySurface, alias = "p") {
+  const grace = GRACE_DAYS[surface];
+  return `(${alias}.verification_status = 'APPROVED'
+      AND ${alias}.is_suspended = false
+      AND ${alias}.subscription_expires_at IS NOT NULL
+      AND ${alias}.subscription_expires_at > now() - interval '${grace} days')`;
+}
+
+export type HiddenReason =
+  | "NOT_APPROVED"
+  | "SUSPENDED"
+  | "DELETION_PENDING"
+  | "NO_SUBSCRIPTION"
+  | "SUBSCRIPTION_EXPIRED";
+
+export type VisibilityStatus = {
+  visible: boolean;
+  inGracePeriod: boolean;
+  reasons: { code: HiddenReason; message: string }[];
+  verificationStatus: string;
+  subscriptionExpiresAt: Date | null;
+  graceEndsAt: Date | null;
+};
+
+/**
+ * Explains to a provider whether guests can find them, and if not, why.
+ * "visible" refers to the public listing.
+ */
+export async function getVisibilityStatus(providerId: string): Promise<VisibilityStatus | null> {
+  const r = await pool.query(
+    `SELECT verification_status, verification_rejection_reason, is_suspended,
+            suspension_reason, subscription_expires_at
+     FROM provider_profiles
+     WHERE id = $1
+     LIMIT 1`,
+    [providerId],
+  );
+
+  const p = r.rows[0];
+  if (!p) return null;
+
+  const reasons: VisibilityStatus["reasons"] = [];
+
+  if (p.verification_status !== "APPROVED") {
+    const message =
+      p.verification_status === "REJECTED"
+        ? `Your verification was rejected${p.verification_rejection_reason ? `: ${p.verification_rejection_reason}` : ""}`
+        : p.verification_status === "PENDING"
+          ? "Your profile is waiting for admin verification"
+          : "Submit your profile for verification";
+    reasons.push({ code: "NOT_APPROVED", message });
+  }
+
+  if (p.is_suspended) {
+    reasons.push(
+      p.suspension_reason === DELETION_SUSPENSION_REASON
+        ? { code: "DELETION_PENDING", message: "Your account is scheduled for deletion" }
+        : { code: "SUSPENDED", message: "Your profile has been suspended" },
+    );
+  }
+
+  const expiresAt: Date | null = p.subscription_expires_at;
+  const now = Date.now();
+  const graceEndsAt = expiresAt
+    ? new Date(expiresAt.getTime() + SUBSCRIPTION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+    : null;
+
+  if (!expiresAt) {
+    reasons.push({ code: "NO_SUBSCRIPTION", message: "Subscribe to appear in listings" });
+  } else if (expiresAt.getTime() <= now) {
+    reasons.push({
+      code: "SUBSCRIPTION_EXPIRED",
+      message: "Your subscription has expired. Renew to appear in listings again",
+    });
+  }
+
+  return {
+    visible: reasons.length === 0,
+    inGracePeriod:
+      !!expiresAt && !!graceEndsAt && expiresAt.getTime() <= now && graceEndsAt.getTime() > now,
+    reasons,
+    verificationStatus: p.verification_status,
+    subscriptionExpiresAt: expiresAt,
+    graceEndsAt,
+  };
+}
+
+/**
+ * Records an EXPIRED subscription event for every subscription that has
+ * lapsed since the last run. The unique index on (provider_id, reference)
+ * makes this safe to run from several instances.
+ */
+export async function expireSubscriptions() {
+  const r = await pool.query(
+    `
+    INSERT INTO subscription_events (provider_id, event_type, reference)
+    SELECT p.id, 'EXPIRED', 'expiry:' || to_char(p.subscription_expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+    FROM provider_profiles p
+    WHERE p.subscription_expires_at IS NOT NULL
+      AND p.subscription_expires_at <= now()
+      AND NOT EXISTS (
+        SELECT 1 FROM subscription_events e
+        WHERE e.provider_id = p.id
+          AND e.event_type = 'EXPIRED'
+          AND e.created_at >= p.subscription_expires_at
+      )
+    ON CONFLICT DO NOTHING
+    RETURNING provider_id
+    `,
+  );
+  return r.rows.length;
+}
+
+export function startSubscriptionExpiryWorker() {
+  return every("subscription-expiry", EXPIRY_INTERVAL_MS, expireSubscriptions);
+}